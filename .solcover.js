@@ -1,10 +1,7 @@
 const shell = require("shelljs");
 
-// The environment variables are loaded in hardhat.config.ts
+// The environment variables are loaded in hardhat.config.ts, MNEMONIC is optional (defaults to the test accounts)
 const mnemonic = process.env.MNEMONIC;
-if (!mnemonic) {
-  throw new Error("Please set your MNEMONIC in a .env file");
-}
 
 module.exports = {
   istanbulReporter: ["html"],
@@ -16,8 +13,6 @@ module.exports = {
     shell.rm("-rf", "./artifacts");
     shell.rm("-rf", "./typechain");
   },
-  providerOptions: {
-    mnemonic,
-  },
+  providerOptions: mnemonic ? { mnemonic } : {},
   skipFiles: ["mocks", "test", "external"],
 };
@@ -1,6 +1,7 @@
 // SPDX-License-Identifier: MIT
 
 import "./interfaces/IERC20.sol";
+import "./interfaces/IERC20Permit.sol";
 
 import "./helpers/Ownable.sol";
 
@@ -11,10 +12,15 @@ pragma solidity 0.8.17;
 
 /**
  * @notice This is staking contract which allows for owner create Pools with defined start and end times, token,
- *         APR, minimum amount tokens to stake and rewards. APR is always fixed. Users have to stake given token
+ *         APR, minimum amount tokens to stake and rewards. APR is always fixed. Owner can top up rewards of the
+ *         Pool until it ends and extend end time of the Pool which hasn't started yet. Users have to stake given token
  *         defined by the owner in the given Pool and they also earn rewards in the same token. Users can join
  *         to Pool, stake tokens and earn rewards if given Pool has available rewards and isn't closed. Owner of
- *         this contract can withdraw unused rewards when Pool will be closed.
+ *         this contract can withdraw unused rewards when Pool will be closed. Pools can allow early unstake,
+ *         then user forfeits rewards (defined by the Pool early unstake mode) and pays the principal fee.
+ *         Owner can pause staking and adding Pools, and enable the emergency mode in which users can withdraw
+ *         staked tokens of any Stake without rewards. Owner can grant pool operators the right to add Pools
+ *         and set the treasury which receives unused rewards.
  */
 contract StakingPoolsFixedApr is Ownable {
     // -----------------------------------------------------------------------
@@ -41,6 +47,18 @@ contract StakingPoolsFixedApr is Ownable {
     error StakingPoolFixedApr_CannotUnstakeYet();
     error StakingPoolFixedApr_CannotBeforeEndTime();
     error StakingPoolFixedApr_NothingToWithdraw();
+    error StakingPoolFixedApr_EarlyUnstakeFeeTooHigh();
+    error StakingPoolFixedApr_PoolAlreadyStarted();
+    error StakingPoolFixedApr_EndTimeMustBeLaterThanCurrent();
+    error StakingPoolFixedApr_ZeroAddress();
+    error StakingPoolFixedApr_PermitFailed();
+    error StakingPoolFixedApr_Paused();
+    error StakingPoolFixedApr_NotPaused();
+    error StakingPoolFixedApr_EmergencyModeEnabled();
+    error StakingPoolFixedApr_EmergencyModeNotEnabled();
+    error StakingPoolFixedApr_NotPoolOperator();
+    error StakingPoolFixedApr_ZeroLimit();
+    error StakingPoolFixedApr_EmptyBatch();
 
     // -----------------------------------------------------------------------
     //                                 Enums
@@ -51,14 +69,29 @@ contract StakingPoolsFixedApr is Ownable {
      *      status of current Pool.
      * @custom:Pending - Pool hasn't started yet and has available rewards.
      * @custom:Open - Pool already started and has available rewards.
-     * @custom:WithoutRewards - Pool doesn't have any available rewards.
-     * @custom:Closed - Pool is closed.
+     * @custom:Full - Pool hasn't ended yet, but all rewards are reserved by Stakes.
+     * @custom:Ended - Pool ended and unused rewards can be withdrawn by the owner.
+     * @custom:Finalized - Pool ended and there are no unused rewards (reserved by Stakes or withdrawn).
      */
     enum PoolStatus {
         Pending,
         Open,
-        WithoutRewards,
-        Closed
+        Full,
+        Ended,
+        Finalized
+    }
+
+    /**
+     * @dev Enum used in Pool configuration which defines what happens with rewards when user unstakes before
+     *      'unstakePossibleAt'.
+     * @custom:Disabled - Early unstake isn't possible.
+     * @custom:ProRata - User keeps rewards earned until now and forfeits the rest.
+     * @custom:ForfeitAll - User forfeits all rewards.
+     */
+    enum EarlyUnstakeMode {
+        Disabled,
+        ProRata,
+        ForfeitAll
     }
 
     // -----------------------------------------------------------------------
@@ -79,6 +112,36 @@ contract StakingPoolsFixedApr is Ownable {
         uint64 endTime;
         /// @dev APR - 100 = 1%.
         uint16 apr;
+        /// @dev What happens with rewards during early unstake.
+        EarlyUnstakeMode earlyUnstakeMode;
+        /// @dev Fee from the staked tokens paid during early unstake - 100 = 1%.
+        uint16 earlyUnstakeFee;
+    }
+
+    /// @dev Struct used in 'addStakingPool' function to configure early unstake.
+    struct EarlyUnstakeConfig {
+        /// @dev What happens with rewards during early unstake.
+        EarlyUnstakeMode mode;
+        /// @dev Fee from the staked tokens paid during early unstake - 100 = 1%.
+        uint16 principalFee;
+    }
+
+    /// @dev Struct used in 'addStakingPools' function to configure every added Pool.
+    struct StakingPoolConfig {
+        /// @dev Amount of rewards to add for Staking Pool.
+        uint256 rewardsAmount;
+        /// @dev Minimum amount of tokens which is required to join to this Pool.
+        uint256 minimumToStake;
+        /// @dev ERC-20 token used in this Pool.
+        IERC20 token;
+        /// @dev Pool start time.
+        uint64 startTime;
+        /// @dev Pool end time.
+        uint64 endTime;
+        /// @dev APR - 100 = 1%.
+        uint16 apr;
+        /// @dev Early unstake configuration (mode and principal fee).
+        EarlyUnstakeConfig earlyUnstake;
     }
 
     /// @dev Struct used in state variables to store every user stake data.
@@ -93,6 +156,8 @@ contract StakingPoolsFixedApr is Ownable {
         address owner;
         /// @dev First possible time when user will be able to unstake his tokens with rewards.
         uint64 unstakePossibleAt;
+        /// @dev Time from which rewards are earned.
+        uint64 startTime;
     }
 
     /// @dev Struct used in view functions to return Stake data.
@@ -107,6 +172,8 @@ contract StakingPoolsFixedApr is Ownable {
         uint256 rewards;
         /// @dev First possible time when user will be able to unstake his tokens with rewards.
         uint64 unstakePossibleAt;
+        /// @dev Time from which rewards are earned.
+        uint64 startTime;
     }
 
     /// @dev Struct used in view function to return Staking Pool data.
@@ -127,10 +194,22 @@ contract StakingPoolsFixedApr is Ownable {
         uint64 endTime;
         /// @dev APR - 100 = 1%.
         uint16 apr;
+        /// @dev What happens with rewards during early unstake.
+        EarlyUnstakeMode earlyUnstakeMode;
+        /// @dev Fee from the staked tokens paid during early unstake - 100 = 1%.
+        uint16 earlyUnstakeFee;
         /// @dev Current Staking Pool status (more in enum section).
         PoolStatus status;
     }
 
+    /// @dev Struct used in 'getStakingPools' function to filter returned Pools.
+    struct StakingPoolsFilter {
+        /// @dev Bit mask of the returned statuses (1 << PoolStatus), 0 = all statuses.
+        uint8 statuses;
+        /// @dev ERC-20 token of the returned Pools, zero address = all tokens.
+        IERC20 token;
+    }
+
     // -----------------------------------------------------------------------
     //                              State Variables
     // -----------------------------------------------------------------------
@@ -149,6 +228,16 @@ contract StakingPoolsFixedApr is Ownable {
     /// @dev Mapping which stores all user Stake ids. Address => Array of ids.
     mapping(address => uint256[]) public userStakeIds;
 
+    /// @dev True when staking and adding new Pools are paused.
+    bool public paused;
+    /// @dev True when users can withdraw staked tokens without rewards. Cannot be disabled once enabled.
+    bool public emergencyMode;
+
+    /// @dev Mapping which stores addresses allowed to add Pools (besides the owner). Address => Is pool operator.
+    mapping(address => bool) public poolOperators;
+    /// @dev Address which receives unused rewards, zero address = current owner.
+    address private treasury;
+
     // -----------------------------------------------------------------------
     //                                  Events
     // -----------------------------------------------------------------------
@@ -162,6 +251,7 @@ contract StakingPoolsFixedApr is Ownable {
      * @param startTime Pool start time.
      * @param endTime Pool end time.
      * @param apr APR - 100 = 1%.
+     * @param earlyUnstake Early unstake configuration.
      */
     event StakingPoolAdded(
         uint256 indexed stakingPoolId,
@@ -170,12 +260,13 @@ contract StakingPoolsFixedApr is Ownable {
         address token,
         uint64 startTime,
         uint64 endTime,
-        uint16 apr
+        uint16 apr,
+        EarlyUnstakeConfig earlyUnstake
     );
 
     /**
-     * @dev Emitted when user stake his tokens.
-     * @param user Address which staked his tokens.
+     * @dev Emitted when user stake his tokens (also on behalf of another address).
+     * @param user Address which owns the new Stake.
      * @param stakeId Id of the new created stake.
      * @param stakingPoolId Id of the Staking Pool to which user joined.
      * @param staked Amount of staked tokens.
@@ -191,6 +282,14 @@ contract StakingPoolsFixedApr is Ownable {
         uint64 unstakePossibleAt
     );
 
+    /**
+     * @dev Emitted when owner of the Stake transferred it to another address.
+     * @param stakeId Id of the transferred Stake.
+     * @param from Previous owner of the Stake.
+     * @param to New owner of the Stake.
+     */
+    event StakeTransferred(uint256 indexed stakeId, address indexed from, address indexed to);
+
     /**
      * @dev Emitted when user performed 'unstake' function.
      * @param user Address which performed unstake action.
@@ -198,6 +297,15 @@ contract StakingPoolsFixedApr is Ownable {
      */
     event Unstaked(address indexed user, uint256 indexed stakeId);
 
+    /**
+     * @dev Emitted when user unstaked before 'unstakePossibleAt' (together with {Unstaked}).
+     * @param user Address which performed unstake action.
+     * @param stakeId Id of the unstaked Stake.
+     * @param forfeitedRewards Rewards returned to the Pool available rewards.
+     * @param fee Fee from the staked tokens added to the Pool rewards.
+     */
+    event UnstakedEarly(address indexed user, uint256 indexed stakeId, uint256 forfeitedRewards, uint256 fee);
+
     /**
      * @dev Emitted when owner withdrew unused rewards.
      * @param stakingPoolId Id of the Staking Pool for which rewards were withdrawn.
@@ -205,6 +313,59 @@ contract StakingPoolsFixedApr is Ownable {
      */
     event Withdrawn(uint256 indexed stakingPoolId, uint256 amount);
 
+    /**
+     * @dev Emitted when owner added rewards to the existing Staking Pool.
+     * @param stakingPoolId Id of the Staking Pool.
+     * @param amount Amount of added rewards.
+     */
+    event RewardsToppedUp(uint256 indexed stakingPoolId, uint256 amount);
+
+    /**
+     * @dev Emitted when owner extended end time of the pending Staking Pool.
+     * @param stakingPoolId Id of the Staking Pool.
+     * @param endTime New Pool end time.
+     */
+    event StakingPoolExtended(uint256 indexed stakingPoolId, uint64 endTime);
+
+    /**
+     * @dev Emitted when staking and adding new Pools were paused.
+     * @param account Address which paused the contract.
+     */
+    event Paused(address account);
+
+    /**
+     * @dev Emitted when staking and adding new Pools were unpaused.
+     * @param account Address which unpaused the contract.
+     */
+    event Unpaused(address account);
+
+    /**
+     * @dev Emitted when the emergency mode was enabled.
+     * @param account Address which enabled the emergency mode.
+     */
+    event EmergencyModeEnabled(address account);
+
+    /**
+     * @dev Emitted when user withdrew staked tokens in the emergency mode (together with {Unstaked}).
+     * @param user Address which performed emergency withdraw.
+     * @param stakeId Id of the withdrawn Stake.
+     * @param forfeitedRewards Rewards returned to the Pool unused rewards.
+     */
+    event EmergencyWithdrawn(address indexed user, uint256 indexed stakeId, uint256 forfeitedRewards);
+
+    /**
+     * @dev Emitted when owner granted or revoked the pool operator role.
+     * @param account Address of the pool operator.
+     * @param isPoolOperator True when the role was granted, false when revoked.
+     */
+    event PoolOperatorUpdated(address indexed account, bool isPoolOperator);
+
+    /**
+     * @dev Emitted when owner changed the treasury.
+     * @param treasury New treasury, zero address = current owner.
+     */
+    event TreasuryUpdated(address indexed treasury);
+
     // -----------------------------------------------------------------------
     //                                Modifiers
     // -----------------------------------------------------------------------
@@ -218,6 +379,18 @@ contract StakingPoolsFixedApr is Ownable {
         _;
     }
 
+    /// @dev This modifier allows to validate if the sender is the owner or the pool operator.
+    modifier onlyPoolOperator() {
+        if (msg.sender != owner && !poolOperators[msg.sender]) revert StakingPoolFixedApr_NotPoolOperator();
+        _;
+    }
+
+    /// @dev This modifier allows to validate if staking and adding new Pools aren't paused.
+    modifier whenNotPaused() {
+        if (paused) revert StakingPoolFixedApr_Paused();
+        _;
+    }
+
     // -----------------------------------------------------------------------
     //                            External Functions
     // -----------------------------------------------------------------------
@@ -226,10 +399,12 @@ contract StakingPoolsFixedApr is Ownable {
      * @dev This function allows to add new Staking Pool in the contract.
      *
      * @dev Validations :
-     * - Only contract owner can perform this function.
+     * - Only contract owner or pool operator can perform this function.
+     * - Contract cannot be paused.
      * - Amount of rewards to add cannot be zero.
      * - Start time must be in the future.
      * - Start time cannot be greater or equal end time.
+     * - Early unstake fee cannot be greater than 100%.
      * - Amount of given 'rewardsAmount' must be transferred correctly.
      *
      * @dev Parameters :
@@ -239,6 +414,7 @@ contract StakingPoolsFixedApr is Ownable {
      * @param startTime_ Pool start time.
      * @param endTime_ Pool end time.
      * @param apr_ APR - 100 = 1%.
+     * @param earlyUnstake Early unstake configuration (mode and principal fee).
      *
      * @dev Events :
      * - {StakingPoolAdded}
@@ -249,32 +425,113 @@ contract StakingPoolsFixedApr is Ownable {
         IERC20 token_,
         uint64 startTime_,
         uint64 endTime_,
-        uint16 apr_
-    ) external onlyOwner {
-        uint256 stakingPoolId = ++lastStakingPoolId;
+        uint16 apr_,
+        EarlyUnstakeConfig calldata earlyUnstake
+    ) external onlyPoolOperator whenNotPaused {
+        _addStakingPool(rewardsAmount, minimumToStake_, token_, startTime_, endTime_, apr_, earlyUnstake);
+    }
 
-        _validateStakingPoolData(rewardsAmount, startTime_, endTime_);
+    /**
+     * @dev This function allows to add many Staking Pools in one transaction. Whole batch reverts when any Pool
+     *      is invalid.
+     *
+     * @dev Validations :
+     * - Only contract owner or pool operator can perform this function.
+     * - Contract cannot be paused.
+     * - Given batch cannot be empty.
+     * - Same validations as in 'addStakingPool' function for every Pool.
+     *
+     * @dev Parameters :
+     * @param configs Configurations of the added Pools.
+     *
+     * @dev Events :
+     * - {StakingPoolAdded} (for every Pool)
+     */
+    function addStakingPools(StakingPoolConfig[] calldata configs) external onlyPoolOperator whenNotPaused {
+        if (configs.length == 0) revert StakingPoolFixedApr_EmptyBatch();
+
+        for (uint256 i = 0; i < configs.length; i++) {
+            StakingPoolConfig calldata config = configs[i];
+
+            _addStakingPool(
+                config.rewardsAmount,
+                config.minimumToStake,
+                config.token,
+                config.startTime,
+                config.endTime,
+                config.apr,
+                config.earlyUnstake
+            );
+        }
+    }
 
+    /**
+     * @dev This function allows to add rewards to the existing Staking Pool, e.g. when it ran out of rewards.
+     *
+     * @dev Validations :
+     * - Only contract owner can perform this function.
+     * - Given Pool must exists.
+     * - Amount of rewards to add cannot be zero.
+     * - Pool cannot be closed.
+     * - Amount of given 'rewardsAmount' must be transferred correctly.
+     *
+     * @dev Parameters :
+     * @param stakingPoolId Id of the Staking Pool.
+     * @param rewardsAmount Amount of rewards to add.
+     *
+     * @dev Events :
+     * - {RewardsToppedUp}
+     */
+    function topUpRewards(uint256 stakingPoolId, uint256 rewardsAmount)
+        external
+        onlyOwner
+        isStakingPoolExists(stakingPoolId)
+    {
         StakingPool storage stakingPool = stakingPools[stakingPoolId];
-        stakingPool.rewardsAdded = rewardsAmount;
-        stakingPool.minimumToStake = minimumToStake_;
-        stakingPool.token = token_;
-        stakingPool.startTime = startTime_;
-        stakingPool.endTime = endTime_;
-        stakingPool.apr = apr_;
 
-        if (rewardsAmount != token_.safeTransferFrom(msg.sender, address(this), rewardsAmount))
+        if (rewardsAmount == 0) revert StakingPoolFixedApr_ZeroRewardsAmount();
+
+        if (stakingPool.endTime <= block.timestamp) revert StakingPoolFixedApr_PoolClosed();
+
+        stakingPool.rewardsAdded += rewardsAmount;
+
+        if (rewardsAmount != stakingPool.token.safeTransferFrom(msg.sender, address(this), rewardsAmount))
             revert StakingPoolFixedApr_IncorrectAmountTransferred();
 
-        emit StakingPoolAdded(
-            stakingPoolId,
-            rewardsAmount,
-            minimumToStake_,
-            address(token_),
-            startTime_,
-            endTime_,
-            apr_
-        );
+        emit RewardsToppedUp(stakingPoolId, rewardsAmount);
+    }
+
+    /**
+     * @dev This function allows to extend end time of the Staking Pool which hasn't started yet. Stakes made
+     *      before the extension keep their rewards and 'unstakePossibleAt'.
+     *
+     * @dev Validations :
+     * - Only contract owner can perform this function.
+     * - Given Pool must exists.
+     * - Pool cannot be started.
+     * - New end time must be later than the current end time.
+     *
+     * @dev Parameters :
+     * @param stakingPoolId Id of the Staking Pool.
+     * @param endTime_ New Pool end time.
+     *
+     * @dev Events :
+     * - {StakingPoolExtended}
+     */
+    function extendStakingPool(uint256 stakingPoolId, uint64 endTime_)
+        external
+        onlyOwner
+        isStakingPoolExists(stakingPoolId)
+    {
+        StakingPool storage stakingPool = stakingPools[stakingPoolId];
+
+        if (stakingPool.startTime <= block.timestamp) revert StakingPoolFixedApr_PoolAlreadyStarted();
+
+        if (endTime_ <= stakingPool.endTime) revert StakingPoolFixedApr_EndTimeMustBeLaterThanCurrent();
+
+        stakingPool.endTime = endTime_;
+
+        emit StakingPoolExtended(stakingPoolId, endTime_);
     }
 
     /**
@@ -283,6 +540,7 @@ contract StakingPoolsFixedApr is Ownable {
      *      time will be equal current block timestamp).
      *
      * @dev Validations :
+     * - Contract cannot be paused.
      * - Pool to which user wants to join must exists.
      * - Pool cannot be closed.
      * - Amount of tokens which user wants to add must be greater than minimum possible amount defined in the Pool.
@@ -297,52 +555,117 @@ contract StakingPoolsFixedApr is Ownable {
      * @dev Events :
      * - {Staked}
      */
-    function stake(uint256 stakingPoolId, uint256 amount) external isStakingPoolExists(stakingPoolId) {
-        StakingPool memory stakingPool = stakingPools[stakingPoolId];
-
-        if (stakingPool.endTime <= block.timestamp) revert StakingPoolFixedApr_PoolClosed();
-
-        if (amount < stakingPool.minimumToStake) revert StakingPoolFixedApr_AmountIsBelowMinimumToStake();
+    function stake(uint256 stakingPoolId, uint256 amount) external whenNotPaused isStakingPoolExists(stakingPoolId) {
+        _stake(msg.sender, stakingPoolId, amount);
+    }
 
-        uint64 startTime = _calculateStartTime(uint64(block.timestamp), stakingPool.startTime);
+    /**
+     * @dev This function allows to stake tokens of the sender on behalf of the beneficiary, e.g. by custodians or
+     *      vesting contracts. Beneficiary becomes the owner of the Stake (only he can unstake or transfer it).
+     *
+     * @dev Validations :
+     * - Beneficiary cannot be zero address.
+     * - Same validations as in 'stake' function.
+     *
+     * @dev Parameters :
+     * @param beneficiary Address which will own the Stake.
+     * @param stakingPoolId Id of the Staking Pool to which beneficiary joins.
+     * @param amount Amount of tokens to stake (transferred from the sender).
+     *
+     * @dev Events :
+     * - {Staked}
+     */
+    function stakeFor(
+        address beneficiary,
+        uint256 stakingPoolId,
+        uint256 amount
+    ) external whenNotPaused isStakingPoolExists(stakingPoolId) {
+        if (beneficiary == address(0)) revert StakingPoolFixedApr_ZeroAddress();
 
-        uint256 calculatedRewards = _calculateRewards(amount, startTime, stakingPool.endTime, stakingPool.apr);
+        _stake(beneficiary, stakingPoolId, amount);
+    }
 
-        if (calculatedRewards == 0) revert StakingPoolFixedApr_ZeroCalculatedRewards();
+    /**
+     * @dev This function allows to stake tokens with the EIP-2612 permit signed by the sender instead of the
+     *      separate 'approve' transaction. Failed permit (e.g. already used by someone who front-ran the
+     *      transaction) is ignored as long as the allowance is enough.
+     *
+     * @dev Validations :
+     * - Permit must succeed or the allowance of the sender must cover given amount.
+     * - Same validations as in 'stake' function.
+     *
+     * @dev Parameters :
+     * @param stakingPoolId Id of the Staking Pool to which user joins.
+     * @param amount Amount of tokens to stake (also the permitted value).
+     * @param deadline Timestamp until which the permit is valid.
+     * @param v Recovery byte of the permit signature.
+     * @param r First 32 bytes of the permit signature.
+     * @param s Second 32 bytes of the permit signature.
+     *
+     * @dev Events :
+     * - {Staked}
+     */
+    function stakeWithPermit(
+        uint256 stakingPoolId,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external whenNotPaused isStakingPoolExists(stakingPoolId) {
+        IERC20 token = stakingPools[stakingPoolId].token;
+
+        if (!_tryPermit(token, amount, deadline, v, r, s) && token.allowance(msg.sender, address(this)) < amount)
+            revert StakingPoolFixedApr_PermitFailed();
+
+        _stake(msg.sender, stakingPoolId, amount);
+    }
 
-        if (stakingPool.rewardsAdded - rewardsDistributed[stakingPoolId] < calculatedRewards)
-            revert StakingPoolFixedApr_NotEnoughTokensForReward();
+    /**
+     * @dev This function allows owner of the Stake to transfer it (with staked tokens and rewards) to another
+     *      address.
+     *
+     * @dev Validations :
+     * - Stake for the given 'stakeId' must exists (sender must be the owner of the Stake).
+     * - New owner cannot be zero address.
+     *
+     * @dev Parameters :
+     * @param stakeId Id of the Stake to transfer.
+     * @param to New owner of the Stake.
+     *
+     * @dev Events :
+     * - {StakeTransferred}
+     */
+    function transferStake(uint256 stakeId, address to) external {
+        Stake storage userStake = stakes[stakeId];
 
-        uint256 stakeId = ++lastStakeId;
+        if (userStake.owner != msg.sender) revert StakingPoolFixedApr_StakeNotExists();
 
-        Stake storage userStake = stakes[stakeId];
-        userStake.stakingPoolId = stakingPoolId;
-        userStake.staked = amount;
-        userStake.rewards = calculatedRewards;
-        userStake.owner = msg.sender;
-        userStake.unstakePossibleAt = stakingPool.endTime;
+        if (to == address(0)) revert StakingPoolFixedApr_ZeroAddress();
 
-        userStakeIds[msg.sender].push(stakeId);
+        userStake.owner = to;
 
-        rewardsDistributed[stakingPoolId] += calculatedRewards;
+        _deleteFromStakeIds(msg.sender, stakeId);
 
-        if (amount != stakingPool.token.safeTransferFrom(msg.sender, address(this), amount))
-            revert StakingPoolFixedApr_IncorrectAmountTransferred();
+        userStakeIds[to].push(stakeId);
 
-        emit Staked(msg.sender, stakeId, stakingPoolId, amount, calculatedRewards, stakingPool.endTime);
+        emit StakeTransferred(stakeId, msg.sender, to);
     }
 
     /**
-     * @dev This function allows to unstake staked tokens with earned rewards.
+     * @dev This function allows to unstake staked tokens with earned rewards. Before 'unstakePossibleAt' user can
+     *      unstake only when the Pool allows early unstake - then forfeited rewards are returned to the Pool
+     *      available rewards and the principal fee is added to the Pool rewards.
      *
      * @dev Validations :
      * - Stake for the given 'stakeId' must exists (sender must be the owner of the Stake).
-     * - Stake must be possible to unstake ('unstakePossibleAt' verification).
+     * - Stake must be possible to unstake ('unstakePossibleAt' verification) or Pool must allow early unstake.
      *
      * @dev Parameters :
      * @param stakeId Id of the Stake to unstake.
      *
      * @dev Events :
+     * - {UnstakedEarly} (only before 'unstakePossibleAt')
      * - {Unstaked}
      */
     function unstake(uint256 stakeId) external {
@@ -350,12 +673,18 @@ contract StakingPoolsFixedApr is Ownable {
 
         if (userStake.owner != msg.sender) revert StakingPoolFixedApr_StakeNotExists();
 
-        if (userStake.unstakePossibleAt > block.timestamp) revert StakingPoolFixedApr_CannotUnstakeYet();
-
         uint256 toWithdraw = userStake.staked + userStake.rewards;
 
         uint256 stakingPoolId = userStake.stakingPoolId;
 
+        if (userStake.unstakePossibleAt > block.timestamp) {
+            (uint256 forfeitedRewards, uint256 fee) = _applyEarlyUnstakePenalty(userStake);
+
+            toWithdraw -= forfeitedRewards + fee;
+
+            emit UnstakedEarly(msg.sender, stakeId, forfeitedRewards, fee);
+        }
+
         delete stakes[stakeId];
 
         _deleteFromStakeIds(msg.sender, stakeId);
@@ -366,102 +695,357 @@ contract StakingPoolsFixedApr is Ownable {
     }
 
     /**
-     * @dev This function allows to withdraw unused tokens by the owner for the given Staking Pool.
+     * @dev This function allows to unstake many matured Stakes in one transaction. Tokens are paid out once
+     *      per token of the unstaked Stakes. Whole batch reverts when any Stake can't be unstaked.
      *
      * @dev Validations :
-     * - Only contract owner can perform this function.
-     * - Given Pool must exists.
-     * - Cannot withdraw unused rewards until Pool is open.
-     * - Pool must have any tokens to withdraw.
+     * - Given batch cannot be empty.
+     * - Stake for every given id must exists (sender must be the owner of the Stake, so duplicated ids revert).
+     * - Every Stake must be possible to unstake ('unstakePossibleAt' verification), early unstake isn't allowed.
      *
      * @dev Parameters :
-     * @param stakingPoolId Id of the Staking Pool for which tokens should be withdrawn.
+     * @param stakeIds Ids of the Stakes to unstake.
      *
      * @dev Events :
-     * - {Withdrawn}
+     * - {Unstaked} (for every Stake)
      */
-    function withdrawUnusedRewards(uint256 stakingPoolId) external onlyOwner isStakingPoolExists(stakingPoolId) {
-        StakingPool memory stakingPool = stakingPools[stakingPoolId];
+    function unstakeBatch(uint256[] calldata stakeIds) external {
+        if (stakeIds.length == 0) revert StakingPoolFixedApr_EmptyBatch();
 
-        if (stakingPool.endTime >= block.timestamp) revert StakingPoolFixedApr_CannotBeforeEndTime();
+        IERC20[] memory tokens = new IERC20[](stakeIds.length);
+        uint256[] memory payouts = new uint256[](stakeIds.length);
+        uint256 tokensCount;
 
-        uint256 amountToWithdraw = stakingPool.rewardsAdded - rewardsDistributed[stakingPoolId];
+        for (uint256 i = 0; i < stakeIds.length; i++) {
+            uint256 stakeId = stakeIds[i];
+            Stake memory userStake = stakes[stakeId];
 
-        if (amountToWithdraw == 0) revert StakingPoolFixedApr_NothingToWithdraw();
+            if (userStake.owner != msg.sender) revert StakingPoolFixedApr_StakeNotExists();
 
-        rewardsDistributed[stakingPoolId] += amountToWithdraw;
+            if (userStake.unstakePossibleAt > block.timestamp) revert StakingPoolFixedApr_CannotUnstakeYet();
 
-        stakingPool.token.safeTransfer(owner, amountToWithdraw);
+            tokensCount = _addPayout(
+                tokens,
+                payouts,
+                tokensCount,
+                stakingPools[userStake.stakingPoolId].token,
+                userStake.staked + userStake.rewards
+            );
 
-        emit Withdrawn(stakingPoolId, amountToWithdraw);
+            delete stakes[stakeId];
+
+            _deleteFromStakeIds(msg.sender, stakeId);
+
+            emit Unstaked(msg.sender, stakeId);
+        }
+
+        for (uint256 i = 0; i < tokensCount; i++) {
+            tokens[i].safeTransfer(msg.sender, payouts[i]);
+        }
     }
 
     /**
-     * @dev View function which allows to calculate rewards for the given Pool and amount of tokens.
+     * @dev This function allows to withdraw staked tokens of the Stake in the emergency mode, also before
+     *      'unstakePossibleAt' and without the early unstake fee. All rewards of the Stake are forfeited and
+     *      returned to the Pool unused rewards.
      *
      * @dev Validations :
-     * - Pool for the given 'stakingPoolId' must exists.
+     * - Emergency mode must be enabled.
+     * - Stake for the given 'stakeId' must exists (sender must be the owner of the Stake).
      *
      * @dev Parameters :
-     * @param stakingPoolId Id of the Staking Pool for which calculation should be performed.
-     * @param amount Amount of tokens to use in calculation.
+     * @param stakeId Id of the Stake to withdraw.
      *
-     * @return uint256 Calculated rewards.
+     * @dev Events :
+     * - {EmergencyWithdrawn}
+     * - {Unstaked}
      */
-    function calculateRewards(uint256 stakingPoolId, uint256 amount)
-        external
-        view
-        isStakingPoolExists(stakingPoolId)
-        returns (uint256)
-    {
-        StakingPool memory stakingPool = stakingPools[stakingPoolId];
+    function emergencyWithdraw(uint256 stakeId) external {
+        if (!emergencyMode) revert StakingPoolFixedApr_EmergencyModeNotEnabled();
 
-        uint64 startTime = _calculateStartTime(uint64(block.timestamp), stakingPool.startTime);
+        Stake memory userStake = stakes[stakeId];
 
-        return _calculateRewards(amount, startTime, stakingPool.endTime, stakingPool.apr);
+        if (userStake.owner != msg.sender) revert StakingPoolFixedApr_StakeNotExists();
+
+        uint256 stakingPoolId = userStake.stakingPoolId;
+
+        rewardsDistributed[stakingPoolId] -= userStake.rewards;
+
+        delete stakes[stakeId];
+
+        _deleteFromStakeIds(msg.sender, stakeId);
+
+        stakingPools[stakingPoolId].token.safeTransfer(msg.sender, userStake.staked);
+
+        emit EmergencyWithdrawn(msg.sender, stakeId, userStake.rewards);
+        emit Unstaked(msg.sender, stakeId);
     }
 
     /**
-     * @dev View function which allows to fetch all Stake ids for the given user.
+     * @dev This function allows to pause staking and adding new Pools. Unstake, top up and withdraw of unused
+     *      rewards are still possible.
      *
-     * @dev Parameters :
-     * @param user Address for which ids should be returned.
+     * @dev Validations :
+     * - Only contract owner can perform this function.
+     * - Contract cannot be paused.
      *
-     * @return uint256[] Array of Stake ids.
+     * @dev Events :
+     * - {Paused}
      */
-    function getAllUserStakeIds(address user) external view returns (uint256[] memory) {
-        return userStakeIds[user];
+    function pause() external onlyOwner whenNotPaused {
+        paused = true;
+
+        emit Paused(msg.sender);
     }
 
     /**
-     * @dev View function which allows to fetch all user Stakes.
+     * @dev This function allows to unpause staking and adding new Pools.
      *
-     * @dev Parameters :
-     * @param user Address for which Stakes should be returned.
+     * @dev Validations :
+     * - Only contract owner can perform this function.
+     * - Contract must be paused.
+     * - Emergency mode cannot be enabled.
      *
-     * @return userStakes Array of StakeDTOs.
+     * @dev Events :
+     * - {Unpaused}
+     */
+    function unpause() external onlyOwner {
+        if (!paused) revert StakingPoolFixedApr_NotPaused();
+
+        if (emergencyMode) revert StakingPoolFixedApr_EmergencyModeEnabled();
+
+        paused = false;
+
+        emit Unpaused(msg.sender);
+    }
+
+    /**
+     * @dev This function allows to enable the emergency mode, e.g. when the token of any Pool is compromised.
+     *      Emergency mode pauses the contract (if not paused yet) and cannot be disabled, users can withdraw
+     *      staked tokens with 'emergencyWithdraw' and the owner can withdraw unused rewards before the Pool end.
+     *
+     * @dev Validations :
+     * - Only contract owner can perform this function.
+     * - Emergency mode cannot be enabled.
+     *
+     * @dev Events :
+     * - {Paused} (only when the contract wasn't paused)
+     * - {EmergencyModeEnabled}
+     */
+    function enableEmergencyMode() external onlyOwner {
+        if (emergencyMode) revert StakingPoolFixedApr_EmergencyModeEnabled();
+
+        emergencyMode = true;
+
+        if (!paused) {
+            paused = true;
+
+            emit Paused(msg.sender);
+        }
+
+        emit EmergencyModeEnabled(msg.sender);
+    }
+
+    /**
+     * @dev This function allows to grant or revoke the pool operator role, which allows to add Pools.
+     *
+     * @dev Validations :
+     * - Only contract owner can perform this function.
+     * - Account cannot be zero address.
+     *
+     * @dev Parameters :
+     * @param account Address of the pool operator.
+     * @param isPoolOperator True to grant the role, false to revoke it.
+     *
+     * @dev Events :
+     * - {PoolOperatorUpdated}
+     */
+    function setPoolOperator(address account, bool isPoolOperator) external onlyOwner {
+        if (account == address(0)) revert StakingPoolFixedApr_ZeroAddress();
+
+        poolOperators[account] = isPoolOperator;
+
+        emit PoolOperatorUpdated(account, isPoolOperator);
+    }
+
+    /**
+     * @dev This function allows to set the treasury which receives unused rewards.
+     *
+     * @dev Validations :
+     * - Only contract owner can perform this function.
+     *
+     * @dev Parameters :
+     * @param treasury_ New treasury, zero address = current owner.
+     *
+     * @dev Events :
+     * - {TreasuryUpdated}
+     */
+    function setTreasury(address treasury_) external onlyOwner {
+        treasury = treasury_;
+
+        emit TreasuryUpdated(treasury_);
+    }
+
+    /**
+     * @dev This function allows to withdraw unused tokens by the owner to the treasury for the given Staking Pool.
+     *
+     * @dev Validations :
+     * - Only contract owner can perform this function.
+     * - Given Pool must exists.
+     * - Cannot withdraw unused rewards before Pool end time (unless emergency mode is enabled).
+     * - Pool must have any tokens to withdraw.
+     *
+     * @dev Parameters :
+     * @param stakingPoolId Id of the Staking Pool for which tokens should be withdrawn.
+     *
+     * @dev Events :
+     * - {Withdrawn}
+     */
+    function withdrawUnusedRewards(uint256 stakingPoolId) external onlyOwner isStakingPoolExists(stakingPoolId) {
+        StakingPool memory stakingPool = stakingPools[stakingPoolId];
+
+        if (!emergencyMode && stakingPool.endTime > block.timestamp) revert StakingPoolFixedApr_CannotBeforeEndTime();
+
+        uint256 amountToWithdraw = stakingPool.rewardsAdded - rewardsDistributed[stakingPoolId];
+
+        if (amountToWithdraw == 0) revert StakingPoolFixedApr_NothingToWithdraw();
+
+        rewardsDistributed[stakingPoolId] += amountToWithdraw;
+
+        stakingPool.token.safeTransfer(_getTreasury(), amountToWithdraw);
+
+        emit Withdrawn(stakingPoolId, amountToWithdraw);
+    }
+
+    /**
+     * @dev View function which allows to calculate rewards for the given Pool and amount of tokens.
+     *
+     * @dev Validations :
+     * - Pool for the given 'stakingPoolId' must exists.
+     *
+     * @dev Parameters :
+     * @param stakingPoolId Id of the Staking Pool for which calculation should be performed.
+     * @param amount Amount of tokens to use in calculation.
+     *
+     * @return uint256 Calculated rewards.
+     */
+    function calculateRewards(uint256 stakingPoolId, uint256 amount)
+        external
+        view
+        isStakingPoolExists(stakingPoolId)
+        returns (uint256)
+    {
+        StakingPool memory stakingPool = stakingPools[stakingPoolId];
+
+        uint64 startTime = _calculateStartTime(uint64(block.timestamp), stakingPool.startTime);
+
+        return _calculateRewards(amount, startTime, stakingPool.endTime, stakingPool.apr);
+    }
+
+    /**
+     * @dev View function which allows to calculate the early unstake penalty for the given Stake at the current
+     *      block timestamp.
+     *
+     * @dev Validations :
+     * - Stake for the given 'stakeId' must exists.
+     * - Stake must be before 'unstakePossibleAt' and its Pool must allow early unstake.
+     *
+     * @dev Parameters :
+     * @param stakeId Id of the Stake to use in calculation.
+     *
+     * @return forfeitedRewards Rewards which would be returned to the Pool.
+     * @return fee Fee from the staked tokens.
+     */
+    function calculateEarlyUnstakePenalty(uint256 stakeId)
+        external
+        view
+        returns (uint256 forfeitedRewards, uint256 fee)
+    {
+        Stake memory userStake = stakes[stakeId];
+
+        if (userStake.owner == address(0)) revert StakingPoolFixedApr_StakeNotExists();
+
+        if (userStake.unstakePossibleAt <= block.timestamp) return (0, 0);
+
+        StakingPool memory stakingPool = stakingPools[userStake.stakingPoolId];
+
+        return _calculateEarlyUnstakePenalty(userStake, stakingPool.earlyUnstakeMode, stakingPool.earlyUnstakeFee);
+    }
+
+    /**
+     * @dev View function which allows to fetch all Stake ids for the given user.
+     *
+     * @dev Parameters :
+     * @param user Address for which ids should be returned.
+     *
+     * @return uint256[] Array of Stake ids.
+     */
+    function getAllUserStakeIds(address user) external view returns (uint256[] memory) {
+        return userStakeIds[user];
+    }
+
+    /**
+     * @dev View function which allows to fetch all user Stakes. Gas of the call grows with the number of Stakes,
+     *      use 'getUserStakes' for users with many Stakes.
+     *
+     * @dev Parameters :
+     * @param user Address for which Stakes should be returned.
+     *
+     * @return userStakes Array of StakeDTOs.
      */
     function getAllUserStakes(address user) external view returns (StakeDTO[] memory userStakes) {
         uint256 userStakeIdLength = userStakeIds[user].length;
         userStakes = new StakeDTO[](userStakeIdLength);
 
         for (uint256 i = 0; i < userStakeIdLength; i++) {
-            StakeDTO memory userStakeDto;
-
-            Stake memory userStake = stakes[userStakeIds[user][i]];
-
-            userStakeDto.id = userStakeIds[user][i];
-            userStakeDto.stakingPoolId = userStake.stakingPoolId;
-            userStakeDto.staked = userStake.staked;
-            userStakeDto.rewards = userStake.rewards;
-            userStakeDto.unstakePossibleAt = userStake.unstakePossibleAt;
+            userStakes[i] = _toStakeDto(userStakeIds[user][i]);
+        }
+    }
 
-            userStakes[i] = userStakeDto;
+    /**
+     * @dev View function which allows to fetch the page of user Stakes. Order of the Stakes changes on unstake
+     *      (the last Stake takes place of the unstaked one).
+     *
+     * @dev Validations :
+     * - Limit cannot be zero.
+     *
+     * @dev Parameters :
+     * @param user Address for which Stakes should be returned.
+     * @param offset Number of user Stakes to skip.
+     * @param limit Maximum number of Stakes to return.
+     *
+     * @return userStakes Array of StakeDTOs.
+     * @return nextOffset Offset of the next page, 0 when there are no more Stakes.
+     */
+    function getUserStakes(
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (StakeDTO[] memory userStakes, uint256 nextOffset) {
+        uint256 end;
+        (end, nextOffset) = _calculatePageEnd(offset, limit, userStakeIds[user].length);
+        userStakes = new StakeDTO[](end - offset);
+
+        for (uint256 i = offset; i < end; i++) {
+            userStakes[i - offset] = _toStakeDto(userStakeIds[user][i]);
         }
     }
 
     /**
-     * @dev View function which allows to fetch all Staking Pools.
+     * @dev View function which allows to fetch the number of user Stakes.
+     *
+     * @dev Parameters :
+     * @param user Address for which Stakes should be counted.
+     *
+     * @return uint256 Number of user Stakes.
+     */
+    function getUserStakesCount(address user) external view returns (uint256) {
+        return userStakeIds[user].length;
+    }
+
+    /**
+     * @dev View function which allows to fetch all Staking Pools. Gas of the call grows with the number of Pools,
+     *      use 'getStakingPools' when there are many Pools.
      *
      * @return stakingPoolDtos Array of StakingPoolDTOs.
      */
@@ -470,35 +1054,350 @@ contract StakingPoolsFixedApr is Ownable {
         stakingPoolDtos = new StakingPoolDTO[](stakingPoolsAmount);
 
         for (uint256 i = 1; i <= stakingPoolsAmount; i++) {
-            StakingPool memory stakingPool = stakingPools[i];
-
-            uint256 rewardsDistributed_ = rewardsDistributed[i];
-
-            StakingPoolDTO memory stakingPoolDto;
-            stakingPoolDto.id = i;
-            stakingPoolDto.rewardsAdded = stakingPool.rewardsAdded;
-            stakingPoolDto.rewardsDistributed = rewardsDistributed_;
-            stakingPoolDto.minimumToStake = stakingPool.minimumToStake;
-            stakingPoolDto.token = stakingPool.token;
-            stakingPoolDto.startTime = stakingPool.startTime;
-            stakingPoolDto.endTime = stakingPool.endTime;
-            stakingPoolDto.apr = stakingPool.apr;
-            stakingPoolDto.status = _calculatePoolStatus(
+            stakingPoolDtos[i - 1] = _toStakingPoolDto(i);
+        }
+    }
+
+    /**
+     * @dev View function which allows to fetch the page of Staking Pools matching the filter. Every call checks
+     *      at most 'limit' Pools, so the page can contain fewer Pools (or none) even when there are more pages.
+     *
+     * @dev Validations :
+     * - Limit cannot be zero.
+     *
+     * @dev Parameters :
+     * @param offset Number of Pools to skip (Pool id = offset + 1).
+     * @param limit Maximum number of Pools to check.
+     * @param filter Statuses and token of the returned Pools.
+     *
+     * @return stakingPoolDtos Array of StakingPoolDTOs.
+     * @return nextOffset Offset of the next page, 0 when there are no more Pools.
+     */
+    function getStakingPools(
+        uint256 offset,
+        uint256 limit,
+        StakingPoolsFilter calldata filter
+    ) external view returns (StakingPoolDTO[] memory stakingPoolDtos, uint256 nextOffset) {
+        uint256 end;
+        (end, nextOffset) = _calculatePageEnd(offset, limit, lastStakingPoolId);
+
+        StakingPoolDTO[] memory checkedDtos = new StakingPoolDTO[](end - offset);
+        uint256 matched;
+
+        for (uint256 i = offset; i < end; i++) {
+            StakingPoolDTO memory stakingPoolDto = _toStakingPoolDto(i + 1);
+
+            if (_isMatchingFilter(stakingPoolDto, filter)) checkedDtos[matched++] = stakingPoolDto;
+        }
+
+        stakingPoolDtos = new StakingPoolDTO[](matched);
+        for (uint256 i = 0; i < matched; i++) {
+            stakingPoolDtos[i] = checkedDtos[i];
+        }
+    }
+
+    /**
+     * @dev View function which allows to fetch the Staking Pool.
+     *
+     * @dev Validations :
+     * - Pool for the given 'stakingPoolId' must exists.
+     *
+     * @dev Parameters :
+     * @param stakingPoolId Id of the Staking Pool.
+     *
+     * @return StakingPoolDTO Staking Pool data.
+     */
+    function getStakingPool(uint256 stakingPoolId)
+        external
+        view
+        isStakingPoolExists(stakingPoolId)
+        returns (StakingPoolDTO memory)
+    {
+        return _toStakingPoolDto(stakingPoolId);
+    }
+
+    /**
+     * @dev View function which allows to fetch the Staking Pool status at the given time with the current rewards
+     *      (e.g. to check when the Pool will end).
+     *
+     * @dev Validations :
+     * - Pool for the given 'stakingPoolId' must exists.
+     *
+     * @dev Parameters :
+     * @param stakingPoolId Id of the Staking Pool.
+     * @param timestamp Time for which the status should be calculated.
+     *
+     * @return PoolStatus Pool status at the given time.
+     */
+    function getStakingPoolStatus(uint256 stakingPoolId, uint256 timestamp)
+        external
+        view
+        isStakingPoolExists(stakingPoolId)
+        returns (PoolStatus)
+    {
+        StakingPool memory stakingPool = stakingPools[stakingPoolId];
+
+        return
+            _calculatePoolStatus(
                 stakingPool.rewardsAdded,
-                rewardsDistributed_,
-                block.timestamp,
+                rewardsDistributed[stakingPoolId],
+                timestamp,
                 stakingPool.startTime,
                 stakingPool.endTime
             );
+    }
 
-            stakingPoolDtos[i - 1] = stakingPoolDto;
-        }
+    /**
+     * @dev View function which allows to fetch the address which receives unused rewards.
+     *
+     * @return address Treasury or the owner when the treasury isn't set.
+     */
+    function getTreasury() external view returns (address) {
+        return _getTreasury();
+    }
+
+    /**
+     * @dev View function which allows to fetch the number of Staking Pools.
+     *
+     * @return uint256 Number of Staking Pools.
+     */
+    function getStakingPoolsCount() external view returns (uint256) {
+        return lastStakingPoolId;
     }
 
     // -----------------------------------------------------------------------
     //                             Private Functions
     // -----------------------------------------------------------------------
 
+    /**
+     * @dev Allows to add new Staking Pool and transfer its rewards from the sender.
+     *
+     * @dev Parameters :
+     * @param rewardsAmount Amount of rewards to add for Staking Pool.
+     * @param minimumToStake_ Amount of tokens which is required to join to this Pool.
+     * @param token_ ERC-20 token address used in this Pool.
+     * @param startTime_ Pool start time.
+     * @param endTime_ Pool end time.
+     * @param apr_ APR - 100 = 1%.
+     * @param earlyUnstake Early unstake configuration (mode and principal fee).
+     */
+    function _addStakingPool(
+        uint256 rewardsAmount,
+        uint256 minimumToStake_,
+        IERC20 token_,
+        uint64 startTime_,
+        uint64 endTime_,
+        uint16 apr_,
+        EarlyUnstakeConfig calldata earlyUnstake
+    ) private {
+        uint256 stakingPoolId = ++lastStakingPoolId;
+
+        _validateStakingPoolData(rewardsAmount, startTime_, endTime_, earlyUnstake.principalFee);
+
+        StakingPool storage stakingPool = stakingPools[stakingPoolId];
+        stakingPool.rewardsAdded = rewardsAmount;
+        stakingPool.minimumToStake = minimumToStake_;
+        stakingPool.token = token_;
+        stakingPool.startTime = startTime_;
+        stakingPool.endTime = endTime_;
+        stakingPool.apr = apr_;
+        stakingPool.earlyUnstakeMode = earlyUnstake.mode;
+        stakingPool.earlyUnstakeFee = earlyUnstake.principalFee;
+
+        if (rewardsAmount != token_.safeTransferFrom(msg.sender, address(this), rewardsAmount))
+            revert StakingPoolFixedApr_IncorrectAmountTransferred();
+
+        emit StakingPoolAdded(
+            stakingPoolId,
+            rewardsAmount,
+            minimumToStake_,
+            address(token_),
+            startTime_,
+            endTime_,
+            apr_,
+            earlyUnstake
+        );
+    }
+
+    /**
+     * @dev Allows to create the Stake owned by the beneficiary from tokens of the sender.
+     *
+     * @dev Parameters :
+     * @param beneficiary Address which will own the Stake.
+     * @param stakingPoolId Id of the Staking Pool.
+     * @param amount Amount of tokens to stake.
+     */
+    function _stake(
+        address beneficiary,
+        uint256 stakingPoolId,
+        uint256 amount
+    ) private {
+        StakingPool memory stakingPool = stakingPools[stakingPoolId];
+
+        if (stakingPool.endTime <= block.timestamp) revert StakingPoolFixedApr_PoolClosed();
+
+        if (amount < stakingPool.minimumToStake) revert StakingPoolFixedApr_AmountIsBelowMinimumToStake();
+
+        uint64 startTime = _calculateStartTime(uint64(block.timestamp), stakingPool.startTime);
+
+        uint256 calculatedRewards = _calculateRewards(amount, startTime, stakingPool.endTime, stakingPool.apr);
+
+        if (calculatedRewards == 0) revert StakingPoolFixedApr_ZeroCalculatedRewards();
+
+        if (stakingPool.rewardsAdded - rewardsDistributed[stakingPoolId] < calculatedRewards)
+            revert StakingPoolFixedApr_NotEnoughTokensForReward();
+
+        uint256 stakeId = ++lastStakeId;
+
+        Stake storage userStake = stakes[stakeId];
+        userStake.stakingPoolId = stakingPoolId;
+        userStake.staked = amount;
+        userStake.rewards = calculatedRewards;
+        userStake.owner = beneficiary;
+        userStake.unstakePossibleAt = stakingPool.endTime;
+        userStake.startTime = startTime;
+
+        userStakeIds[beneficiary].push(stakeId);
+
+        rewardsDistributed[stakingPoolId] += calculatedRewards;
+
+        if (amount != stakingPool.token.safeTransferFrom(msg.sender, address(this), amount))
+            revert StakingPoolFixedApr_IncorrectAmountTransferred();
+
+        emit Staked(beneficiary, stakeId, stakingPoolId, amount, calculatedRewards, stakingPool.endTime);
+    }
+
+    /**
+     * @dev Allows to get the address which receives unused rewards.
+     *
+     * @return address Treasury or the owner when the treasury isn't set.
+     */
+    function _getTreasury() private view returns (address) {
+        return treasury == address(0) ? owner : treasury;
+    }
+
+    /**
+     * @dev Allows to build StakeDTO for the given Stake.
+     *
+     * @dev Parameters :
+     * @param stakeId Id of the Stake.
+     *
+     * @return userStakeDto Stake data.
+     */
+    function _toStakeDto(uint256 stakeId) private view returns (StakeDTO memory userStakeDto) {
+        Stake memory userStake = stakes[stakeId];
+
+        userStakeDto.id = stakeId;
+        userStakeDto.stakingPoolId = userStake.stakingPoolId;
+        userStakeDto.staked = userStake.staked;
+        userStakeDto.rewards = userStake.rewards;
+        userStakeDto.unstakePossibleAt = userStake.unstakePossibleAt;
+        userStakeDto.startTime = userStake.startTime;
+    }
+
+    /**
+     * @dev Allows to build StakingPoolDTO with the current status for the given Staking Pool.
+     *
+     * @dev Parameters :
+     * @param stakingPoolId Id of the Staking Pool.
+     *
+     * @return stakingPoolDto Staking Pool data.
+     */
+    function _toStakingPoolDto(uint256 stakingPoolId) private view returns (StakingPoolDTO memory stakingPoolDto) {
+        StakingPool memory stakingPool = stakingPools[stakingPoolId];
+
+        uint256 rewardsDistributed_ = rewardsDistributed[stakingPoolId];
+
+        stakingPoolDto.id = stakingPoolId;
+        stakingPoolDto.rewardsAdded = stakingPool.rewardsAdded;
+        stakingPoolDto.rewardsDistributed = rewardsDistributed_;
+        stakingPoolDto.minimumToStake = stakingPool.minimumToStake;
+        stakingPoolDto.token = stakingPool.token;
+        stakingPoolDto.startTime = stakingPool.startTime;
+        stakingPoolDto.endTime = stakingPool.endTime;
+        stakingPoolDto.apr = stakingPool.apr;
+        stakingPoolDto.earlyUnstakeMode = stakingPool.earlyUnstakeMode;
+        stakingPoolDto.earlyUnstakeFee = stakingPool.earlyUnstakeFee;
+        stakingPoolDto.status = _calculatePoolStatus(
+            stakingPool.rewardsAdded,
+            rewardsDistributed_,
+            block.timestamp,
+            stakingPool.startTime,
+            stakingPool.endTime
+        );
+    }
+
+    /**
+     * @dev Checks if the Staking Pool matches the filter.
+     *
+     * @dev Parameters :
+     * @param stakingPoolDto Staking Pool data.
+     * @param filter Statuses and token of the Pools.
+     *
+     * @return bool True if the Pool matches the filter.
+     */
+    function _isMatchingFilter(StakingPoolDTO memory stakingPoolDto, StakingPoolsFilter calldata filter)
+        private
+        pure
+        returns (bool)
+    {
+        if (filter.statuses != 0 && filter.statuses & (1 << uint8(stakingPoolDto.status)) == 0) return false;
+
+        return address(filter.token) == address(0) || filter.token == stakingPoolDto.token;
+    }
+
+    /**
+     * @dev Allows to call the permit of the sender for this contract without reverting when it fails.
+     *
+     * @dev Parameters :
+     * @param token Token on which the permit is called.
+     * @param amount Permitted amount of tokens.
+     * @param deadline Timestamp until which the permit is valid.
+     * @param v Recovery byte of the permit signature.
+     * @param r First 32 bytes of the permit signature.
+     * @param s Second 32 bytes of the permit signature.
+     *
+     * @return bool Whether the permit succeeded.
+     */
+    function _tryPermit(
+        IERC20 token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) private returns (bool) {
+        try IERC20Permit(address(token)).permit(msg.sender, address(this), amount, deadline, v, r, s) {
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * @dev Allows to calculate the end of the page.
+     *
+     * @dev Parameters :
+     * @param offset Number of items to skip.
+     * @param limit Maximum number of items on the page.
+     * @param total Number of all items.
+     *
+     * @return end Index after the last item of the page.
+     * @return nextOffset Offset of the next page, 0 when the page is the last one.
+     */
+    function _calculatePageEnd(
+        uint256 offset,
+        uint256 limit,
+        uint256 total
+    ) private pure returns (uint256 end, uint256 nextOffset) {
+        // Page of zero items would return 'nextOffset' equal to 'offset', callers following it would loop forever.
+        if (limit == 0) revert StakingPoolFixedApr_ZeroLimit();
+        if (offset >= total) return (offset, 0);
+
+        end = total - offset > limit ? offset + limit : total;
+        nextOffset = end < total ? end : 0;
+    }
+
     /**
      * @dev Allows to delete ids from the user stake ids.
      *
@@ -522,6 +1421,38 @@ contract StakingPoolsFixedApr is Ownable {
         }
     }
 
+    /**
+     * @dev Allows to add the payout of the token to the payouts collected by 'unstakeBatch'.
+     *
+     * @dev Parameters :
+     * @param tokens Tokens of the collected payouts.
+     * @param payouts Collected payouts, same index as the token.
+     * @param tokensCount Number of the collected tokens.
+     * @param token Token of the added payout.
+     * @param amount Amount of the added payout.
+     *
+     * @return Number of the collected tokens after adding the payout.
+     */
+    function _addPayout(
+        IERC20[] memory tokens,
+        uint256[] memory payouts,
+        uint256 tokensCount,
+        IERC20 token,
+        uint256 amount
+    ) private pure returns (uint256) {
+        for (uint256 i = 0; i < tokensCount; i++) {
+            if (address(tokens[i]) == address(token)) {
+                payouts[i] += amount;
+                return tokensCount;
+            }
+        }
+
+        tokens[tokensCount] = token;
+        payouts[tokensCount] = amount;
+
+        return tokensCount + 1;
+    }
+
     /**
      * @dev Validates data during adding new Staking Pool.
      *
@@ -529,17 +1460,80 @@ contract StakingPoolsFixedApr is Ownable {
      * @param rewardsAmount Amount of rewards added to the Pool.
      * @param startTime Pool start time.
      * @param endTime Pool end time.
+     * @param earlyUnstakeFee Fee from the staked tokens paid during early unstake - 100 = 1%.
      */
     function _validateStakingPoolData(
         uint256 rewardsAmount,
         uint64 startTime,
-        uint64 endTime
+        uint64 endTime,
+        uint16 earlyUnstakeFee
     ) private view {
         if (rewardsAmount == 0) revert StakingPoolFixedApr_ZeroRewardsAmount();
 
         if (startTime < block.timestamp) revert StakingPoolFixedApr_StartTimeMustBeInTheFuture();
 
         if (startTime >= endTime) revert StakingPoolFixedApr_StartTimeMustBeLaterThanEndTime();
+
+        if (earlyUnstakeFee > 10000) revert StakingPoolFixedApr_EarlyUnstakeFeeTooHigh();
+    }
+
+    /**
+     * @dev Calculates the early unstake penalty and returns forfeited rewards to the Pool available rewards
+     *      (by decreasing distributed rewards) and adds the fee to the Pool rewards.
+     *
+     * @dev Validations :
+     * - Pool must allow early unstake.
+     *
+     * @dev Parameters :
+     * @param userStake Stake which is unstaked early.
+     *
+     * @return forfeitedRewards Rewards returned to the Pool.
+     * @return fee Fee from the staked tokens.
+     */
+    function _applyEarlyUnstakePenalty(Stake memory userStake) private returns (uint256 forfeitedRewards, uint256 fee) {
+        StakingPool storage stakingPool = stakingPools[userStake.stakingPoolId];
+
+        (forfeitedRewards, fee) = _calculateEarlyUnstakePenalty(
+            userStake,
+            stakingPool.earlyUnstakeMode,
+            stakingPool.earlyUnstakeFee
+        );
+
+        rewardsDistributed[userStake.stakingPoolId] -= forfeitedRewards;
+        stakingPool.rewardsAdded += fee;
+    }
+
+    /**
+     * @dev Allows to calculate the early unstake penalty at the current block timestamp.
+     *
+     * @dev Validations :
+     * - Early unstake mode cannot be 'Disabled'.
+     *
+     * @dev Parameters :
+     * @param userStake Stake which is unstaked early.
+     * @param mode Pool early unstake mode.
+     * @param principalFee Fee from the staked tokens - 100 = 1%.
+     *
+     * @return forfeitedRewards Rewards forfeited by the user.
+     * @return fee Fee from the staked tokens.
+     */
+    function _calculateEarlyUnstakePenalty(
+        Stake memory userStake,
+        EarlyUnstakeMode mode,
+        uint16 principalFee
+    ) private view returns (uint256 forfeitedRewards, uint256 fee) {
+        if (mode == EarlyUnstakeMode.Disabled) revert StakingPoolFixedApr_CannotUnstakeYet();
+
+        forfeitedRewards = userStake.rewards;
+
+        if (mode == EarlyUnstakeMode.ProRata && block.timestamp > userStake.startTime) {
+            uint256 earnedRewards = (userStake.rewards * (block.timestamp - userStake.startTime)) /
+                (userStake.unstakePossibleAt - userStake.startTime);
+
+            forfeitedRewards -= earnedRewards;
+        }
+
+        fee = (userStake.staked * principalFee) / 10000;
     }
 
     /**
@@ -571,11 +1565,11 @@ contract StakingPoolsFixedApr is Ownable {
      * @dev Parameters :
      * @param rewardsAdded Rewards added to the Staking Pool.
      * @param rewardsDistributed_ Currently distributed rewards for the given Pool.
-     * @param currentTime Current block timestamp.
+     * @param currentTime Time for which the status is calculated (usually current block timestamp).
      * @param startTime Pool start time.
      * @param endTime Pool end time.
      *
-     * @return PoolStatus Current Pool status.
+     * @return PoolStatus Pool status at the given time.
      */
     function _calculatePoolStatus(
         uint256 rewardsAdded,
@@ -584,10 +1578,11 @@ contract StakingPoolsFixedApr is Ownable {
         uint64 startTime,
         uint64 endTime
     ) private pure returns (PoolStatus) {
-        if (startTime > currentTime) return PoolStatus.Pending;
-        else if (rewardsAdded == rewardsDistributed_) return PoolStatus.WithoutRewards;
-        else if (startTime <= currentTime && endTime > currentTime) return PoolStatus.Open;
-        else return PoolStatus.Closed;
+        if (endTime <= currentTime)
+            return rewardsAdded == rewardsDistributed_ ? PoolStatus.Finalized : PoolStatus.Ended;
+        else if (rewardsAdded == rewardsDistributed_) return PoolStatus.Full;
+        else if (startTime > currentTime) return PoolStatus.Pending;
+        else return PoolStatus.Open;
     }
 
     /**
@@ -23,6 +23,7 @@ contract Ownable {
     // -----------------------------------------------------------------------
 
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
 
     // -----------------------------------------------------------------------
     //                              Modifiers
@@ -61,6 +62,7 @@ contract Ownable {
             _transferOwnership(newOwner);
         } else {
             pendingOwner = newOwner;
+            emit OwnershipTransferStarted(owner, newOwner);
         }
     }
 
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.17;
+
+import "./ERC20Mock.sol";
+
+/// @dev Token with the blocklist (like USDC), blocked accounts cannot send nor receive tokens.
+contract ERC20BlocklistMock is ERC20Mock {
+    mapping(address => bool) public blocked;
+
+    constructor(uint256 supply) ERC20Mock(supply, 6) {}
+
+    function updateBlocked(address account, bool isBlocked) external {
+        blocked[account] = isBlocked;
+    }
+
+    function _transfer(
+        address from,
+        address to,
+        uint256 amount
+    ) internal virtual override {
+        require(!blocked[from] && !blocked[to], "ERC20: account is blocked");
+        super._transfer(from, to, amount);
+    }
+}
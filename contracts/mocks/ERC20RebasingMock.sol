@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.17;
+
+/// @dev Rebasing token (like stETH or AMPL), balances are shares multiplied by the index changed with 'rebase'.
+contract ERC20RebasingMock {
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+
+    uint256 private constant INDEX_PRECISION = 1e18;
+
+    mapping(address => uint256) public shares;
+
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    uint256 public totalShares;
+
+    uint256 public index = INDEX_PRECISION;
+
+    uint8 public constant decimals = 18;
+
+    constructor(uint256 supply) {
+        totalShares = supply;
+        shares[msg.sender] = supply;
+        emit Transfer(address(0), msg.sender, supply);
+    }
+
+    /// @dev Changes every balance by the given percentage in basis points (10000 = 100%, 11000 = +10%).
+    function rebase(uint256 basisPoints) external {
+        index = (index * basisPoints) / 10000;
+    }
+
+    function totalSupply() external view returns (uint256) {
+        return (totalShares * index) / INDEX_PRECISION;
+    }
+
+    function balanceOf(address account) external view returns (uint256) {
+        return (shares[account] * index) / INDEX_PRECISION;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        _transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    function approve(address spender, uint256 amount) external returns (bool) {
+        allowance[msg.sender][spender] = amount;
+        emit Approval(msg.sender, spender, amount);
+        return true;
+    }
+
+    function transferFrom(
+        address from,
+        address to,
+        uint256 amount
+    ) external returns (bool) {
+        require(allowance[from][msg.sender] >= amount, "ERC20: insufficient allowance");
+        allowance[from][msg.sender] -= amount;
+        _transfer(from, to, amount);
+        return true;
+    }
+
+    function _transfer(
+        address from,
+        address to,
+        uint256 amount
+    ) private {
+        uint256 sharesAmount = (amount * INDEX_PRECISION) / index;
+        require(shares[from] >= sharesAmount, "ERC20: transfer amount exceeds balance");
+        shares[from] -= sharesAmount;
+        shares[to] += sharesAmount;
+        emit Transfer(from, to, amount);
+    }
+}
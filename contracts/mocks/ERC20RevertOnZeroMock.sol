@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.17;
+
+import "./ERC20Mock.sol";
+
+/// @dev Token which reverts on zero amount transfers (like LEND).
+contract ERC20RevertOnZeroMock is ERC20Mock {
+    constructor(uint256 supply) ERC20Mock(supply, 18) {}
+
+    function _transfer(
+        address from,
+        address to,
+        uint256 amount
+    ) internal virtual override {
+        require(amount > 0, "ERC20: zero amount transfer");
+        super._transfer(from, to, amount);
+    }
+}
@@ -0,0 +1,39 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { chainName, displayResult, dim, cyan, green, getBigNumber, isTestEnvironment } from "../utilities/utils";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { getNamedAccounts, deployments, getChainId } = hre;
+  const { deploy, execute } = deployments;
+  const { deployer } = await getNamedAccounts();
+  const chainId = parseInt(await getChainId());
+
+  cyan("\n~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~");
+  cyan("          ERC20FeeMock - Deploy Script");
+  cyan("~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~\n");
+
+  dim(`network: ${chainName(chainId)} (local)`);
+  dim(`deployer: ${deployer}`);
+
+  cyan("\nDeploying ERC20FeeMock...");
+
+  const erc20FeeMockResult = await deploy("ERC20FeeMock", {
+    from: deployer,
+    args: [getBigNumber(1_000_000)],
+    skipIfAlreadyDeployed: true,
+  });
+
+  displayResult("ERC20FeeMock", erc20FeeMockResult);
+
+  if (erc20FeeMockResult.newlyDeployed) {
+    // Deployer holds the whole supply and hands it out (e.g. to the owner funding Staking Pools after the ownership
+    // handover), so its transfers shouldn't pay the transfer fee.
+    await execute("ERC20FeeMock", { from: deployer, log: true }, "updateExcludedFromFee", deployer, true);
+  }
+
+  green(`Done!`);
+};
+
+export default func;
+func.tags = ["ERC20FeeMock", "Mocks"];
+func.skip = async (hre: HardhatRuntimeEnvironment) => !isTestEnvironment(parseInt(await hre.getChainId()));
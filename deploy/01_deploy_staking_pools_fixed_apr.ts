@@ -1,6 +1,6 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
-import { chainName, displayResult, dim, cyan, green } from "./utilities/utils";
+import { chainName, displayResult, dim, cyan, green, isTestEnvironment } from "../utilities/utils";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { getNamedAccounts, deployments, getChainId } = hre;
@@ -8,29 +8,25 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await getNamedAccounts();
   const chainId = parseInt(await getChainId());
 
-  // 31337 is unit testing, 1337 is for coverage
-  const isTestEnvironment = chainId === 31337 || chainId === 1337;
-
   cyan("\n~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~");
-  cyan("       ExampleContract - Deploy Script");
+  cyan("     StakingPoolsFixedApr - Deploy Script");
   cyan("~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~\n");
 
-  dim(`network: ${chainName(chainId)} (${isTestEnvironment ? "local" : "remote"})`);
+  dim(`network: ${chainName(chainId)} (${isTestEnvironment(chainId) ? "local" : "remote"})`);
   dim(`deployer: ${deployer}`);
 
-  cyan("\nDeploying ExampleContract...");
+  cyan("\nDeploying StakingPoolsFixedApr...");
 
-  const exampleContractResult = await deploy("ExampleContract", {
+  const stakingPoolsFixedAprResult = await deploy("StakingPoolsFixedApr", {
     from: deployer,
     args: [],
     skipIfAlreadyDeployed: true,
   });
 
-  displayResult("ExampleContract", exampleContractResult);
+  displayResult("StakingPoolsFixedApr", stakingPoolsFixedAprResult);
 
   green(`Done!`);
 };
 
 export default func;
-func.tags = ["Tags"];
-func.dependencies = ["Dependencies"];
+func.tags = ["StakingPoolsFixedApr", "Staking"];
@@ -0,0 +1,40 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { dim, cyan, green, yellow } from "../utilities/utils";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { getNamedAccounts, deployments } = hre;
+  const { execute, read } = deployments;
+  const { deployer, owner } = await getNamedAccounts();
+
+  cyan("\n~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~");
+  cyan("   StakingPoolsFixedApr - Ownership Handover");
+  cyan("~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~\n");
+
+  // 'owner' is the second account, which networks configured with a single key don't have.
+  if (!owner) {
+    throw new Error(
+      `Named account 'owner' isn't configured for ${hre.network.name}, add its key to the network accounts`
+    );
+  }
+
+  const currentOwner: string = await read("StakingPoolsFixedApr", "owner");
+
+  dim(`current owner: ${currentOwner}`);
+  dim(`target owner: ${owner}`);
+
+  if (currentOwner.toLowerCase() === owner.toLowerCase()) {
+    yellow("Ownership already handed over, skipping");
+    return;
+  }
+
+  cyan("\nTransferring ownership of StakingPoolsFixedApr...");
+
+  await execute("StakingPoolsFixedApr", { from: deployer, log: true }, "transferOwnership", owner, true);
+
+  green(`Done!`);
+};
+
+export default func;
+func.tags = ["Ownership", "Staking"];
+func.dependencies = ["StakingPoolsFixedApr"];
@@ -0,0 +1,42 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { dim, cyan, green } from "../utilities/utils";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { getNamedAccounts, deployments, ethers } = hre;
+  const { get, read } = deployments;
+  const { owner } = await getNamedAccounts();
+
+  cyan("\n~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~");
+  cyan("   StakingPoolsFixedApr - Post Deploy Check");
+  cyan("~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~\n");
+
+  const stakingPoolsFixedApr = await get("StakingPoolsFixedApr");
+
+  const code = await ethers.provider.getCode(stakingPoolsFixedApr.address);
+  if (code === "0x") {
+    throw new Error(`StakingPoolsFixedApr has no code at ${stakingPoolsFixedApr.address}`);
+  }
+  dim(`code found at ${stakingPoolsFixedApr.address}`);
+
+  if (!owner) {
+    throw new Error(
+      `Named account 'owner' isn't configured for ${hre.network.name}, add its key to the network accounts`
+    );
+  }
+
+  const currentOwner: string = await read("StakingPoolsFixedApr", "owner");
+  if (currentOwner.toLowerCase() !== owner.toLowerCase()) {
+    throw new Error(`StakingPoolsFixedApr owner is ${currentOwner}, expected ${owner}`);
+  }
+  dim(`owner: ${currentOwner}`);
+
+  const stakingPoolsCount = await read("StakingPoolsFixedApr", "getStakingPoolsCount");
+  dim(`staking pools: ${stakingPoolsCount.toString()}`);
+
+  green(`Done!`);
+};
+
+export default func;
+func.tags = ["PostDeployCheck", "Staking"];
+func.dependencies = ["Ownership"];
@@ -3,6 +3,12 @@ import { resolve } from "path";
 import { HardhatUserConfig } from "hardhat/config";
 import "./tasks/accounts";
 import "./tasks/clean";
+import "./tasks/contract";
+import "./tasks/gas";
+import "./tasks/indexer";
+import "./tasks/manifest";
+import "./tasks/pools";
+import "./tasks/stakes";
 
 import "@nomicfoundation/hardhat-chai-matchers";
 import "@nomiclabs/hardhat-ethers";
@@ -3,54 +3,46 @@ import { resolve } from "path";
 
 dotenvConfig({ path: resolve(__dirname, "./.env") });
 
-import { HardhatUserConfig } from "hardhat/config";
+import { extendEnvironment } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { HardhatUserConfig, HttpNetworkConfig } from "hardhat/types";
 
-let mnemonic: string;
-if (!process.env.MNEMONIC) {
-  throw new Error("Please set your MNEMONIC in a .env file");
-} else {
-  mnemonic = process.env.MNEMONIC;
-}
+import {
+  assertNetworkVariables,
+  buildNetworksConfig,
+  FORK_BLOCK_NUMBER,
+  NetworkDefinition,
+  NetworkRegistry,
+  resolveAccounts,
+} from "./utilities/networks";
+import { CHAINS, toNetworkRegistry } from "./utilities/chains";
 
-let infuraApiKey: string;
-if (!process.env.INFURA_API_KEY) {
-  throw new Error("Please set your INFURA_API_KEY in a .env file");
-} else {
-  infuraApiKey = process.env.INFURA_API_KEY;
-}
+// Remote networks come from the chain registry, credentials are checked only for the selected network
+// (see 'extendEnvironment' below).
+export const NETWORK_REGISTRY: NetworkRegistry = {
+  coverage: { url: () => "http://127.0.0.1:8555", accounts: false },
+  localhost: { chainId: 1337, url: () => "http://127.0.0.1:8545", accounts: false },
+  ...toNetworkRegistry(CHAINS),
+};
 
-let alchemyUrl: string;
-if (!process.env.ALCHEMY_URL) {
-  throw new Error("Please set your ALCHEMY_URL in a .env file");
-} else {
-  alchemyUrl = process.env.ALCHEMY_URL;
-}
+// Forked hardhat network (FORK_ENABLED), MNEMONIC is optional there.
+const FORK: NetworkDefinition = { url: env => env.ALCHEMY_URL as string, requires: ["ALCHEMY_URL"], accounts: false };
 
-const networks: HardhatUserConfig["networks"] = {
-  coverage: {
-    url: "http://127.0.0.1:8555",
-    blockGasLimit: 200000000,
-    allowUnlimitedContractSize: true,
-  },
-  localhost: {
-    chainId: 1337,
-    url: "http://127.0.0.1:8545",
-    allowUnlimitedContractSize: true,
-  },
-};
+const networks: HardhatUserConfig["networks"] = buildNetworksConfig(NETWORK_REGISTRY, process.env);
+
+networks.coverage = { ...networks.coverage, blockGasLimit: 200000000, allowUnlimitedContractSize: true };
+networks.localhost = { ...networks.localhost, allowUnlimitedContractSize: true };
 
-if (alchemyUrl && process.env.FORK_ENABLED && mnemonic) {
+if (process.env.FORK_ENABLED && process.env.ALCHEMY_URL) {
   networks.hardhat = {
     chainId: 1,
     forking: {
-      url: alchemyUrl,
-    },
-    accounts: {
-      mnemonic,
+      url: FORK.url(process.env),
+      blockNumber: process.env.FORK_BLOCK_NUMBER ? parseInt(process.env.FORK_BLOCK_NUMBER) : FORK_BLOCK_NUMBER,
     },
+    accounts: process.env.MNEMONIC ? { mnemonic: process.env.MNEMONIC } : undefined,
   };
 } else {
-  console.log(alchemyUrl, process.env.FORK_ENABLED, mnemonic);
   networks.hardhat = {
     allowUnlimitedContractSize: true,
     mining: {
@@ -59,61 +51,27 @@ if (alchemyUrl && process.env.FORK_ENABLED && mnemonic) {
     },
   };
 }
-  networks.matic = {
-    chainId: 137,
-    url: "https://rpc-mainnet.maticvigil.com",
-    accounts: {
-      mnemonic,
-    },
-  };
-  networks.mumbai = {
-    chainId: 80001,
-    url: "https://rpc-mumbai.maticvigil.com",
-    accounts: {
-      mnemonic,
-    },
-  };
-  networks.bsc = {
-    chainId: 56,
-    url: "https://bsc-dataseed.binance.org",
-    accounts: {
-      mnemonic,
-    },
-  };
-  networks.bscTestnet = {
-    chainId: 97,
-    url: "https://data-seed-prebsc-1-s1.binance.org:8545/",
-    accounts: {
-      mnemonic,
-    },
-  };
 
-  networks.kovan = {
-    url: `https://kovan.infura.io/v3/${infuraApiKey}`,
-    accounts: {
-      mnemonic,
-    },
-  };
+extendEnvironment(hre => {
+  const { name } = hre.network;
+  const definition = NETWORK_REGISTRY[name];
 
-  networks.ropsten = {
-    url: `https://ropsten.infura.io/v3/${infuraApiKey}`,
-    accounts: {
-      mnemonic,
-    },
-  };
+  try {
+    if (name === "hardhat" && process.env.FORK_ENABLED) {
+      assertNetworkVariables(name, FORK, process.env);
+    }
 
-  networks.rinkeby = {
-    url: `https://rinkeby.infura.io/v3/${infuraApiKey}`,
-    accounts: {
-      mnemonic,
-    },
-  };
+    if (definition) {
+      assertNetworkVariables(name, definition, process.env);
 
-  networks.mainnet = {
-    url: `https://mainnet.infura.io/v3/${infuraApiKey}`,
-    accounts: {
-      mnemonic,
-    },
-  };
+      if (definition.accounts !== false) {
+        // Provider is created lazily from this config, so accounts are resolved before the first request.
+        (hre.network.config as HttpNetworkConfig).accounts = resolveAccounts(process.env);
+      }
+    }
+  } catch (e) {
+    throw new HardhatPluginError("hardhat.network", (e as Error).message);
+  }
+});
 
 export default networks;
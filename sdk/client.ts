@@ -0,0 +1,562 @@
+import {
+  BigNumber,
+  BigNumberish,
+  constants,
+  Contract,
+  ContractReceipt,
+  ContractTransaction,
+  Overrides,
+  Signer,
+  utils,
+} from "ethers";
+
+import type { StakingPoolsFixedApr } from "../typechain";
+
+import {
+  AmountIsBelowMinimumToStakeError,
+  CannotUnstakeYetError,
+  MissingEventError,
+  NotEnoughTokensForRewardError,
+  PausedError,
+  PoolClosedError,
+  StakeNotExistsError,
+  StakingPoolsError,
+  ZeroCalculatedRewardsError,
+  decodeStakingPoolsError,
+} from "./errors";
+import { calculateEarlyUnstakePenalty, calculateStakeRewards } from "./math";
+import { DEFAULT_PERMIT_DURATION, signPermit } from "./permit";
+import { buildBudgetReport } from "./planner";
+import {
+  AddPoolsResult,
+  BudgetReport,
+  ContractRoles,
+  ContractStatus,
+  EarlyUnstakeMode,
+  Pool,
+  PoolConfig,
+  PoolFilter,
+  PoolStatus,
+  Portfolio,
+  Stake,
+  StakeDTO,
+  StakeActivity,
+  StakePreview,
+  StakeResult,
+  StakingPoolDTO,
+  UnstakePreview,
+} from "./types";
+
+const ERC20_ABI: string[] = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+export interface StakingPoolsClientOptions {
+  /** Maximum number of Pools or Stakes fetched by a single view call. */
+  pageSize?: number;
+}
+
+/**
+ * Client for the StakingPoolsFixedApr contract which returns domain objects instead of raw contract structs
+ * and throws typed errors instead of raw provider errors.
+ */
+export class StakingPoolsClient {
+  readonly contract: StakingPoolsFixedApr;
+  readonly pageSize: number;
+
+  constructor(contract: StakingPoolsFixedApr, options: StakingPoolsClientOptions = {}) {
+    this.contract = contract;
+    this.pageSize = options.pageSize ?? 100;
+
+    if (this.pageSize <= 0) {
+      throw new Error("Page size must be greater than 0");
+    }
+  }
+
+  /** Returns all Staking Pools matching the filter (fetched page by page). */
+  async getPools(filter: PoolFilter = {}): Promise<Pool[]> {
+    const statuses = filter.status === undefined ? [] : ([] as PoolStatus[]).concat(filter.status);
+    const contractFilter = {
+      statuses: statuses.reduce((mask, status) => mask | (1 << status), 0),
+      token: filter.token ?? constants.AddressZero,
+    };
+
+    const stakingPools = await this.paginate((offset, limit) =>
+      this.contract.getStakingPools(offset, limit, contractFilter)
+    );
+
+    return stakingPools.map(toPool);
+  }
+
+  /** Returns Staking Pool for the given id. */
+  async getPool(stakingPoolId: BigNumberish): Promise<Pool> {
+    const stakingPool = await this.call(() => this.contract.getStakingPool(stakingPoolId));
+
+    return toPool(stakingPool);
+  }
+
+  /** Returns all Stakes of the given user (fetched page by page). */
+  async getUserStakes(user: string): Promise<Stake[]> {
+    const userStakes = await this.paginate((offset, limit) => this.contract.getUserStakes(user, offset, limit));
+
+    const tokens: { [stakingPoolId: number]: string } = {};
+    for (const userStake of userStakes) {
+      const stakingPoolId = userStake.stakingPoolId.toNumber();
+      if (!tokens[stakingPoolId]) {
+        tokens[stakingPoolId] = (await this.getPool(stakingPoolId)).token;
+      }
+    }
+
+    return userStakes.map(userStake => toStake(userStake, tokens[userStake.stakingPoolId.toNumber()]));
+  }
+
+  /** Returns all Stakes of the given user with totals per token. */
+  async getUserPortfolio(user: string): Promise<Portfolio> {
+    const [stakes, now] = await Promise.all([this.getUserStakes(user), this.getLatestTimestamp()]);
+
+    const portfolio: Portfolio = {
+      user,
+      stakes,
+      maturedStakes: stakes.filter(userStake => userStake.maturity.getTime() <= now * 1000),
+      totals: {},
+    };
+
+    for (const userStake of stakes) {
+      const totals = portfolio.totals[userStake.token] || {
+        staked: BigNumber.from(0),
+        rewards: BigNumber.from(0),
+        payout: BigNumber.from(0),
+      };
+
+      portfolio.totals[userStake.token] = {
+        staked: totals.staked.add(userStake.staked),
+        rewards: totals.rewards.add(userStake.rewards),
+        payout: totals.payout.add(userStake.payout),
+      };
+    }
+
+    return portfolio;
+  }
+
+  /** Returns whether the contract is paused and whether the emergency mode is enabled. */
+  async getContractStatus(): Promise<ContractStatus> {
+    const [paused, emergencyMode] = await Promise.all([this.contract.paused(), this.contract.emergencyMode()]);
+
+    return { paused, emergencyMode };
+  }
+
+  async getContractRoles(): Promise<ContractRoles> {
+    const [owner, pendingOwner, treasury] = await Promise.all([
+      this.contract.owner(),
+      this.contract.pendingOwner(),
+      this.contract.getTreasury(),
+    ]);
+
+    return { owner, pendingOwner, treasury };
+  }
+
+  /** Returns true when the account can add Pools - it's the owner or has the pool operator role. */
+  async canAddPools(account: string): Promise<boolean> {
+    const [owner, isPoolOperator] = await Promise.all([this.contract.owner(), this.contract.poolOperators(account)]);
+
+    return owner === utils.getAddress(account) || isPoolOperator;
+  }
+
+  /**
+   * Previews Stake of the given amount in the given Staking Pool at the latest block time (rewards are calculated
+   * off-chain). Instead of throwing, returns the error with which 'stake' would most likely revert.
+   */
+  async previewStake(stakingPoolId: BigNumberish, amount: BigNumberish): Promise<StakePreview> {
+    const [pool, now, paused] = await Promise.all([
+      this.getPool(stakingPoolId),
+      this.getLatestTimestamp(),
+      this.contract.paused(),
+    ]);
+    const stakeAmount = BigNumber.from(amount);
+
+    const isClosed = pool.endTime.getTime() <= now * 1000;
+    const rewards = isClosed
+      ? BigNumber.from(0)
+      : calculateStakeRewards(
+          stakeAmount,
+          { startTime: toTimestamp(pool.startTime), endTime: toTimestamp(pool.endTime), apr: pool.aprBasisPoints },
+          now
+        );
+
+    let error: StakingPoolsError | undefined;
+    if (paused) {
+      error = new PausedError();
+    } else if (isClosed) {
+      error = new PoolClosedError();
+    } else if (stakeAmount.lt(pool.minimumToStake)) {
+      error = new AmountIsBelowMinimumToStakeError();
+    } else if (rewards.eq(0)) {
+      error = new ZeroCalculatedRewardsError();
+    } else if (pool.remainingRewards.lt(rewards)) {
+      error = new NotEnoughTokensForRewardError();
+    }
+
+    return {
+      stakingPoolId: pool.id,
+      amount: stakeAmount,
+      rewards,
+      payout: stakeAmount.add(rewards),
+      maturity: pool.endTime,
+      remainingRewards: pool.remainingRewards,
+      error,
+    };
+  }
+
+  /**
+   * Previews unstake of the given Stake at the latest block time - what the user would receive when exiting now
+   * (penalty of the early unstake is calculated off-chain). Instead of throwing, returns the error with which
+   * 'unstake' would most likely revert.
+   */
+  async previewUnstake(stakeId: BigNumberish): Promise<UnstakePreview> {
+    const userStake = await this.call(() => this.contract.stakes(stakeId));
+
+    if (userStake.owner === constants.AddressZero) {
+      throw new StakeNotExistsError();
+    }
+
+    const [pool, now] = await Promise.all([this.getPool(userStake.stakingPoolId), this.getLatestTimestamp()]);
+    const unstakePossibleAt = userStake.unstakePossibleAt.toNumber();
+
+    const isEarly = unstakePossibleAt > now;
+    let forfeitedRewards = BigNumber.from(0);
+    let fee = BigNumber.from(0);
+    let error: StakingPoolsError | undefined;
+
+    if (isEarly && pool.earlyUnstake.mode === EarlyUnstakeMode.Disabled) {
+      error = new CannotUnstakeYetError();
+    } else if (isEarly) {
+      ({ forfeitedRewards, fee } = calculateEarlyUnstakePenalty(
+        {
+          staked: userStake.staked,
+          rewards: userStake.rewards,
+          startTime: userStake.startTime.toNumber(),
+          unstakePossibleAt,
+        },
+        pool.earlyUnstake,
+        now
+      ));
+    }
+
+    const rewards = userStake.rewards.sub(forfeitedRewards);
+
+    return {
+      stakeId: BigNumber.from(stakeId).toNumber(),
+      staked: userStake.staked,
+      rewards,
+      forfeitedRewards,
+      fee,
+      payout: userStake.staked.add(rewards).sub(fee),
+      isEarly,
+      maturity: new Date(unstakePossibleAt * 1000),
+      error,
+    };
+  }
+
+  /** Returns Stakes made since the given block (from the 'Staked' events) with their block timestamps. */
+  async getStakeActivity(fromBlock: number, toBlock?: number): Promise<StakeActivity[]> {
+    const events = await this.contract.queryFilter(this.contract.filters.Staked(), fromBlock, toBlock);
+
+    const timestamps = new Map<number, number>();
+    for (const event of events) {
+      if (!timestamps.has(event.blockNumber)) {
+        timestamps.set(event.blockNumber, (await event.getBlock()).timestamp);
+      }
+    }
+
+    return events.map(event => ({
+      stakingPoolId: event.args.stakingPoolId.toNumber(),
+      staked: event.args.staked,
+      rewards: event.args.rewards,
+      timestamp: timestamps.get(event.blockNumber) as number,
+    }));
+  }
+
+  /** Returns unused rewards withdrawn from Staking Pools (from the 'Withdrawn' events) by Staking Pool id. */
+  async getWithdrawnRewards(fromBlock = 0, toBlock?: number): Promise<{ [stakingPoolId: number]: BigNumber }> {
+    const events = await this.contract.queryFilter(this.contract.filters.Withdrawn(), fromBlock, toBlock);
+    const withdrawnRewards: { [stakingPoolId: number]: BigNumber } = {};
+
+    for (const event of events) {
+      const stakingPoolId = event.args.stakingPoolId.toNumber();
+      withdrawnRewards[stakingPoolId] = (withdrawnRewards[stakingPoolId] ?? BigNumber.from(0)).add(event.args.amount);
+    }
+
+    return withdrawnRewards;
+  }
+
+  /**
+   * Returns rewards budget reports of all Staking Pools at the latest block time, depletion is projected
+   * from Stakes made in the last 'windowBlocks' blocks. Target TVL can be given per Pool (e.g. in the Pool token
+   * decimals).
+   */
+  async getBudgetReports(
+    windowBlocks: number,
+    targetTvl?: BigNumberish | ((pool: Pool) => BigNumberish)
+  ): Promise<BudgetReport[]> {
+    const latest = await this.contract.provider.getBlock("latest");
+    const fromBlock = Math.max(latest.number - windowBlocks, 0);
+
+    const [pools, activity, windowStartBlock, withdrawnRewards] = await Promise.all([
+      this.getPools(),
+      this.getStakeActivity(fromBlock, latest.number),
+      this.contract.provider.getBlock(fromBlock),
+      this.getWithdrawnRewards(0, latest.number),
+    ]);
+
+    return pools.map(pool =>
+      buildBudgetReport(pool, activity, {
+        timestamp: latest.timestamp,
+        windowStart: windowStartBlock.timestamp,
+        targetTvl:
+          targetTvl === undefined
+            ? undefined
+            : BigNumber.from(typeof targetTvl === "function" ? targetTvl(pool) : targetTvl),
+        withdrawnRewards: withdrawnRewards[pool.id],
+      })
+    );
+  }
+
+  /**
+   * Approves the contract to transfer given amount (when allowance is too low) and stakes it. Overrides apply only
+   * to the stake transaction, 'approve' is sent with the provider defaults.
+   */
+  async stakeWithApproval(
+    stakingPoolId: BigNumberish,
+    amount: BigNumberish,
+    overrides: Overrides = {}
+  ): Promise<StakeResult> {
+    return this.approveAndStake(stakingPoolId, amount, poolId => this.contract.stake(poolId, amount, overrides));
+  }
+
+  /**
+   * Stakes with the EIP-2612 permit signed by the signer instead of the separate 'approve' transaction. Falls back
+   * to 'stakeWithApproval' when the allowance is already enough or the token doesn't support permit.
+   */
+  async stakeWithPermit(
+    stakingPoolId: BigNumberish,
+    amount: BigNumberish,
+    deadline?: BigNumberish,
+    overrides: Overrides = {}
+  ): Promise<StakeResult> {
+    const signer = this.getSigner();
+    const pool = await this.getPool(stakingPoolId);
+
+    const token = new Contract(pool.token, ERC20_ABI, signer);
+    const allowance: BigNumber = await token.allowance(await signer.getAddress(), this.contract.address);
+
+    const permit = allowance.lt(amount)
+      ? await signPermit(
+          signer,
+          pool.token,
+          this.contract.address,
+          amount,
+          deadline ?? (await this.getLatestTimestamp()) + DEFAULT_PERMIT_DURATION
+        )
+      : undefined;
+
+    if (!permit) {
+      return this.stakeWithApproval(pool.id, amount, overrides);
+    }
+
+    return this.sendStake(() =>
+      this.contract.stakeWithPermit(pool.id, amount, permit.deadline, permit.v, permit.r, permit.s, overrides)
+    );
+  }
+
+  /**
+   * Same as 'stakeWithApproval', but the Stake is owned by the beneficiary. Tokens are still transferred
+   * from the signer.
+   */
+  async stakeForWithApproval(
+    beneficiary: string,
+    stakingPoolId: BigNumberish,
+    amount: BigNumberish,
+    overrides: Overrides = {}
+  ): Promise<StakeResult> {
+    return this.approveAndStake(stakingPoolId, amount, poolId =>
+      this.contract.stakeFor(beneficiary, poolId, amount, overrides)
+    );
+  }
+
+  /** Transfers the signer's Stake to the new owner, who can unstake it afterwards. */
+  async transferStake(stakeId: BigNumberish, to: string, overrides: Overrides = {}): Promise<ContractReceipt> {
+    return this.call(async () => {
+      const tx = await this.contract.transferStake(stakeId, to, overrides);
+      return tx.wait();
+    });
+  }
+
+  /** Unstakes the given Stake with rewards. */
+  async unstake(stakeId: BigNumberish, overrides: Overrides = {}): Promise<ContractReceipt> {
+    return this.call(async () => {
+      const tx = await this.contract.unstake(stakeId, overrides);
+      return tx.wait();
+    });
+  }
+
+  /**
+   * Withdraws staked tokens of the given Stake without rewards, possible only in the emergency mode (also before
+   * maturity and without the early unstake fee).
+   */
+  async emergencyWithdraw(stakeId: BigNumberish, overrides: Overrides = {}): Promise<ContractReceipt> {
+    return this.call(async () => {
+      const tx = await this.contract.emergencyWithdraw(stakeId, overrides);
+      return tx.wait();
+    });
+  }
+
+  /**
+   * Unstakes all given matured Stakes in one transaction, tokens are paid out once per token. Whole batch reverts
+   * when any Stake doesn't belong to the signer or isn't matured, or no Stakes are given.
+   */
+  async unstakeBatch(stakeIds: BigNumberish[], overrides: Overrides = {}): Promise<ContractReceipt> {
+    return this.call(async () => {
+      const tx = await this.contract.unstakeBatch(stakeIds, overrides);
+      return tx.wait();
+    });
+  }
+
+  /**
+   * Adds all Pools in one transaction (only the contract owner or a pool operator). Rewards of every Pool must be
+   * approved before. Whole batch reverts when any Pool is invalid or no Pools are given.
+   */
+  async addStakingPools(pools: PoolConfig[], overrides: Overrides = {}): Promise<AddPoolsResult> {
+    const receipt = await this.call(async () => {
+      const tx = await this.contract.addStakingPools(
+        pools.map(pool => ({
+          rewardsAmount: pool.rewards,
+          minimumToStake: pool.minimumToStake,
+          token: pool.token,
+          startTime: pool.startTime,
+          endTime: pool.endTime,
+          apr: pool.aprBasisPoints,
+          earlyUnstake: pool.earlyUnstake,
+        })),
+        overrides
+      );
+      return tx.wait();
+    });
+
+    const stakingPoolIds = (receipt.events ?? [])
+      .filter(e => e.event === "StakingPoolAdded")
+      .map(e => e.args?.stakingPoolId.toNumber());
+
+    return { stakingPoolIds, receipt };
+  }
+
+  protected async approveAndStake(
+    stakingPoolId: BigNumberish,
+    amount: BigNumberish,
+    stake: (stakingPoolId: number) => Promise<ContractTransaction>
+  ): Promise<StakeResult> {
+    const signer = this.getSigner();
+    const pool = await this.getPool(stakingPoolId);
+
+    const token = new Contract(pool.token, ERC20_ABI, signer);
+    const allowance: BigNumber = await token.allowance(await signer.getAddress(), this.contract.address);
+
+    if (allowance.lt(amount)) {
+      const approveTx = await token.approve(this.contract.address, amount);
+      await approveTx.wait();
+    }
+
+    return this.sendStake(() => stake(pool.id));
+  }
+
+  /**
+   * Sends the stake transaction and reads id of the new Stake from the 'Staked' event, throws 'MissingEventError'
+   * when the receipt doesn't contain it.
+   */
+  protected async sendStake(send: () => Promise<ContractTransaction>): Promise<StakeResult> {
+    const receipt = await this.call(async () => {
+      const tx = await send();
+      return tx.wait();
+    });
+
+    const event = receipt.events?.find(e => e.event === "Staked");
+    if (!event?.args) {
+      throw new MissingEventError("Staked", receipt);
+    }
+
+    return { stakeId: event.args.stakeId.toNumber(), receipt };
+  }
+
+  /** Fetches all pages of the paginated view function, 'nextOffset' 0 ends the loop. */
+  protected async paginate<T>(
+    fetchPage: (offset: number, limit: number) => Promise<[T[], BigNumber] & { nextOffset: BigNumber }>
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let offset = 0;
+
+    do {
+      const page = await this.call(() => fetchPage(offset, this.pageSize));
+
+      items.push(...page[0]);
+      offset = page.nextOffset.toNumber();
+    } while (offset !== 0);
+
+    return items;
+  }
+
+  /** Runs contract call and replaces the provider error with the typed one (when it can be decoded). */
+  protected async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (e) {
+      throw decodeStakingPoolsError(e, this.contract.interface) || e;
+    }
+  }
+
+  protected getSigner(): Signer {
+    if (!Signer.isSigner(this.contract.signer)) {
+      throw new Error("StakingPoolsClient requires contract connected to a signer");
+    }
+
+    return this.contract.signer;
+  }
+
+  protected async getLatestTimestamp(): Promise<number> {
+    const block = await this.contract.provider.getBlock("latest");
+    return block.timestamp;
+  }
+}
+
+export function toPool(stakingPool: StakingPoolDTO): Pool {
+  return {
+    id: stakingPool.id.toNumber(),
+    token: stakingPool.token,
+    rewardsAdded: stakingPool.rewardsAdded,
+    rewardsDistributed: stakingPool.rewardsDistributed,
+    remainingRewards: stakingPool.rewardsAdded.sub(stakingPool.rewardsDistributed),
+    minimumToStake: stakingPool.minimumToStake,
+    startTime: new Date(stakingPool.startTime.toNumber() * 1000),
+    endTime: new Date(stakingPool.endTime.toNumber() * 1000),
+    apr: stakingPool.apr / 10_000,
+    aprBasisPoints: stakingPool.apr,
+    earlyUnstake: { mode: stakingPool.earlyUnstakeMode as EarlyUnstakeMode, principalFee: stakingPool.earlyUnstakeFee },
+    status: stakingPool.status as PoolStatus,
+  };
+}
+
+export function toStake(userStake: StakeDTO, token: string): Stake {
+  return {
+    id: userStake.id.toNumber(),
+    stakingPoolId: userStake.stakingPoolId.toNumber(),
+    token,
+    staked: userStake.staked,
+    rewards: userStake.rewards,
+    payout: userStake.staked.add(userStake.rewards),
+    startTime: new Date(userStake.startTime.toNumber() * 1000),
+    maturity: new Date(userStake.unstakePossibleAt.toNumber() * 1000),
+  };
+}
+
+function toTimestamp(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
@@ -0,0 +1,305 @@
+import { ContractReceipt, utils } from "ethers";
+
+/** Base class for errors thrown by the StakingPoolsFixedApr contract. */
+export class StakingPoolsError extends Error {
+  /** Custom error name as declared in the contract, e.g. 'StakingPoolFixedApr_PoolClosed'. */
+  readonly errorName: string;
+  /** Original error returned by the provider, if any. */
+  readonly cause?: unknown;
+
+  constructor(errorName: string, message: string, cause?: unknown) {
+    super(message);
+    // Keeps 'instanceof' working with ES5 target.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.errorName = errorName;
+    this.cause = cause;
+  }
+}
+
+export class NotOwnerError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("Ownable_NotOwner", "Caller is not the owner", cause);
+  }
+}
+
+export class NotPendingOwnerError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("Ownable_NotPendingOwner", "Caller is not the pending owner", cause);
+  }
+}
+
+export class IncorrectAmountTransferredError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_IncorrectAmountTransferred", "Incorrect amount of tokens transferred", cause);
+  }
+}
+
+export class ZeroRewardsAmountError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_ZeroRewardsAmount", "Amount of rewards cannot be zero", cause);
+  }
+}
+
+export class StartTimeMustBeInTheFutureError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_StartTimeMustBeInTheFuture", "Start time must be in the future", cause);
+  }
+}
+
+export class StartTimeMustBeLaterThanEndTimeError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_StartTimeMustBeLaterThanEndTime", "Start time must be before end time", cause);
+  }
+}
+
+export class PoolNotExistsError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_PoolNotExists", "Staking Pool doesn't exist", cause);
+  }
+}
+
+export class PoolClosedError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_PoolClosed", "Staking Pool is closed", cause);
+  }
+}
+
+export class AmountIsBelowMinimumToStakeError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_AmountIsBelowMinimumToStake", "Amount is below minimum to stake", cause);
+  }
+}
+
+export class ZeroCalculatedRewardsError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_ZeroCalculatedRewards", "Calculated rewards are zero", cause);
+  }
+}
+
+export class NotEnoughTokensForRewardError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_NotEnoughTokensForReward", "Staking Pool doesn't have enough rewards", cause);
+  }
+}
+
+export class StakeNotExistsError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_StakeNotExists", "Stake doesn't exist or doesn't belong to the caller", cause);
+  }
+}
+
+export class CannotUnstakeYetError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_CannotUnstakeYet", "Stake cannot be unstaked yet", cause);
+  }
+}
+
+export class CannotBeforeEndTimeError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_CannotBeforeEndTime", "Cannot be performed before Staking Pool end time", cause);
+  }
+}
+
+export class NothingToWithdrawError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_NothingToWithdraw", "Staking Pool has nothing to withdraw", cause);
+  }
+}
+
+export class EarlyUnstakeFeeTooHighError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_EarlyUnstakeFeeTooHigh", "Early unstake fee cannot be greater than 100%", cause);
+  }
+}
+
+export class PoolAlreadyStartedError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_PoolAlreadyStarted", "Staking Pool already started", cause);
+  }
+}
+
+export class EndTimeMustBeLaterThanCurrentError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super(
+      "StakingPoolFixedApr_EndTimeMustBeLaterThanCurrent",
+      "End time must be later than the current end time",
+      cause
+    );
+  }
+}
+
+export class TransferFailedError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("SafeERC20_TransferFailed", "Token transfer failed", cause);
+  }
+}
+
+export class OnlyContractAllowedError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("SafeERC20_OnlyContractAllowed", "Token address is not a contract", cause);
+  }
+}
+
+export class ZeroAddressError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_ZeroAddress", "Address cannot be zero", cause);
+  }
+}
+
+export class PermitFailedError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_PermitFailed", "Permit failed and the allowance is too low", cause);
+  }
+}
+
+export class PausedError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_Paused", "Staking and adding Pools are paused", cause);
+  }
+}
+
+export class NotPausedError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_NotPaused", "Contract isn't paused", cause);
+  }
+}
+
+export class EmergencyModeEnabledError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_EmergencyModeEnabled", "Emergency mode is enabled", cause);
+  }
+}
+
+export class EmergencyModeNotEnabledError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_EmergencyModeNotEnabled", "Emergency mode isn't enabled", cause);
+  }
+}
+
+export class NotPoolOperatorError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_NotPoolOperator", "Caller is neither the owner nor the pool operator", cause);
+  }
+}
+
+export class ZeroLimitError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_ZeroLimit", "Page limit cannot be zero", cause);
+  }
+}
+
+export class EmptyBatchError extends StakingPoolsError {
+  constructor(cause?: unknown) {
+    super("StakingPoolFixedApr_EmptyBatch", "Batch cannot be empty", cause);
+  }
+}
+
+/** Thrown when the mined transaction doesn't contain the event which the client reads its result from. */
+export class MissingEventError extends Error {
+  /** Name of the missing event, e.g. 'Staked'. */
+  readonly eventName: string;
+  readonly receipt: ContractReceipt;
+
+  constructor(eventName: string, receipt: ContractReceipt) {
+    super(`Transaction ${receipt.transactionHash} doesn't contain the '${eventName}' event`);
+    // Keeps 'instanceof' working with ES5 target.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.eventName = eventName;
+    this.receipt = receipt;
+  }
+}
+
+const ERRORS: { [errorName: string]: new (cause?: unknown) => StakingPoolsError } = {
+  Ownable_NotOwner: NotOwnerError,
+  Ownable_NotPendingOwner: NotPendingOwnerError,
+  StakingPoolFixedApr_IncorrectAmountTransferred: IncorrectAmountTransferredError,
+  StakingPoolFixedApr_ZeroRewardsAmount: ZeroRewardsAmountError,
+  StakingPoolFixedApr_StartTimeMustBeInTheFuture: StartTimeMustBeInTheFutureError,
+  StakingPoolFixedApr_StartTimeMustBeLaterThanEndTime: StartTimeMustBeLaterThanEndTimeError,
+  StakingPoolFixedApr_PoolNotExists: PoolNotExistsError,
+  StakingPoolFixedApr_PoolClosed: PoolClosedError,
+  StakingPoolFixedApr_AmountIsBelowMinimumToStake: AmountIsBelowMinimumToStakeError,
+  StakingPoolFixedApr_ZeroCalculatedRewards: ZeroCalculatedRewardsError,
+  StakingPoolFixedApr_NotEnoughTokensForReward: NotEnoughTokensForRewardError,
+  StakingPoolFixedApr_StakeNotExists: StakeNotExistsError,
+  StakingPoolFixedApr_CannotUnstakeYet: CannotUnstakeYetError,
+  StakingPoolFixedApr_CannotBeforeEndTime: CannotBeforeEndTimeError,
+  StakingPoolFixedApr_NothingToWithdraw: NothingToWithdrawError,
+  StakingPoolFixedApr_EarlyUnstakeFeeTooHigh: EarlyUnstakeFeeTooHighError,
+  StakingPoolFixedApr_PoolAlreadyStarted: PoolAlreadyStartedError,
+  StakingPoolFixedApr_EndTimeMustBeLaterThanCurrent: EndTimeMustBeLaterThanCurrentError,
+  StakingPoolFixedApr_ZeroAddress: ZeroAddressError,
+  StakingPoolFixedApr_PermitFailed: PermitFailedError,
+  StakingPoolFixedApr_Paused: PausedError,
+  StakingPoolFixedApr_NotPaused: NotPausedError,
+  StakingPoolFixedApr_EmergencyModeEnabled: EmergencyModeEnabledError,
+  StakingPoolFixedApr_EmergencyModeNotEnabled: EmergencyModeNotEnabledError,
+  StakingPoolFixedApr_NotPoolOperator: NotPoolOperatorError,
+  StakingPoolFixedApr_ZeroLimit: ZeroLimitError,
+  StakingPoolFixedApr_EmptyBatch: EmptyBatchError,
+  SafeERC20_TransferFailed: TransferFailedError,
+  SafeERC20_OnlyContractAllowed: OnlyContractAllowedError,
+};
+
+/** Creates typed error for the given contract custom error name. */
+export function createStakingPoolsError(errorName: string, cause?: unknown): StakingPoolsError {
+  const ErrorClass = ERRORS[errorName];
+
+  return ErrorClass
+    ? new ErrorClass(cause)
+    : new StakingPoolsError(errorName, `Contract reverted with ${errorName}`, cause);
+}
+
+/** Finds revert data in the (possibly nested) error returned by ethers or the JSON-RPC provider. */
+function findRevertData(error: unknown): string | undefined {
+  const visited = new Set<unknown>();
+  const queue: unknown[] = [error];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (current === null || current === undefined || visited.has(current)) {
+      continue;
+    }
+    visited.add(current);
+
+    if (typeof current === "string") {
+      if (utils.isHexString(current) && current.length >= 10) {
+        return current;
+      }
+      continue;
+    }
+
+    if (typeof current === "object") {
+      const { data, error: nested } = current as { data?: unknown; error?: unknown };
+      queue.push(data, nested);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Decodes contract custom error from the error thrown during call or transaction. Returns undefined when
+ * error doesn't contain revert data known by the given interface.
+ */
+export function decodeStakingPoolsError(
+  error: unknown,
+  contractInterface: utils.Interface
+): StakingPoolsError | undefined {
+  if (error instanceof StakingPoolsError) {
+    return error;
+  }
+
+  const data = findRevertData(error);
+  if (!data) {
+    return undefined;
+  }
+
+  try {
+    return createStakingPoolsError(contractInterface.parseError(data).name, error);
+  } catch (e) {
+    return undefined;
+  }
+}
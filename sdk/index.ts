@@ -0,0 +1,8 @@
+export * from "./client";
+export * from "./errors";
+export * from "./indexer";
+export * from "./math";
+export * from "./permit";
+export * from "./planner";
+export * from "./status";
+export * from "./types";
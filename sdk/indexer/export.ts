@@ -0,0 +1,177 @@
+import { IndexerStore } from "./store";
+
+export interface IndexerReport {
+  checkpoint?: { blockNumber: number; blockHash: string };
+  /** Timestamp (in seconds) at which Stake lifecycles were evaluated. */
+  timestamp: number;
+  pools: {
+    id: number;
+    token: string;
+    rewardsAdded: string;
+    minimumToStake: string;
+    startTime: number;
+    endTime: number;
+    apr: number;
+    earlyUnstakeMode: number;
+    earlyUnstakeFee: number;
+    totalStaked: string;
+    activeStaked: string;
+    rewardsDistributed: string;
+    rewardsPaid: string;
+    unusedRewardsWithdrawn: string;
+    rewardsToppedUp: string;
+    stakesCount: number;
+    createdAtBlock: number;
+  }[];
+  stakes: {
+    id: number;
+    user: string;
+    stakingPoolId: number;
+    staked: string;
+    rewards: string;
+    unstakePossibleAt: number;
+    lifecycle: string;
+    stakedAtBlock: number;
+    stakedTransactionHash: string;
+    unstakedAtBlock: number | null;
+    unstakedTransactionHash: string | null;
+    forfeitedRewards: string | null;
+    earlyUnstakeFee: string | null;
+  }[];
+  withdrawals: {
+    stakingPoolId: number;
+    amount: string;
+    blockNumber: number;
+    transactionHash: string;
+  }[];
+}
+
+/** Builds JSON serializable report of the indexed state with Stake lifecycles at the given timestamp. */
+export function toReport(store: IndexerStore, timestamp: number): IndexerReport {
+  return {
+    checkpoint: store.checkpoint,
+    timestamp,
+    pools: store.getPools().map(pool => ({
+      ...pool,
+      rewardsAdded: pool.rewardsAdded.toString(),
+      minimumToStake: pool.minimumToStake.toString(),
+      totalStaked: pool.totalStaked.toString(),
+      activeStaked: pool.activeStaked.toString(),
+      rewardsDistributed: pool.rewardsDistributed.toString(),
+      rewardsPaid: pool.rewardsPaid.toString(),
+      unusedRewardsWithdrawn: pool.unusedRewardsWithdrawn.toString(),
+      rewardsToppedUp: pool.rewardsToppedUp.toString(),
+    })),
+    stakes: store.getStakes().map(userStake => ({
+      ...userStake,
+      staked: userStake.staked.toString(),
+      rewards: userStake.rewards.toString(),
+      lifecycle: store.getStakeLifecycle(userStake, timestamp),
+      unstakedAtBlock: userStake.unstakedAtBlock ?? null,
+      unstakedTransactionHash: userStake.unstakedTransactionHash ?? null,
+      forfeitedRewards: userStake.forfeitedRewards?.toString() ?? null,
+      earlyUnstakeFee: userStake.earlyUnstakeFee?.toString() ?? null,
+    })),
+    withdrawals: store.getWithdrawals().map(withdrawal => ({
+      ...withdrawal,
+      amount: withdrawal.amount.toString(),
+    })),
+  };
+}
+
+/**
+ * Builds SQLite script (tables with the indexed state) which can be loaded with 'sqlite3 staking.db < dump.sql'.
+ * Token amounts are stored as TEXT, because they don't fit into SQLite INTEGER.
+ */
+export function toSqlite(store: IndexerStore, timestamp: number): string {
+  const report = toReport(store, timestamp);
+
+  const lines: string[] = [
+    "BEGIN TRANSACTION;",
+    "DROP TABLE IF EXISTS pools;",
+    "DROP TABLE IF EXISTS stakes;",
+    "DROP TABLE IF EXISTS withdrawals;",
+    "CREATE TABLE pools (id INTEGER PRIMARY KEY, token TEXT NOT NULL, rewards_added TEXT NOT NULL, " +
+      "minimum_to_stake TEXT NOT NULL, start_time INTEGER NOT NULL, end_time INTEGER NOT NULL, apr INTEGER NOT NULL, " +
+      "early_unstake_mode INTEGER NOT NULL, early_unstake_fee INTEGER NOT NULL, total_staked TEXT NOT NULL, active_staked TEXT NOT NULL, rewards_distributed TEXT NOT NULL, " +
+      "rewards_paid TEXT NOT NULL, unused_rewards_withdrawn TEXT NOT NULL, rewards_topped_up TEXT NOT NULL, " +
+      "stakes_count INTEGER NOT NULL, " +
+      "created_at_block INTEGER NOT NULL);",
+    "CREATE TABLE stakes (id INTEGER PRIMARY KEY, user TEXT NOT NULL, staking_pool_id INTEGER NOT NULL, " +
+      "staked TEXT NOT NULL, rewards TEXT NOT NULL, unstake_possible_at INTEGER NOT NULL, lifecycle TEXT NOT NULL, " +
+      "staked_at_block INTEGER NOT NULL, staked_transaction_hash TEXT NOT NULL, unstaked_at_block INTEGER, " +
+      "unstaked_transaction_hash TEXT, forfeited_rewards TEXT, early_unstake_fee TEXT);",
+    "CREATE TABLE withdrawals (staking_pool_id INTEGER NOT NULL, amount TEXT NOT NULL, " +
+      "block_number INTEGER NOT NULL, transaction_hash TEXT NOT NULL);",
+  ];
+
+  for (const pool of report.pools) {
+    lines.push(
+      insert("pools", [
+        pool.id,
+        pool.token,
+        pool.rewardsAdded,
+        pool.minimumToStake,
+        pool.startTime,
+        pool.endTime,
+        pool.apr,
+        pool.earlyUnstakeMode,
+        pool.earlyUnstakeFee,
+        pool.totalStaked,
+        pool.activeStaked,
+        pool.rewardsDistributed,
+        pool.rewardsPaid,
+        pool.unusedRewardsWithdrawn,
+        pool.rewardsToppedUp,
+        pool.stakesCount,
+        pool.createdAtBlock,
+      ])
+    );
+  }
+
+  for (const userStake of report.stakes) {
+    lines.push(
+      insert("stakes", [
+        userStake.id,
+        userStake.user,
+        userStake.stakingPoolId,
+        userStake.staked,
+        userStake.rewards,
+        userStake.unstakePossibleAt,
+        userStake.lifecycle,
+        userStake.stakedAtBlock,
+        userStake.stakedTransactionHash,
+        userStake.unstakedAtBlock,
+        userStake.unstakedTransactionHash,
+        userStake.forfeitedRewards,
+        userStake.earlyUnstakeFee,
+      ])
+    );
+  }
+
+  for (const withdrawal of report.withdrawals) {
+    lines.push(
+      insert("withdrawals", [
+        withdrawal.stakingPoolId,
+        withdrawal.amount,
+        withdrawal.blockNumber,
+        withdrawal.transactionHash,
+      ])
+    );
+  }
+
+  lines.push("COMMIT;");
+
+  return lines.join("\n") + "\n";
+}
+
+function insert(table: string, values: (string | number | null)[]): string {
+  const sqlValues = values.map(value => {
+    if (value === null) {
+      return "NULL";
+    }
+    return typeof value === "number" ? value.toString() : `'${value.replace(/'/g, "''")}'`;
+  });
+
+  return `INSERT INTO ${table} VALUES (${sqlValues.join(", ")});`;
+}
@@ -0,0 +1,3 @@
+export * from "./export";
+export * from "./indexer";
+export * from "./store";
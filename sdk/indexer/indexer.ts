@@ -0,0 +1,202 @@
+import { providers, utils } from "ethers";
+
+import type { StakingPoolsFixedApr } from "../../typechain";
+
+import { IndexedEvent, IndexerStore } from "./store";
+
+export interface IndexerOptions {
+  /** Amount of blocks behind the latest block which are considered final. */
+  confirmations?: number;
+  /** Maximum block range of a single 'eth_getLogs' request. */
+  batchSize?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  /** Block to which the store was rolled back because of a reorg, if any. */
+  reorgedTo?: number;
+}
+
+const EVENT_NAMES = [
+  "StakingPoolAdded",
+  "Staked",
+  "UnstakedEarly",
+  "EmergencyWithdrawn",
+  "Unstaked",
+  "StakeTransferred",
+  "Withdrawn",
+  "RewardsToppedUp",
+  "StakingPoolExtended",
+];
+
+/**
+ * Indexes StakingPoolAdded, Staked, UnstakedEarly, EmergencyWithdrawn, Unstaked, StakeTransferred, Withdrawn,
+ * RewardsToppedUp and StakingPoolExtended events into the IndexerStore. Only blocks with
+ * the given amount of confirmations are indexed and the last indexed block hash is verified before every sync,
+ * so a reorg rolls the store back to the last block which is still part of the chain.
+ */
+export class StakingPoolsIndexer {
+  readonly contract: StakingPoolsFixedApr;
+  readonly store: IndexerStore;
+  readonly confirmations: number;
+  readonly batchSize: number;
+
+  constructor(contract: StakingPoolsFixedApr, store: IndexerStore, options: IndexerOptions = {}) {
+    this.contract = contract;
+    this.store = store;
+    this.confirmations = options.confirmations ?? 12;
+    this.batchSize = options.batchSize ?? 2_000;
+  }
+
+  /** Indexes events up to the given block (defaults to the latest confirmed block). */
+  async sync(toBlock?: number): Promise<SyncResult> {
+    const reorgedTo = await this.handleReorg();
+
+    // 'getBlockNumber' never goes below the highest block number seen by the provider, which breaks after reorg
+    // to a shorter chain.
+    const latestBlock = (await this.contract.provider.getBlock("latest")).number;
+    const targetBlock = Math.min(toBlock ?? latestBlock, latestBlock - this.confirmations);
+    const fromBlock = this.store.checkpoint ? this.store.checkpoint.blockNumber + 1 : this.store.fromBlock;
+
+    let events = 0;
+    for (let batchFrom = fromBlock; batchFrom <= targetBlock; batchFrom += this.batchSize) {
+      const batchTo = Math.min(batchFrom + this.batchSize - 1, targetBlock);
+
+      const batchEvents = await this.fetchEvents(batchFrom, batchTo);
+      this.store.addEvents(batchEvents);
+      events += batchEvents.length;
+
+      const block = await this.contract.provider.getBlock(batchTo);
+      this.store.checkpoint = { blockNumber: block.number, blockHash: block.hash };
+    }
+
+    return { fromBlock, toBlock: targetBlock, events, reorgedTo };
+  }
+
+  /**
+   * Verifies known block hashes against the chain (newest first) and rolls the store back to the newest block
+   * which is still part of the chain.
+   */
+  private async handleReorg(): Promise<number | undefined> {
+    const knownBlocks = this.store.getKnownBlocks();
+    if (knownBlocks.length === 0) {
+      return undefined;
+    }
+
+    for (let i = 0; i < knownBlocks.length; i++) {
+      const block = await this.contract.provider.getBlock(knownBlocks[i].blockNumber);
+
+      if (block && block.hash === knownBlocks[i].blockHash) {
+        if (i === 0) {
+          return undefined;
+        }
+
+        this.store.rollback(block.number);
+        this.store.checkpoint = { blockNumber: block.number, blockHash: block.hash };
+        return block.number;
+      }
+    }
+
+    // None of the known blocks is part of the chain anymore, reindex from the beginning.
+    this.store.rollback(this.store.fromBlock - 1);
+    this.store.checkpoint = undefined;
+    return this.store.fromBlock - 1;
+  }
+
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+    const logs = await this.contract.provider.getLogs({
+      address: this.contract.address,
+      topics: [EVENT_NAMES.map(eventName => this.contract.interface.getEventTopic(eventName))],
+      fromBlock,
+      toBlock,
+    });
+
+    return logs
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+      .map(log => toIndexedEvent(log, this.contract.interface.parseLog(log)));
+  }
+}
+
+function toIndexedEvent(log: providers.Log, parsedLog: utils.LogDescription): IndexedEvent {
+  const position = {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+  };
+  const args = parsedLog.args;
+
+  switch (parsedLog.name) {
+    case "StakingPoolAdded":
+      return {
+        name: "StakingPoolAdded",
+        ...position,
+        stakingPoolId: args.stakingPoolId.toNumber(),
+        rewardsAdded: args.rewardsAdded.toString(),
+        minimumToStake: args.minimumToStake.toString(),
+        token: args.token,
+        startTime: args.startTime.toNumber(),
+        endTime: args.endTime.toNumber(),
+        apr: args.apr,
+        earlyUnstakeMode: args.earlyUnstake.mode,
+        earlyUnstakeFee: args.earlyUnstake.principalFee,
+      };
+    case "Staked":
+      return {
+        name: "Staked",
+        ...position,
+        user: args.user,
+        stakeId: args.stakeId.toNumber(),
+        stakingPoolId: args.stakingPoolId.toNumber(),
+        staked: args.staked.toString(),
+        rewards: args.rewards.toString(),
+        unstakePossibleAt: args.unstakePossibleAt.toNumber(),
+      };
+    case "UnstakedEarly":
+      return {
+        name: "UnstakedEarly",
+        ...position,
+        user: args.user,
+        stakeId: args.stakeId.toNumber(),
+        forfeitedRewards: args.forfeitedRewards.toString(),
+        fee: args.fee.toString(),
+      };
+    case "EmergencyWithdrawn":
+      return {
+        name: "EmergencyWithdrawn",
+        ...position,
+        user: args.user,
+        stakeId: args.stakeId.toNumber(),
+        forfeitedRewards: args.forfeitedRewards.toString(),
+      };
+    case "Unstaked":
+      return { name: "Unstaked", ...position, user: args.user, stakeId: args.stakeId.toNumber() };
+    case "StakeTransferred":
+      return { name: "StakeTransferred", ...position, stakeId: args.stakeId.toNumber(), from: args.from, to: args.to };
+    case "Withdrawn":
+      return {
+        name: "Withdrawn",
+        ...position,
+        stakingPoolId: args.stakingPoolId.toNumber(),
+        amount: args.amount.toString(),
+      };
+    case "RewardsToppedUp":
+      return {
+        name: "RewardsToppedUp",
+        ...position,
+        stakingPoolId: args.stakingPoolId.toNumber(),
+        amount: args.amount.toString(),
+      };
+    case "StakingPoolExtended":
+      return {
+        name: "StakingPoolExtended",
+        ...position,
+        stakingPoolId: args.stakingPoolId.toNumber(),
+        endTime: args.endTime.toNumber(),
+      };
+    default:
+      throw new Error(`Unexpected event ${parsedLog.name}`);
+  }
+}
@@ -0,0 +1,349 @@
+import { BigNumber } from "ethers";
+
+export enum StakeLifecycle {
+  Open = "open",
+  Matured = "matured",
+  Withdrawn = "withdrawn",
+}
+
+/** Decoded contract event with its position in the chain. */
+export type IndexedEvent =
+  | ({ name: "StakingPoolAdded" } & EventPosition & {
+        stakingPoolId: number;
+        rewardsAdded: string;
+        minimumToStake: string;
+        token: string;
+        startTime: number;
+        endTime: number;
+        apr: number;
+        earlyUnstakeMode: number;
+        earlyUnstakeFee: number;
+      })
+  | ({ name: "Staked" } & EventPosition & {
+        user: string;
+        stakeId: number;
+        stakingPoolId: number;
+        staked: string;
+        rewards: string;
+        unstakePossibleAt: number;
+      })
+  | ({ name: "UnstakedEarly" } & EventPosition & {
+        user: string;
+        stakeId: number;
+        forfeitedRewards: string;
+        fee: string;
+      })
+  | ({ name: "EmergencyWithdrawn" } & EventPosition & { user: string; stakeId: number; forfeitedRewards: string })
+  | ({ name: "Unstaked" } & EventPosition & { user: string; stakeId: number })
+  | ({ name: "StakeTransferred" } & EventPosition & { stakeId: number; from: string; to: string })
+  | ({ name: "Withdrawn" } & EventPosition & { stakingPoolId: number; amount: string })
+  | ({ name: "RewardsToppedUp" } & EventPosition & { stakingPoolId: number; amount: string })
+  | ({ name: "StakingPoolExtended" } & EventPosition & { stakingPoolId: number; endTime: number });
+
+export interface EventPosition {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface PoolRecord {
+  id: number;
+  token: string;
+  rewardsAdded: BigNumber;
+  minimumToStake: BigNumber;
+  startTime: number;
+  endTime: number;
+  apr: number;
+  /** 'EarlyUnstakeMode' of the contract. */
+  earlyUnstakeMode: number;
+  /** Fee from the staked tokens paid during early unstake - 100 = 1%. */
+  earlyUnstakeFee: number;
+  /** Sum of all staked tokens, including already unstaked ones. */
+  totalStaked: BigNumber;
+  /** Tokens which are still staked. */
+  activeStaked: BigNumber;
+  /** Rewards assigned to Stakes (without rewards forfeited during early unstake or emergency withdraw). */
+  rewardsDistributed: BigNumber;
+  /** Rewards already paid out with unstake. */
+  rewardsPaid: BigNumber;
+  /** Unused rewards withdrawn by the owner. */
+  unusedRewardsWithdrawn: BigNumber;
+  /** Rewards added by the owner after the Pool was created (included in 'rewardsAdded'). */
+  rewardsToppedUp: BigNumber;
+  stakesCount: number;
+  createdAtBlock: number;
+}
+
+export interface StakeRecord {
+  id: number;
+  /** Current owner, updated by StakeTransferred. */
+  user: string;
+  stakingPoolId: number;
+  staked: BigNumber;
+  rewards: BigNumber;
+  unstakePossibleAt: number;
+  stakedAtBlock: number;
+  stakedTransactionHash: string;
+  unstakedAtBlock?: number;
+  unstakedTransactionHash?: string;
+  /** Rewards returned to the Pool, only for Stakes unstaked early or withdrawn in the emergency mode. */
+  forfeitedRewards?: BigNumber;
+  /** Fee from the staked tokens, only for Stakes unstaked early. */
+  earlyUnstakeFee?: BigNumber;
+}
+
+export interface WithdrawalRecord {
+  stakingPoolId: number;
+  amount: BigNumber;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IndexerSnapshot {
+  version: 1;
+  fromBlock: number;
+  checkpoint?: Checkpoint;
+  events: IndexedEvent[];
+}
+
+export const INDEXER_SNAPSHOT_VERSION = 1;
+
+/**
+ * Local store of the StakingPoolsFixedApr history. Events are the source of truth - pools, stakes and
+ * withdrawals are derived from them, so the store can be rolled back to any block after a reorg.
+ */
+export class IndexerStore {
+  readonly fromBlock: number;
+  checkpoint?: Checkpoint;
+
+  private events: IndexedEvent[] = [];
+  private pools = new Map<number, PoolRecord>();
+  private stakes = new Map<number, StakeRecord>();
+  private withdrawals: WithdrawalRecord[] = [];
+
+  constructor(fromBlock: number) {
+    this.fromBlock = fromBlock;
+  }
+
+  static fromSnapshot(snapshot: IndexerSnapshot): IndexerStore {
+    if (snapshot.version !== INDEXER_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported indexer snapshot version ${snapshot.version}`);
+    }
+
+    const store = new IndexerStore(snapshot.fromBlock);
+    store.addEvents(snapshot.events);
+    store.checkpoint = snapshot.checkpoint;
+    return store;
+  }
+
+  toSnapshot(): IndexerSnapshot {
+    return {
+      version: INDEXER_SNAPSHOT_VERSION,
+      fromBlock: this.fromBlock,
+      checkpoint: this.checkpoint,
+      events: [...this.events],
+    };
+  }
+
+  getEvents(): IndexedEvent[] {
+    return [...this.events];
+  }
+
+  getPools(): PoolRecord[] {
+    return Array.from(this.pools.values()).sort((a, b) => a.id - b.id);
+  }
+
+  getPool(stakingPoolId: number): PoolRecord | undefined {
+    return this.pools.get(stakingPoolId);
+  }
+
+  getStakes(user?: string): StakeRecord[] {
+    const stakes = Array.from(this.stakes.values()).sort((a, b) => a.id - b.id);
+
+    return user ? stakes.filter(userStake => userStake.user.toLowerCase() === user.toLowerCase()) : stakes;
+  }
+
+  getStake(stakeId: number): StakeRecord | undefined {
+    return this.stakes.get(stakeId);
+  }
+
+  getWithdrawals(): WithdrawalRecord[] {
+    return [...this.withdrawals];
+  }
+
+  /** Lifecycle of the given Stake at the given timestamp (in seconds). */
+  getStakeLifecycle(userStake: StakeRecord, timestamp: number): StakeLifecycle {
+    if (userStake.unstakedAtBlock !== undefined) {
+      return StakeLifecycle.Withdrawn;
+    }
+
+    return userStake.unstakePossibleAt <= timestamp ? StakeLifecycle.Matured : StakeLifecycle.Open;
+  }
+
+  /** Adds events (must be ordered by block number and log index) and updates derived state. */
+  addEvents(events: IndexedEvent[]): void {
+    for (const event of events) {
+      this.events.push(event);
+      this.applyEvent(event);
+    }
+  }
+
+  /** Drops every event after the given block and rebuilds derived state. */
+  rollback(blockNumber: number): void {
+    const events = this.events.filter(event => event.blockNumber <= blockNumber);
+
+    this.events = [];
+    this.pools.clear();
+    this.stakes.clear();
+    this.withdrawals = [];
+
+    this.addEvents(events);
+  }
+
+  /** Known block hashes (from events and checkpoint), newest first. Used to find common ancestor after reorg. */
+  getKnownBlocks(): Checkpoint[] {
+    const blocks = new Map<number, string>();
+    for (const event of this.events) {
+      blocks.set(event.blockNumber, event.blockHash);
+    }
+    if (this.checkpoint) {
+      blocks.set(this.checkpoint.blockNumber, this.checkpoint.blockHash);
+    }
+
+    return Array.from(blocks.entries())
+      .map(([blockNumber, blockHash]) => ({ blockNumber, blockHash }))
+      .sort((a, b) => b.blockNumber - a.blockNumber);
+  }
+
+  private applyEvent(event: IndexedEvent): void {
+    switch (event.name) {
+      case "StakingPoolAdded":
+        this.pools.set(event.stakingPoolId, {
+          id: event.stakingPoolId,
+          token: event.token,
+          rewardsAdded: BigNumber.from(event.rewardsAdded),
+          minimumToStake: BigNumber.from(event.minimumToStake),
+          startTime: event.startTime,
+          endTime: event.endTime,
+          apr: event.apr,
+          earlyUnstakeMode: event.earlyUnstakeMode,
+          earlyUnstakeFee: event.earlyUnstakeFee,
+          totalStaked: BigNumber.from(0),
+          activeStaked: BigNumber.from(0),
+          rewardsDistributed: BigNumber.from(0),
+          rewardsPaid: BigNumber.from(0),
+          unusedRewardsWithdrawn: BigNumber.from(0),
+          rewardsToppedUp: BigNumber.from(0),
+          stakesCount: 0,
+          createdAtBlock: event.blockNumber,
+        });
+        break;
+
+      case "Staked": {
+        const pool = this.getRequiredPool(event.stakingPoolId);
+        pool.totalStaked = pool.totalStaked.add(event.staked);
+        pool.activeStaked = pool.activeStaked.add(event.staked);
+        pool.rewardsDistributed = pool.rewardsDistributed.add(event.rewards);
+        pool.stakesCount++;
+
+        this.stakes.set(event.stakeId, {
+          id: event.stakeId,
+          user: event.user,
+          stakingPoolId: event.stakingPoolId,
+          staked: BigNumber.from(event.staked),
+          rewards: BigNumber.from(event.rewards),
+          unstakePossibleAt: event.unstakePossibleAt,
+          stakedAtBlock: event.blockNumber,
+          stakedTransactionHash: event.transactionHash,
+        });
+        break;
+      }
+
+      // Emitted before Unstaked in the same transaction.
+      case "UnstakedEarly": {
+        const userStake = this.getRequiredStake(event.stakeId, event.name);
+
+        const pool = this.getRequiredPool(userStake.stakingPoolId);
+        pool.rewardsDistributed = pool.rewardsDistributed.sub(event.forfeitedRewards);
+        pool.rewardsAdded = pool.rewardsAdded.add(event.fee);
+
+        userStake.forfeitedRewards = BigNumber.from(event.forfeitedRewards);
+        userStake.earlyUnstakeFee = BigNumber.from(event.fee);
+        break;
+      }
+
+      // Emitted before Unstaked in the same transaction, all rewards are forfeited.
+      case "EmergencyWithdrawn": {
+        const userStake = this.getRequiredStake(event.stakeId, event.name);
+
+        const pool = this.getRequiredPool(userStake.stakingPoolId);
+        pool.rewardsDistributed = pool.rewardsDistributed.sub(event.forfeitedRewards);
+
+        userStake.forfeitedRewards = BigNumber.from(event.forfeitedRewards);
+        break;
+      }
+
+      case "Unstaked": {
+        const userStake = this.getRequiredStake(event.stakeId, event.name);
+
+        const pool = this.getRequiredPool(userStake.stakingPoolId);
+        pool.activeStaked = pool.activeStaked.sub(userStake.staked);
+        pool.rewardsPaid = pool.rewardsPaid.add(userStake.rewards.sub(userStake.forfeitedRewards ?? 0));
+
+        userStake.unstakedAtBlock = event.blockNumber;
+        userStake.unstakedTransactionHash = event.transactionHash;
+        break;
+      }
+
+      case "StakeTransferred":
+        this.getRequiredStake(event.stakeId, event.name).user = event.to;
+        break;
+
+      case "RewardsToppedUp": {
+        const pool = this.getRequiredPool(event.stakingPoolId);
+        pool.rewardsAdded = pool.rewardsAdded.add(event.amount);
+        pool.rewardsToppedUp = pool.rewardsToppedUp.add(event.amount);
+        break;
+      }
+
+      case "StakingPoolExtended":
+        this.getRequiredPool(event.stakingPoolId).endTime = event.endTime;
+        break;
+
+      case "Withdrawn": {
+        const pool = this.getRequiredPool(event.stakingPoolId);
+        pool.unusedRewardsWithdrawn = pool.unusedRewardsWithdrawn.add(event.amount);
+
+        this.withdrawals.push({
+          stakingPoolId: event.stakingPoolId,
+          amount: BigNumber.from(event.amount),
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        });
+        break;
+      }
+    }
+  }
+
+  private getRequiredStake(stakeId: number, eventName: string): StakeRecord {
+    const userStake = this.stakes.get(stakeId);
+    if (!userStake) {
+      throw new Error(`${eventName} event for unknown Stake ${stakeId}, index from the deployment block`);
+    }
+    return userStake;
+  }
+
+  private getRequiredPool(stakingPoolId: number): PoolRecord {
+    const pool = this.pools.get(stakingPoolId);
+    if (!pool) {
+      throw new Error(`Event for unknown Staking Pool ${stakingPoolId}, index from the deployment block`);
+    }
+    return pool;
+  }
+}
@@ -0,0 +1,132 @@
+import { BigNumber, BigNumberish, constants } from "ethers";
+
+import { EarlyUnstakeConfig, EarlyUnstakeMode } from "./types";
+
+/** Mirrors StableMath 'FULL_SCALE' (1e18). */
+export const FULL_SCALE = BigNumber.from(10).pow(18);
+/** APR and early unstake fee denominator - 100 = 1%. */
+export const APR_BASIS_POINTS = 10_000;
+/** Year used by the contract in rewards calculation (365 days). */
+export const YEAR_IN_SECONDS = 365 * 24 * 60 * 60;
+
+/** Mirrors StableMath 'mulTruncate' - multiplies two precise units and truncates by the full scale. */
+export function mulTruncate(x: BigNumberish, y: BigNumberish): BigNumber {
+  return BigNumber.from(x).mul(y).div(FULL_SCALE);
+}
+
+/** Mirrors StableMath 'divPrecisely' - scales the left operand by the full scale and divides. */
+export function divPrecisely(x: BigNumberish, y: BigNumberish): BigNumber {
+  return BigNumber.from(x).mul(FULL_SCALE).div(y);
+}
+
+/** Mirrors contract '_calculateStartTime' - rewards are earned from the later of current and Pool start time. */
+export function calculateStartTime(currentTimestamp: number, stakingPoolStartTime: number): number {
+  return currentTimestamp > stakingPoolStartTime ? currentTimestamp : stakingPoolStartTime;
+}
+
+/**
+ * Mirrors contract '_calculateRewards' including its truncation:
+ * mulTruncate((amount * apr) / 10000, divPrecisely(endTime - startTime, 365 days)).
+ */
+export function calculateRewards(
+  stakedAmount: BigNumberish,
+  startTime: number,
+  endTime: number,
+  apr: number
+): BigNumber {
+  if (endTime < startTime) {
+    throw new RangeError("End time cannot be before start time");
+  }
+
+  const annualAmount = BigNumber.from(stakedAmount).mul(apr).div(APR_BASIS_POINTS);
+  const timeRatio = divPrecisely(endTime - startTime, YEAR_IN_SECONDS);
+
+  return mulTruncate(annualAmount, timeRatio);
+}
+
+/**
+ * Mirrors contract 'calculateRewards' view function for the Pool with given start time, end time and APR
+ * at the given timestamp (in seconds).
+ */
+export function calculateStakeRewards(
+  stakedAmount: BigNumberish,
+  stakingPool: { startTime: number; endTime: number; apr: number },
+  timestamp: number
+): BigNumber {
+  const startTime = calculateStartTime(timestamp, stakingPool.startTime);
+
+  return calculateRewards(stakedAmount, startTime, stakingPool.endTime, stakingPool.apr);
+}
+
+/**
+ * Mirrors contract '_calculateEarlyUnstakePenalty' - 'ProRata' keeps rewards earned until the given timestamp
+ * (in seconds), 'ForfeitAll' forfeits all of them, the fee is taken from the staked amount in both modes.
+ */
+export function calculateEarlyUnstakePenalty(
+  userStake: { staked: BigNumberish; rewards: BigNumberish; startTime: number; unstakePossibleAt: number },
+  earlyUnstake: EarlyUnstakeConfig,
+  timestamp: number
+): { forfeitedRewards: BigNumber; fee: BigNumber } {
+  if (earlyUnstake.mode === EarlyUnstakeMode.Disabled) {
+    throw new RangeError("Early unstake is disabled");
+  }
+
+  let forfeitedRewards = BigNumber.from(userStake.rewards);
+
+  if (earlyUnstake.mode === EarlyUnstakeMode.ProRata && timestamp > userStake.startTime) {
+    const earnedRewards = forfeitedRewards
+      .mul(timestamp - userStake.startTime)
+      .div(userStake.unstakePossibleAt - userStake.startTime);
+
+    forfeitedRewards = forfeitedRewards.sub(earnedRewards);
+  }
+
+  const fee = BigNumber.from(userStake.staked).mul(earlyUnstake.principalFee).div(APR_BASIS_POINTS);
+
+  return { forfeitedRewards, fee };
+}
+
+/**
+ * Maximum amount which can be staked in the Pool at the given timestamp (in seconds) without reverting with
+ * 'NotEnoughTokensForReward'. It grows over time, because rewards are earned from the later of current and Pool
+ * start time. Returns 0 for the closed Pool and for the Pool in which no amount earns rewards (e.g. zero APR), as every
+ * Stake reverts there with 'ZeroCalculatedRewards'. Capped at 'MaxUint256'.
+ */
+export function calculateMaxStakeAmount(
+  remainingRewards: BigNumberish,
+  stakingPool: { startTime: number; endTime: number; apr: number },
+  timestamp: number
+): BigNumber {
+  if (stakingPool.endTime <= timestamp) {
+    return BigNumber.from(0);
+  }
+
+  const rewardsOf = (amount: BigNumber) => calculateStakeRewards(amount, stakingPool, timestamp);
+
+  if (rewardsOf(constants.MaxUint256).isZero()) {
+    return BigNumber.from(0);
+  }
+
+  // Rewards are monotonic in the amount, so the highest amount within the remaining rewards is found by bisection.
+  let high = BigNumber.from(1);
+  while (rewardsOf(high).lte(remainingRewards)) {
+    if (high.eq(constants.MaxUint256)) {
+      return high;
+    }
+
+    high = high.mul(2).gt(constants.MaxUint256) ? constants.MaxUint256 : high.mul(2);
+  }
+
+  let low = BigNumber.from(0);
+  while (high.sub(low).gt(1)) {
+    const middle = low.add(high).div(2);
+
+    if (rewardsOf(middle).lte(remainingRewards)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
@@ -0,0 +1,86 @@
+import { BigNumber, BigNumberish, Contract, Signer, utils } from "ethers";
+import { TypedDataSigner } from "@ethersproject/abstract-signer";
+
+/** Permit validity used when no deadline is given, in seconds from the latest block. */
+export const DEFAULT_PERMIT_DURATION = 3_600;
+
+const ERC20_PERMIT_ABI: string[] = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+];
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/** EIP-2612 permit signature split into the arguments of 'stakeWithPermit'. */
+export interface PermitSignature {
+  deadline: BigNumber;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Builds and signs the EIP-2612 permit of the token for the spender. Returns undefined when the token doesn't
+ * support permit (no 'nonces' or 'DOMAIN_SEPARATOR', or the domain separator doesn't match the EIP-712 domain built
+ * from 'name' and 'version') or the signer can't sign typed data, so callers can fall back to 'approve'.
+ */
+export async function signPermit(
+  signer: Signer,
+  token: string,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish
+): Promise<PermitSignature | undefined> {
+  if (!isTypedDataSigner(signer)) {
+    return undefined;
+  }
+
+  const permitToken = new Contract(token, ERC20_PERMIT_ABI, signer);
+  const owner = await signer.getAddress();
+
+  let name: string;
+  let nonce: BigNumber;
+  let domainSeparator: string;
+  try {
+    [name, nonce, domainSeparator] = await Promise.all([
+      permitToken.name(),
+      permitToken.nonces(owner),
+      permitToken.DOMAIN_SEPARATOR(),
+    ]);
+  } catch {
+    return undefined;
+  }
+
+  // Most tokens use version "1" without exposing it (e.g. USDC uses "2" and exposes it).
+  const version: string = await permitToken.version().catch(() => "1");
+  const domain = { name, version, chainId: await signer.getChainId(), verifyingContract: token };
+
+  if (utils._TypedDataEncoder.hashDomain(domain) !== domainSeparator) {
+    return undefined;
+  }
+
+  const signature = await signer._signTypedData(domain, PERMIT_TYPES, {
+    owner,
+    spender,
+    value: BigNumber.from(value),
+    nonce,
+    deadline: BigNumber.from(deadline),
+  });
+  const { v, r, s } = utils.splitSignature(signature);
+
+  return { deadline: BigNumber.from(deadline), v, r, s };
+}
+
+function isTypedDataSigner(signer: Signer): signer is Signer & TypedDataSigner {
+  return typeof (signer as Partial<TypedDataSigner>)._signTypedData === "function";
+}
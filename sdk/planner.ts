@@ -0,0 +1,76 @@
+import { BigNumber } from "ethers";
+
+import { calculateMaxStakeAmount, calculateStakeRewards } from "./math";
+import { BudgetReport, Pool, StakeActivity } from "./types";
+
+const DAY_IN_SECONDS = 24 * 60 * 60;
+
+export interface BudgetReportOptions {
+  /** Current timestamp in seconds. */
+  timestamp: number;
+  /** Start of the activity window in seconds, 'activity' should contain Stakes made since then. */
+  windowStart: number;
+  /** Amount which should be stakeable now. */
+  targetTvl?: BigNumber;
+  /** Unused rewards withdrawn from the Pool, the contract counts them into 'rewardsDistributed'. */
+  withdrawnRewards?: BigNumber;
+}
+
+/**
+ * Builds rewards budget report of the Pool - how much can be staked now, how fast rewards are reserved by recent
+ * Stakes and when they run out at that pace.
+ */
+export function buildBudgetReport(pool: Pool, activity: StakeActivity[], options: BudgetReportOptions): BudgetReport {
+  const { timestamp, windowStart, targetTvl, withdrawnRewards = BigNumber.from(0) } = options;
+  const stakingPool = {
+    startTime: toTimestamp(pool.startTime),
+    endTime: toTimestamp(pool.endTime),
+    apr: pool.aprBasisPoints,
+  };
+
+  const maxStakeAmount = calculateMaxStakeAmount(pool.remainingRewards, stakingPool, timestamp);
+
+  const reservedRewards = activity
+    .filter(stake => stake.stakingPoolId === pool.id && stake.timestamp >= windowStart)
+    .reduce((total, stake) => total.add(stake.rewards), BigNumber.from(0));
+
+  const windowLength = Math.max(timestamp - windowStart, 1);
+  const rewardsPerDay = reservedRewards.mul(DAY_IN_SECONDS).div(windowLength);
+
+  let depletionTime: Date | undefined;
+  if (reservedRewards.gt(0) && stakingPool.endTime > timestamp) {
+    const secondsLeft = pool.remainingRewards.mul(windowLength).div(reservedRewards);
+
+    if (secondsLeft.lt(stakingPool.endTime - timestamp)) {
+      depletionTime = new Date((timestamp + secondsLeft.toNumber()) * 1000);
+    }
+  }
+
+  let rewardsNeededForTarget: BigNumber | undefined;
+  if (targetTvl) {
+    const targetRewards =
+      stakingPool.endTime > timestamp ? calculateStakeRewards(targetTvl, stakingPool, timestamp) : BigNumber.from(0);
+
+    rewardsNeededForTarget = targetRewards.gt(pool.remainingRewards)
+      ? targetRewards.sub(pool.remainingRewards)
+      : BigNumber.from(0);
+  }
+
+  return {
+    stakingPoolId: pool.id,
+    token: pool.token,
+    status: pool.status,
+    remainingRewards: pool.remainingRewards,
+    utilisation: pool.rewardsAdded.eq(0)
+      ? 0
+      : pool.rewardsDistributed.sub(withdrawnRewards).mul(10_000).div(pool.rewardsAdded).toNumber() / 10_000,
+    maxStakeAmount: maxStakeAmount.lt(pool.minimumToStake) ? BigNumber.from(0) : maxStakeAmount,
+    rewardsPerDay,
+    depletionTime,
+    rewardsNeededForTarget,
+  };
+}
+
+function toTimestamp(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
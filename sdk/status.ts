@@ -0,0 +1,24 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+import { PoolStatus } from "./types";
+
+/**
+ * Mirrors contract '_calculatePoolStatus' - returns status of the Pool with given rewards, start and end time
+ * (in seconds) at the given timestamp, which can also be in the past or in the future.
+ */
+export function calculatePoolStatus(
+  stakingPool: { rewardsAdded: BigNumberish; rewardsDistributed: BigNumberish; startTime: number; endTime: number },
+  timestamp: number
+): PoolStatus {
+  const isFull = BigNumber.from(stakingPool.rewardsAdded).eq(stakingPool.rewardsDistributed);
+
+  if (stakingPool.endTime <= timestamp) {
+    return isFull ? PoolStatus.Finalized : PoolStatus.Ended;
+  }
+
+  if (isFull) {
+    return PoolStatus.Full;
+  }
+
+  return stakingPool.startTime > timestamp ? PoolStatus.Pending : PoolStatus.Open;
+}
@@ -0,0 +1,177 @@
+import { BigNumber, BigNumberish, ContractReceipt } from "ethers";
+
+import type { StakingPoolsFixedApr } from "../typechain";
+
+import type { StakingPoolsError } from "./errors";
+
+/** Mirrors 'PoolStatus' enum from the contract. */
+export enum PoolStatus {
+  Pending = 0,
+  Open = 1,
+  Full = 2,
+  Ended = 3,
+  Finalized = 4,
+}
+
+/** Mirrors 'EarlyUnstakeMode' enum from the contract. */
+export enum EarlyUnstakeMode {
+  Disabled = 0,
+  ProRata = 1,
+  ForfeitAll = 2,
+}
+
+export interface EarlyUnstakeConfig {
+  mode: EarlyUnstakeMode;
+  /** Fee from the staked tokens in contract basis points (100 = 1%). */
+  principalFee: number;
+}
+
+export type StakingPoolDTO = Awaited<ReturnType<StakingPoolsFixedApr["getAllStakingPools"]>>[number];
+export type StakeDTO = Awaited<ReturnType<StakingPoolsFixedApr["getAllUserStakes"]>>[number];
+
+export interface Pool {
+  id: number;
+  token: string;
+  rewardsAdded: BigNumber;
+  rewardsDistributed: BigNumber;
+  /** Rewards which are still available for new Stakes. */
+  remainingRewards: BigNumber;
+  minimumToStake: BigNumber;
+  startTime: Date;
+  endTime: Date;
+  /** APR as a decimal, e.g. 0.125 for 12.5%. */
+  apr: number;
+  /** APR in contract basis points (100 = 1%). */
+  aprBasisPoints: number;
+  earlyUnstake: EarlyUnstakeConfig;
+  status: PoolStatus;
+}
+
+/** Filter of 'getPools', Pools match all given fields. */
+export interface PoolFilter {
+  status?: PoolStatus | PoolStatus[];
+  token?: string;
+}
+
+export interface Stake {
+  id: number;
+  stakingPoolId: number;
+  token: string;
+  staked: BigNumber;
+  rewards: BigNumber;
+  /** Staked amount with rewards paid out on unstake. */
+  payout: BigNumber;
+  /** Time from which rewards are earned. */
+  startTime: Date;
+  maturity: Date;
+}
+
+export interface TokenTotals {
+  staked: BigNumber;
+  rewards: BigNumber;
+  payout: BigNumber;
+}
+
+export interface Portfolio {
+  user: string;
+  stakes: Stake[];
+  /** Stakes which can be unstaked at the time of the portfolio fetch. */
+  maturedStakes: Stake[];
+  /** Totals per token address. */
+  totals: { [token: string]: TokenTotals };
+}
+
+/** Circuit breaker flags of the contract. */
+export interface ContractStatus {
+  /** Staking and adding new Pools are paused. */
+  paused: boolean;
+  /** Users can withdraw staked tokens without rewards with 'emergencyWithdraw', cannot be disabled. */
+  emergencyMode: boolean;
+}
+
+/** Accounts with special rights in the contract. */
+export interface ContractRoles {
+  owner: string;
+  /** Proposed owner who has to accept the ownership, zero address when there is no proposal. */
+  pendingOwner: string;
+  /** Receives unused rewards, the owner unless another treasury is set. */
+  treasury: string;
+}
+
+export interface StakePreview {
+  stakingPoolId: number;
+  amount: BigNumber;
+  rewards: BigNumber;
+  payout: BigNumber;
+  maturity: Date;
+  /** Rewards which are still available for new Stakes. */
+  remainingRewards: BigNumber;
+  /** Error with which 'stake' would most likely revert, undefined when it should succeed. */
+  error?: StakingPoolsError;
+}
+
+export interface UnstakePreview {
+  stakeId: number;
+  staked: BigNumber;
+  /** Rewards paid out when unstaking now. */
+  rewards: BigNumber;
+  /** Rewards returned to the Pool (only before maturity). */
+  forfeitedRewards: BigNumber;
+  /** Fee from the staked tokens (only before maturity). */
+  fee: BigNumber;
+  /** Amount transferred to the user when unstaking now. */
+  payout: BigNumber;
+  isEarly: boolean;
+  maturity: Date;
+  /** Error with which 'unstake' would most likely revert, undefined when it should succeed. */
+  error?: StakingPoolsError;
+}
+
+/** Configuration of the Pool added by 'addStakingPools', amounts in the token units and times in seconds. */
+export interface PoolConfig {
+  token: string;
+  rewards: BigNumberish;
+  minimumToStake: BigNumberish;
+  startTime: number;
+  endTime: number;
+  /** APR in contract basis points (100 = 1%). */
+  aprBasisPoints: number;
+  earlyUnstake: EarlyUnstakeConfig;
+}
+
+export interface AddPoolsResult {
+  /** Ids of the added Pools in the order of the configurations. */
+  stakingPoolIds: number[];
+  receipt: ContractReceipt;
+}
+
+export interface StakeResult {
+  stakeId: number;
+  receipt: ContractReceipt;
+}
+
+/** Stake from the 'Staked' event used to measure how fast the Pool rewards are reserved. */
+export interface StakeActivity {
+  stakingPoolId: number;
+  staked: BigNumber;
+  rewards: BigNumber;
+  /** Block timestamp in seconds. */
+  timestamp: number;
+}
+
+export interface BudgetReport {
+  stakingPoolId: number;
+  token: string;
+  status: PoolStatus;
+  remainingRewards: BigNumber;
+  /** Share of the added rewards reserved by Stakes (without withdrawn unused rewards), e.g. 0.25 for 25%. */
+  utilisation: number;
+  /** Maximum amount a staker joining now can stake, 0 when it's below the Pool minimum or no amount earns rewards. */
+  maxStakeAmount: BigNumber;
+  /** Rewards reserved per day by Stakes in the activity window. */
+  rewardsPerDay: BigNumber;
+  /** Projected time when rewards run out, undefined without activity or when it's after the Pool end. */
+  depletionTime?: Date;
+  /** Rewards to add so that the target TVL can still be staked now, undefined without the target. */
+  rewardsNeededForTarget?: BigNumber;
+}
@@ -0,0 +1,206 @@
+import { constants, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  TASK_CONTRACT_EMERGENCY,
+  TASK_CONTRACT_PAUSE,
+  TASK_CONTRACT_STATUS,
+  TASK_CONTRACT_UNPAUSE,
+  TASK_OWNER_ACCEPT,
+  TASK_OWNER_PROPOSE,
+  TASK_ROLES_GRANT,
+  TASK_ROLES_REVOKE,
+  TASK_TREASURY_SET,
+} from "./task-names";
+import { getSigner, getStakingClient, getStakingContract } from "./helpers";
+
+const POOL_OPERATOR_ROLE = "pool-operator";
+
+task(TASK_CONTRACT_STATUS, "Prints the owner, treasury, pause and emergency mode of the contract")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingClient = await getStakingClient(hre, taskArgs.contract);
+    const { paused, emergencyMode } = await stakingClient.getContractStatus();
+    const { owner, pendingOwner, treasury } = await stakingClient.getContractRoles();
+
+    console.log(`Contract:       ${stakingClient.contract.address}`);
+    console.log(`Owner:          ${owner}`);
+    console.log(`Pending owner:  ${pendingOwner === constants.AddressZero ? "-" : pendingOwner}`);
+    console.log(`Treasury:       ${treasury}`);
+    console.log(`Paused:         ${paused ? "yes" : "no"}`);
+    console.log(`Emergency mode: ${emergencyMode ? "enabled" : "disabled"}`);
+  });
+
+task(TASK_CONTRACT_PAUSE, "Pauses staking and adding Staking Pools")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+
+    if (await stakingContract.paused()) {
+      throw new Error("Contract is already paused (StakingPoolFixedApr_Paused)");
+    }
+
+    const tx = await stakingContract.connect(signer).pause();
+    const receipt = await tx.wait();
+
+    console.log(`Contract paused (tx: ${receipt.transactionHash})`);
+  });
+
+task(TASK_CONTRACT_UNPAUSE, "Unpauses staking and adding Staking Pools")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+
+    if (await stakingContract.emergencyMode()) {
+      throw new Error(
+        "Emergency mode is enabled, contract cannot be unpaused (StakingPoolFixedApr_EmergencyModeEnabled)"
+      );
+    }
+
+    if (!(await stakingContract.paused())) {
+      throw new Error("Contract isn't paused (StakingPoolFixedApr_NotPaused)");
+    }
+
+    const tx = await stakingContract.connect(signer).unpause();
+    const receipt = await tx.wait();
+
+    console.log(`Contract unpaused (tx: ${receipt.transactionHash})`);
+  });
+
+task(TASK_CONTRACT_EMERGENCY, "Enables the emergency mode - users withdraw staked tokens without rewards")
+  .addFlag("confirm", "Confirms enabling the emergency mode, which cannot be disabled")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+
+    if (await stakingContract.emergencyMode()) {
+      throw new Error("Emergency mode is already enabled (StakingPoolFixedApr_EmergencyModeEnabled)");
+    }
+
+    if (!taskArgs.confirm) {
+      throw new Error(
+        "Emergency mode pauses the contract forever and lets users withdraw staked tokens without rewards, " +
+          "run again with --confirm to enable it"
+      );
+    }
+
+    const tx = await stakingContract.connect(signer).enableEmergencyMode();
+    const receipt = await tx.wait();
+
+    console.log(`Emergency mode enabled (tx: ${receipt.transactionHash})`);
+  });
+
+task(TASK_OWNER_PROPOSE, "Proposes the new owner, who has to accept the ownership with owner:accept")
+  .addParam("to", "Address of the proposed owner")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+
+    if (!utils.isAddress(taskArgs.to) || taskArgs.to === constants.AddressZero) {
+      throw new Error(`Invalid proposed owner '${taskArgs.to}'`);
+    }
+
+    const tx = await stakingContract.connect(signer).transferOwnership(taskArgs.to, false);
+    const receipt = await tx.wait();
+
+    console.log(`Ownership proposed to ${taskArgs.to} (tx: ${receipt.transactionHash})`);
+    console.log(`The proposed owner completes the transfer with '${TASK_OWNER_ACCEPT}'`);
+  });
+
+task(TASK_OWNER_ACCEPT, "Accepts the ownership proposed with owner:propose")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the pending owner)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const pendingOwner = await stakingContract.pendingOwner();
+
+    if (pendingOwner === constants.AddressZero) {
+      throw new Error("No ownership transfer was proposed");
+    }
+
+    const signer = await getSigner(hre, taskArgs.from || pendingOwner);
+    if (signer.address !== pendingOwner) {
+      throw new Error(`${signer.address} is not the pending owner ${pendingOwner} (Ownable_NotPendingOwner)`);
+    }
+
+    const tx = await stakingContract.connect(signer).claimOwnership();
+    const receipt = await tx.wait();
+
+    console.log(`Ownership accepted by ${signer.address} (tx: ${receipt.transactionHash})`);
+  });
+
+task(TASK_ROLES_GRANT, "Grants the role to the account")
+  .addParam("account", "Address receiving the role")
+  .addOptionalParam("role", `Role, only ${POOL_OPERATOR_ROLE} (adds Staking Pools)`, POOL_OPERATOR_ROLE, types.string)
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    await setPoolOperator(hre, taskArgs, true);
+  });
+
+task(TASK_ROLES_REVOKE, "Revokes the role from the account")
+  .addParam("account", "Address losing the role")
+  .addOptionalParam("role", `Role, only ${POOL_OPERATOR_ROLE} (adds Staking Pools)`, POOL_OPERATOR_ROLE, types.string)
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    await setPoolOperator(hre, taskArgs, false);
+  });
+
+task(TASK_TREASURY_SET, "Sets the treasury which receives unused rewards")
+  .addOptionalParam("address", "Treasury address (defaults to the zero address - unused rewards go to the owner)")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+    const treasury: string = taskArgs.address || constants.AddressZero;
+
+    if (!utils.isAddress(treasury)) {
+      throw new Error(`Invalid treasury '${treasury}'`);
+    }
+
+    const tx = await stakingContract.connect(signer).setTreasury(treasury);
+    const receipt = await tx.wait();
+
+    console.log(`Treasury set to ${await stakingContract.getTreasury()} (tx: ${receipt.transactionHash})`);
+  });
+
+async function setPoolOperator(
+  hre: HardhatRuntimeEnvironment,
+  taskArgs: { account: string; role: string; contract?: string; from?: string },
+  isPoolOperator: boolean
+): Promise<void> {
+  if (taskArgs.role !== POOL_OPERATOR_ROLE) {
+    throw new Error(`Unknown role '${taskArgs.role}', use ${POOL_OPERATOR_ROLE}`);
+  }
+
+  if (!utils.isAddress(taskArgs.account) || taskArgs.account === constants.AddressZero) {
+    throw new Error(`Invalid account '${taskArgs.account}' (StakingPoolFixedApr_ZeroAddress)`);
+  }
+
+  const stakingContract = await getStakingContract(hre, taskArgs.contract);
+  const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+
+  if ((await stakingContract.poolOperators(taskArgs.account)) === isPoolOperator) {
+    console.log(`${taskArgs.account} ${isPoolOperator ? "already has" : "doesn't have"} the ${taskArgs.role} role`);
+    return;
+  }
+
+  const tx = await stakingContract.connect(signer).setPoolOperator(taskArgs.account, isPoolOperator);
+  const receipt = await tx.wait();
+
+  console.log(
+    `${taskArgs.role} role ${isPoolOperator ? "granted to" : "revoked from"} ${taskArgs.account} ` +
+      `(tx: ${receipt.transactionHash})`
+  );
+}
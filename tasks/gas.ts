@@ -0,0 +1,248 @@
+import fsExtra from "fs-extra";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ContractTransaction, utils } from "ethers";
+
+import type { StakingPoolsFixedApr } from "../typechain";
+
+import { TASK_GAS_BENCHMARK } from "./task-names";
+import { getLatestTimestamp } from "./helpers";
+import { EarlyUnstakeMode } from "../sdk";
+import {
+  BatchGasComparison,
+  compareBatchGas,
+  compareGas,
+  createGasBaseline,
+  DEFAULT_GAS_THRESHOLD_PERCENT,
+  formatGasChange,
+  GasBaseline,
+  GasMeasurement,
+} from "../utilities/gas";
+
+const YEAR_IN_SECONDS = 31_536_000;
+const POOL_REWARDS = utils.parseUnits("1000000", 18);
+const STAKE_AMOUNT = utils.parseUnits("1", 18);
+
+task(TASK_GAS_BENCHMARK, "Measures gas as a function of user Stakes and compares it with the baseline")
+  .addOptionalParam("stakes", "Comma separated numbers of user Stakes", "1,10,100,500")
+  .addOptionalParam("baseline", "Gas baseline JSON file", "./benchmarks/gas-baseline.json", types.string)
+  .addOptionalParam(
+    "threshold",
+    `Maximum gas increase in percent (defaults to the baseline one or ${DEFAULT_GAS_THRESHOLD_PERCENT})`,
+    undefined,
+    types.float
+  )
+  .addOptionalParam("batches", "Comma separated batch sizes compared with looping single calls", "1,10,50")
+  .addFlag("update", "Writes current measurements as the new baseline")
+  .setAction(async (taskArgs, hre) => {
+    if (hre.network.name !== "hardhat") {
+      throw new Error(
+        `Gas benchmark deploys its own contracts, run it on the hardhat network (not ${hre.network.name})`
+      );
+    }
+
+    const stakeCounts = parseStakeCounts(taskArgs.stakes);
+    const batchSizes = parseStakeCounts(taskArgs.batches);
+
+    const measurements: GasMeasurement[] = [];
+    for (const stakes of stakeCounts) {
+      measurements.push(await measureGas(hre, stakes));
+    }
+
+    console.table(measurements);
+
+    const batchComparisons: BatchGasComparison[] = [];
+    for (const items of batchSizes) {
+      batchComparisons.push(...(await measureBatchGas(hre, items)));
+    }
+
+    console.table(
+      batchComparisons.map(comparison => ({
+        operation: comparison.operation,
+        items: comparison.items,
+        batch: comparison.batch,
+        singleCalls: comparison.singleCalls,
+        saving: formatGasChange(comparison.savingPercent),
+      }))
+    );
+
+    const baselinePath: string = taskArgs.baseline;
+    const baseline: GasBaseline | undefined = (await fsExtra.pathExists(baselinePath))
+      ? await fsExtra.readJSON(baselinePath)
+      : undefined;
+
+    if (taskArgs.update || !baseline) {
+      const thresholdPercent = taskArgs.threshold ?? baseline?.thresholdPercent;
+
+      await fsExtra.outputJSON(baselinePath, createGasBaseline(measurements, thresholdPercent), { spaces: 2 });
+      console.log(`Gas baseline written to ${baselinePath}`);
+      return;
+    }
+
+    const comparisons = compareGas(baseline, measurements, taskArgs.threshold);
+
+    console.table(
+      comparisons.map(comparison => ({
+        stakes: comparison.stakes,
+        metric: comparison.metric,
+        baseline: comparison.baseline,
+        current: comparison.current,
+        change: formatGasChange(comparison.changePercent),
+        regression: comparison.isRegression ? "YES" : "",
+      }))
+    );
+
+    const regressions = comparisons.filter(comparison => comparison.isRegression);
+    if (regressions.length > 0) {
+      throw new Error(
+        `Gas regressed beyond ${taskArgs.threshold ?? baseline.thresholdPercent}% in ${regressions
+          .map(regression => `${regression.metric} with ${regression.stakes} Stakes`)
+          .join(", ")}`
+      );
+    }
+
+    console.log(`No gas regressions against ${baselinePath}`);
+  });
+
+function parseStakeCounts(input: string): number[] {
+  return input.split(",").map(value => {
+    const stakes = Number(value.trim());
+    if (!Number.isInteger(stakes) || stakes < 1) {
+      throw new Error(`Invalid number of Stakes '${value}', use positive integers like "1,10,100"`);
+    }
+
+    return stakes;
+  });
+}
+
+/**
+ * Deploys the contract with a fresh token, lets the user create 'stakes' Stakes (the last one is measured) and
+ * unstakes the last of them after the Pool end. Chain is reverted afterwards, so every measurement starts
+ * from the same state.
+ */
+async function measureGas(hre: HardhatRuntimeEnvironment, stakes: number): Promise<GasMeasurement> {
+  return withSnapshot(hre, async () => {
+    const { stakingContract, token, user, startTime, endTime } = await deployContracts(hre, stakes);
+
+    const addStakingPool = await getGasUsed(addPool(stakingContract, token.address, startTime, endTime));
+
+    for (let i = 1; i < stakes; i++) {
+      await stakingContract.connect(user).stake(1, STAKE_AMOUNT);
+    }
+
+    const stake = await getGasUsed(stakingContract.connect(user).stake(1, STAKE_AMOUNT));
+    const getAllUserStakes = (await stakingContract.estimateGas.getAllUserStakes(user.address)).toNumber();
+
+    await hre.network.provider.send("evm_setNextBlockTimestamp", [endTime]);
+
+    // Stake ids of the fresh contract start from 1, so the last Stake id is equal the number of Stakes.
+    const unstake = await getGasUsed(stakingContract.connect(user).unstake(stakes));
+
+    return { stakes, addStakingPool, stake, unstake, getAllUserStakes };
+  });
+}
+
+/**
+ * Compares 'addStakingPools' of 'items' Pools and 'unstakeBatch' of 'items' matured Stakes with the same number
+ * of 'addStakingPool' and 'unstake' calls. Both variants start from the same snapshot.
+ */
+async function measureBatchGas(hre: HardhatRuntimeEnvironment, items: number): Promise<BatchGasComparison[]> {
+  return withSnapshot(hre, async () => {
+    const { stakingContract, token, user, startTime, endTime } = await deployContracts(hre, items);
+
+    const singleAdds = await withSnapshot(hre, async () => {
+      let gasUsed = 0;
+      for (let i = 0; i < items; i++) {
+        gasUsed += await getGasUsed(addPool(stakingContract, token.address, startTime, endTime));
+      }
+      return gasUsed;
+    });
+
+    const batchAdd = await getGasUsed(
+      stakingContract.addStakingPools(
+        Array.from({ length: items }, () => ({
+          rewardsAmount: POOL_REWARDS,
+          minimumToStake: 0,
+          token: token.address,
+          startTime,
+          endTime,
+          apr: 1_000,
+          earlyUnstake: { mode: EarlyUnstakeMode.Disabled, principalFee: 0 },
+        }))
+      )
+    );
+
+    for (let i = 0; i < items; i++) {
+      await stakingContract.connect(user).stake(1, STAKE_AMOUNT);
+    }
+
+    await hre.network.provider.send("evm_setNextBlockTimestamp", [endTime]);
+    await hre.network.provider.send("evm_mine", []);
+
+    // Unstakes from the last Stake, so every single call finds its id at the end of the user Stake ids.
+    const stakeIds = Array.from({ length: items }, (_, i) => items - i);
+
+    const singleUnstakes = await withSnapshot(hre, async () => {
+      let gasUsed = 0;
+      for (const stakeId of stakeIds) {
+        gasUsed += await getGasUsed(stakingContract.connect(user).unstake(stakeId));
+      }
+      return gasUsed;
+    });
+
+    const batchUnstake = await getGasUsed(stakingContract.connect(user).unstakeBatch(stakeIds));
+
+    return [
+      compareBatchGas("addStakingPools", items, batchAdd, singleAdds),
+      compareBatchGas("unstakeBatch", items, batchUnstake, singleUnstakes),
+    ];
+  });
+}
+
+// Deploys the contract and token, the user gets tokens for 'stakes' Stakes and both accounts approve the contract.
+async function deployContracts(hre: HardhatRuntimeEnvironment, stakes: number) {
+  const [deployer, user] = await hre.ethers.getSigners();
+
+  const stakingContractFactory = await hre.ethers.getContractFactory("StakingPoolsFixedApr", deployer);
+  const stakingContract = (await stakingContractFactory.deploy()) as StakingPoolsFixedApr;
+
+  const tokenFactory = await hre.ethers.getContractFactory("ERC20Mock", deployer);
+  const token = await tokenFactory.deploy(utils.parseUnits("1000000000", 18), 18);
+
+  await token.transfer(user.address, STAKE_AMOUNT.mul(stakes));
+  await token.approve(stakingContract.address, hre.ethers.constants.MaxUint256);
+  await token.connect(user).approve(stakingContract.address, hre.ethers.constants.MaxUint256);
+
+  const startTime = (await getLatestTimestamp(hre)) + 60;
+  const endTime = startTime + YEAR_IN_SECONDS;
+
+  return { stakingContract, token, user, startTime, endTime };
+}
+
+function addPool(
+  stakingContract: StakingPoolsFixedApr,
+  token: string,
+  startTime: number,
+  endTime: number
+): Promise<ContractTransaction> {
+  return stakingContract.addStakingPool(POOL_REWARDS, 0, token, startTime, endTime, 1_000, {
+    mode: EarlyUnstakeMode.Disabled,
+    principalFee: 0,
+  });
+}
+
+// Runs the function and reverts the chain to the state before it.
+async function withSnapshot<T>(hre: HardhatRuntimeEnvironment, fn: () => Promise<T>): Promise<T> {
+  const snapshotId = await hre.network.provider.send("evm_snapshot", []);
+
+  try {
+    return await fn();
+  } finally {
+    await hre.network.provider.send("evm_revert", [snapshotId]);
+  }
+}
+
+async function getGasUsed(transaction: Promise<ContractTransaction>): Promise<number> {
+  const receipt = await (await transaction).wait();
+  return receipt.gasUsed.toNumber();
+}
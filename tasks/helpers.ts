@@ -0,0 +1,124 @@
+import { BigNumber, Contract } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { StakingPoolsFixedApr } from "../typechain";
+
+import { StakingPoolsClient } from "../sdk";
+
+export const ERC20_METADATA_ABI: string[] = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+// Exclusion list of the fee on transfer tokens (e.g. ERC20FeeMock), a fee is taken unless either side is excluded.
+const FEE_EXCLUSION_ABI: string[] = ["function excludedFromFees(address account) view returns (bool)"];
+
+export interface TokenMetadata {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Returns StakingPoolsFixedApr instance for the given address or for the hardhat-deploy deployment
+ * when the address isn't given.
+ */
+export async function getStakingContract(
+  hre: HardhatRuntimeEnvironment,
+  address?: string,
+  signer?: SignerWithAddress
+): Promise<StakingPoolsFixedApr> {
+  const contractAddress = address || (await hre.deployments.get("StakingPoolsFixedApr")).address;
+
+  return (await hre.ethers.getContractAt("StakingPoolsFixedApr", contractAddress, signer)) as StakingPoolsFixedApr;
+}
+
+export async function getStakingClient(
+  hre: HardhatRuntimeEnvironment,
+  address?: string,
+  signer?: SignerWithAddress
+): Promise<StakingPoolsClient> {
+  return new StakingPoolsClient(await getStakingContract(hre, address, signer));
+}
+
+/**
+ * Returns whether the token takes a fee on the transfer between given accounts, based on its fee exclusion list.
+ * Returns undefined when the token doesn't expose the list.
+ */
+export async function isTransferFeeTaken(
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  from: string,
+  to: string
+): Promise<boolean | undefined> {
+  const token = await hre.ethers.getContractAt(FEE_EXCLUSION_ABI, address);
+
+  try {
+    const [fromExcluded, toExcluded] = await Promise.all([token.excludedFromFees(from), token.excludedFromFees(to)]);
+    return !fromExcluded && !toExcluded;
+  } catch {
+    return undefined;
+  }
+}
+
+// Throws when the account can't add Pools, so the task fails before approving rewards.
+export async function assertCanAddPools(stakingContract: StakingPoolsFixedApr, account: string): Promise<void> {
+  if (!(await new StakingPoolsClient(stakingContract).canAddPools(account))) {
+    throw new Error(`${account} is neither the owner nor a pool operator (StakingPoolFixedApr_NotPoolOperator)`);
+  }
+}
+
+// Returns signer for the given address or the first available signer.
+export async function getSigner(hre: HardhatRuntimeEnvironment, address?: string): Promise<SignerWithAddress> {
+  if (address) {
+    return hre.ethers.getSigner(address);
+  }
+
+  const [signer] = await hre.ethers.getSigners();
+  return signer;
+}
+
+export async function getToken(
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  signer?: SignerWithAddress
+): Promise<Contract> {
+  return hre.ethers.getContractAt(ERC20_METADATA_ABI, address, signer);
+}
+
+export async function getTokenMetadata(hre: HardhatRuntimeEnvironment, address: string): Promise<TokenMetadata> {
+  const token = await getToken(hre, address);
+
+  // Both are optional in EIP-20, fall back to defaults when token doesn't implement them.
+  const [symbol, decimals] = await Promise.all([token.symbol().catch(() => "???"), token.decimals().catch(() => 18)]);
+
+  return { address, symbol, decimals };
+}
+
+// Approves 'spender' to transfer 'amount' of tokens when current allowance is too low.
+export async function ensureAllowance(
+  token: Contract,
+  owner: string,
+  spender: string,
+  amount: BigNumber
+): Promise<void> {
+  const allowance: BigNumber = await token.allowance(owner, spender);
+
+  if (allowance.gte(amount)) {
+    console.log(`Allowance ${allowance.toString()} is sufficient, skipping approve`);
+    return;
+  }
+
+  console.log(`Approving ${amount.toString()} for ${spender}...`);
+  const tx = await token.approve(spender, amount);
+  await tx.wait();
+}
+
+export async function getLatestTimestamp(hre: HardhatRuntimeEnvironment): Promise<number> {
+  const block = await hre.ethers.provider.getBlock("latest");
+  return block.timestamp;
+}
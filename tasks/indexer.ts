@@ -0,0 +1,60 @@
+import fsExtra from "fs-extra";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { TASK_INDEXER_SYNC } from "./task-names";
+import { getLatestTimestamp, getStakingContract } from "./helpers";
+import { IndexerStore, StakingPoolsIndexer, toReport, toSqlite } from "../sdk";
+
+task(TASK_INDEXER_SYNC, "Indexes StakingPoolsFixedApr events and exports the history")
+  .addOptionalParam("state", "Indexer state file (created when missing)", undefined, types.string)
+  .addOptionalParam("fromBlock", "First block to index (defaults to the deployment block)", undefined, types.int)
+  .addOptionalParam("confirmations", "Blocks behind the latest block considered final", 12, types.int)
+  .addOptionalParam("batchSize", "Maximum block range of a single logs request", 2_000, types.int)
+  .addOptionalParam("json", "Write JSON report to the given file", undefined, types.string)
+  .addOptionalParam("sqlite", "Write SQLite script to the given file", undefined, types.string)
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const statePath: string = taskArgs.state || `./data/indexer/${hre.network.name}.json`;
+
+    let store: IndexerStore;
+    if (await fsExtra.pathExists(statePath)) {
+      store = IndexerStore.fromSnapshot(await fsExtra.readJSON(statePath));
+      console.log(`Loaded ${store.getEvents().length} events from ${statePath}`);
+    } else {
+      store = new IndexerStore(taskArgs.fromBlock ?? (await getDeploymentBlock(hre, taskArgs.contract)));
+    }
+
+    const indexer = new StakingPoolsIndexer(stakingContract, store, {
+      confirmations: taskArgs.confirmations,
+      batchSize: taskArgs.batchSize,
+    });
+
+    const result = await indexer.sync();
+
+    if (result.reorgedTo !== undefined) {
+      console.log(`Reorg detected, rolled back to block ${result.reorgedTo}`);
+    }
+    console.log(`Indexed ${result.events} events from blocks ${result.fromBlock} - ${result.toBlock}`);
+
+    await fsExtra.outputJSON(statePath, store.toSnapshot(), { spaces: 2 });
+
+    const timestamp = await getLatestTimestamp(hre);
+
+    if (taskArgs.json) {
+      await fsExtra.outputJSON(taskArgs.json, toReport(store, timestamp), { spaces: 2 });
+      console.log(`JSON report written to ${taskArgs.json}`);
+    }
+
+    if (taskArgs.sqlite) {
+      await fsExtra.outputFile(taskArgs.sqlite, toSqlite(store, timestamp));
+      console.log(`SQLite script written to ${taskArgs.sqlite}`);
+    }
+  });
+
+async function getDeploymentBlock(hre: HardhatRuntimeEnvironment, address?: string): Promise<number> {
+  const deployment = address ? undefined : await hre.deployments.getOrNull("StakingPoolsFixedApr");
+
+  return deployment?.receipt?.blockNumber ?? 0;
+}
@@ -0,0 +1,92 @@
+import fsExtra from "fs-extra";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Deployment } from "hardhat-deploy/types";
+
+import { TASK_EXPORT_MANIFEST } from "./task-names";
+import { getStakingClient, getTokenMetadata, TokenMetadata } from "./helpers";
+import { chainName } from "../utilities/chains";
+import {
+  createManifest,
+  DeploymentManifest,
+  mergeChainDeployment,
+  toManifestPool,
+  toTypeScriptModule,
+} from "../utilities/manifest";
+
+const CONTRACT_NAME = "StakingPoolsFixedApr";
+
+task(TASK_EXPORT_MANIFEST, "Exports the deployment of the network with its pools to the manifest for frontends")
+  .addOptionalParam(
+    "out",
+    "Manifest JSON file (deployments of other chains are kept)",
+    "./data/manifest/staking-pools.json",
+    types.string
+  )
+  .addOptionalParam(
+    "ts",
+    "Generated TypeScript module (defaults to the JSON file with .ts extension)",
+    undefined,
+    types.string
+  )
+  .setAction(async (taskArgs, hre) => {
+    const deployment = await hre.deployments.getOrNull(CONTRACT_NAME);
+    if (!deployment) {
+      throw new Error(
+        `${CONTRACT_NAME} isn't deployed on ${hre.network.name}, run 'yarn deploy ${hre.network.name}' first`
+      );
+    }
+
+    const chainId = parseInt(await hre.getChainId());
+    const client = await getStakingClient(hre, deployment.address);
+    const pools = await client.getPools();
+    const { number: exportedAtBlock } = await hre.ethers.provider.getBlock("latest");
+
+    const tokens = new Map<string, TokenMetadata>();
+    for (const token of Array.from(new Set(pools.map(pool => pool.token)))) {
+      tokens.set(token, await getTokenMetadata(hre, token));
+    }
+
+    const outPath: string = taskArgs.out;
+    const manifest: DeploymentManifest = (await fsExtra.pathExists(outPath))
+      ? await fsExtra.readJSON(outPath)
+      : createManifest(CONTRACT_NAME);
+
+    const updated = mergeChainDeployment(
+      manifest,
+      {
+        chainId,
+        network: hre.network.name,
+        name: chainName(chainId),
+        address: deployment.address,
+        deploymentBlock: await getDeploymentBlock(hre, deployment),
+        transactionHash: deployment.transactionHash,
+        exportedAtBlock,
+        pools: pools.map(pool => toManifestPool(pool, tokens.get(pool.token) as TokenMetadata)),
+      },
+      deployment.abi
+    );
+
+    const tsPath: string = taskArgs.ts || outPath.replace(/\.json$/, "") + ".ts";
+
+    await fsExtra.outputJSON(outPath, updated, { spaces: 2 });
+    await fsExtra.outputFile(tsPath, toTypeScriptModule(updated));
+
+    console.log(
+      `${CONTRACT_NAME} at ${deployment.address} on ${chainName(chainId)} (${chainId}), ${pools.length} pools`
+    );
+    console.log(`Manifest written to ${outPath} and ${tsPath}`);
+  });
+
+// Receipt isn't saved with deployments imported from other tools, then it's fetched by the transaction hash.
+async function getDeploymentBlock(hre: HardhatRuntimeEnvironment, deployment: Deployment): Promise<number> {
+  if (deployment.receipt) {
+    return deployment.receipt.blockNumber;
+  }
+
+  const receipt = deployment.transactionHash
+    ? await hre.ethers.provider.getTransactionReceipt(deployment.transactionHash)
+    : undefined;
+
+  return receipt?.blockNumber ?? 0;
+}
@@ -0,0 +1,426 @@
+import fsExtra from "fs-extra";
+import { task, types } from "hardhat/config";
+import { BigNumber, utils } from "ethers";
+
+import {
+  TASK_POOL_ADD,
+  TASK_POOL_EXTEND,
+  TASK_POOL_LIST,
+  TASK_POOL_TOPUP,
+  TASK_POOL_WITHDRAW_UNUSED,
+  TASK_POOLS_APPLY,
+  TASK_POOLS_BUDGET,
+} from "./task-names";
+import {
+  assertCanAddPools,
+  ensureAllowance,
+  getLatestTimestamp,
+  getSigner,
+  getStakingClient,
+  getStakingContract,
+  getToken,
+  getTokenMetadata,
+  isTransferFeeTaken,
+  TokenMetadata,
+} from "./helpers";
+import {
+  decodeStakingPoolsError,
+  EarlyUnstakeMode,
+  IncorrectAmountTransferredError,
+  Pool,
+  PoolStatus,
+  StakingPoolsClient,
+} from "../sdk";
+import { CampaignAction, parseCampaignFile, planCampaign, resolveCampaignPools } from "../utilities/campaigns";
+import {
+  formatAprFromBasisPoints,
+  formatTimestamp,
+  parseAprToBasisPoints,
+  parseEarlyUnstakeMode,
+  parseFeeToBasisPoints,
+  parsePoolStatuses,
+  parseTimestamp,
+} from "../utilities/parsers";
+
+task(TASK_POOL_ADD, "Adds new Staking Pool (handles ERC-20 approve)")
+  .addParam("token", "ERC-20 token address used in the Pool")
+  .addParam("rewards", "Amount of rewards in whole tokens (e.g. 10000 or 0.5)")
+  .addParam("apr", "APR as a percentage (e.g. 10 or 12.5%)")
+  .addParam("start", "Start time: ISO date, unix timestamp or duration from now (e.g. +1h)")
+  .addParam("end", "End time: ISO date, unix timestamp or duration from start time (e.g. +30d)")
+  .addOptionalParam("minimum", "Minimum amount to stake in whole tokens", "0", types.string)
+  .addOptionalParam("earlyUnstake", "Early unstake mode: disabled, pro-rata or forfeit-all", "disabled", types.string)
+  .addOptionalParam("earlyUnstakeFee", "Early unstake fee from the staked tokens (e.g. 2.5%)", "0", types.string)
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address, the owner or a pool operator (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+    await assertCanAddPools(stakingContract, signer.address);
+    const token = await getToken(hre, taskArgs.token, signer);
+    const { symbol, decimals } = await getTokenMetadata(hre, taskArgs.token);
+
+    const rewards = utils.parseUnits(taskArgs.rewards, decimals);
+    const minimumToStake = utils.parseUnits(taskArgs.minimum, decimals);
+    const apr = parseAprToBasisPoints(taskArgs.apr);
+    const startTime = parseTimestamp(taskArgs.start, await getLatestTimestamp(hre));
+    const endTime = parseTimestamp(taskArgs.end, startTime);
+    const earlyUnstake = {
+      mode: parseEarlyUnstakeMode(taskArgs.earlyUnstake),
+      principalFee: parseFeeToBasisPoints(taskArgs.earlyUnstakeFee),
+    };
+
+    console.log(`Token:     ${symbol} (${taskArgs.token}, ${decimals} decimals)`);
+    console.log(`Rewards:   ${utils.formatUnits(rewards, decimals)} ${symbol}`);
+    console.log(`Minimum:   ${utils.formatUnits(minimumToStake, decimals)} ${symbol}`);
+    console.log(`APR:       ${formatAprFromBasisPoints(apr)} (${apr})`);
+    console.log(`Start:     ${formatTimestamp(startTime)} (${startTime})`);
+    console.log(`End:       ${formatTimestamp(endTime)} (${endTime})`);
+    console.log(
+      `Early:     ${EarlyUnstakeMode[earlyUnstake.mode]} (fee ${formatAprFromBasisPoints(earlyUnstake.principalFee)})`
+    );
+
+    await ensureAllowance(token, signer.address, stakingContract.address, rewards);
+
+    const tx = await stakingContract
+      .connect(signer)
+      .addStakingPool(rewards, minimumToStake, taskArgs.token, startTime, endTime, apr, earlyUnstake);
+    const receipt = await tx.wait();
+
+    const event = receipt.events?.find(e => e.event === "StakingPoolAdded");
+    console.log(`Staking Pool ${event?.args?.stakingPoolId.toString()} added (tx: ${receipt.transactionHash})`);
+  });
+
+task(TASK_POOL_LIST, "Prints all Staking Pools")
+  .addOptionalParam("status", "Comma separated statuses: pending, open, full, ended or finalized")
+  .addOptionalParam("token", "ERC-20 token address of the Pools")
+  .addOptionalParam("pageSize", "Maximum number of Pools fetched by a single call", 100, types.int)
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const stakingClient = new StakingPoolsClient(stakingContract, { pageSize: taskArgs.pageSize });
+
+    const pools = await stakingClient.getPools({
+      status: taskArgs.status ? parsePoolStatuses(taskArgs.status) : undefined,
+      token: taskArgs.token,
+    });
+
+    if (pools.length === 0) {
+      console.log("No Staking Pools");
+      return;
+    }
+
+    const tokens: { [address: string]: TokenMetadata } = {};
+    for (const pool of pools) {
+      if (!tokens[pool.token]) {
+        tokens[pool.token] = await getTokenMetadata(hre, pool.token);
+      }
+    }
+
+    console.table(
+      pools.map(pool => {
+        const { symbol, decimals } = tokens[pool.token];
+
+        return {
+          id: pool.id,
+          token: symbol,
+          rewardsAdded: utils.formatUnits(pool.rewardsAdded, decimals),
+          rewardsDistributed: utils.formatUnits(pool.rewardsDistributed, decimals),
+          minimumToStake: utils.formatUnits(pool.minimumToStake, decimals),
+          apr: formatAprFromBasisPoints(pool.aprBasisPoints),
+          start: pool.startTime.toISOString(),
+          end: pool.endTime.toISOString(),
+          earlyUnstake: EarlyUnstakeMode[pool.earlyUnstake.mode],
+          earlyUnstakeFee: formatAprFromBasisPoints(pool.earlyUnstake.principalFee),
+          status: PoolStatus[pool.status],
+        };
+      })
+    );
+  });
+
+task(TASK_POOL_WITHDRAW_UNUSED, "Withdraws unused rewards from the closed Staking Pool (any Pool in emergency mode)")
+  .addParam("pool", "Staking Pool id", undefined, types.int)
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+
+    const stakingPool = await stakingContract.stakingPools(taskArgs.pool);
+    if (stakingPool.startTime.eq(0)) {
+      throw new Error(`Staking Pool ${taskArgs.pool} doesn't exist`);
+    }
+
+    // Emergency mode allows to withdraw unused rewards before the Pool end.
+    const emergencyMode = await stakingContract.emergencyMode();
+    if (!emergencyMode && stakingPool.endTime.gt(await getLatestTimestamp(hre))) {
+      throw new Error(`Staking Pool ${taskArgs.pool} ends at ${formatTimestamp(stakingPool.endTime.toNumber())}`);
+    }
+
+    const { symbol, decimals } = await getTokenMetadata(hre, stakingPool.token);
+    const unusedRewards = stakingPool.rewardsAdded.sub(await stakingContract.rewardsDistributed(taskArgs.pool));
+
+    if (unusedRewards.eq(0)) {
+      throw new Error(`Staking Pool ${taskArgs.pool} has nothing to withdraw`);
+    }
+
+    const treasury = await stakingContract.getTreasury();
+    console.log(`Withdrawing ${utils.formatUnits(unusedRewards, decimals)} ${symbol} to the treasury ${treasury}...`);
+
+    const tx = await stakingContract.connect(signer).withdrawUnusedRewards(taskArgs.pool);
+    const receipt = await tx.wait();
+
+    console.log(`Unused rewards withdrawn (tx: ${receipt.transactionHash})`);
+  });
+
+task(TASK_POOL_TOPUP, "Adds rewards to the existing Staking Pool (handles ERC-20 approve)")
+  .addParam("pool", "Staking Pool id", undefined, types.int)
+  .addParam("rewards", "Amount of rewards in whole tokens (e.g. 10000 or 0.5)")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+
+    const stakingPool = await stakingContract.stakingPools(taskArgs.pool);
+    if (stakingPool.startTime.eq(0)) {
+      throw new Error(`Staking Pool ${taskArgs.pool} doesn't exist`);
+    }
+
+    if (stakingPool.endTime.lte(await getLatestTimestamp(hre))) {
+      throw new Error(`Staking Pool ${taskArgs.pool} ended at ${formatTimestamp(stakingPool.endTime.toNumber())}`);
+    }
+
+    const token = await getToken(hre, stakingPool.token, signer);
+    const { symbol, decimals } = await getTokenMetadata(hre, stakingPool.token);
+    const rewards = utils.parseUnits(taskArgs.rewards, decimals);
+
+    const balance: BigNumber = await token.balanceOf(signer.address);
+    if (balance.lt(rewards)) {
+      throw new Error(`Insufficient ${symbol} balance: ${utils.formatUnits(balance, decimals)}`);
+    }
+
+    console.log(`Rewards:   ${utils.formatUnits(stakingPool.rewardsAdded, decimals)} ${symbol}`);
+    console.log(`Top up:    ${utils.formatUnits(rewards, decimals)} ${symbol}`);
+
+    // Fee on transfer tokens make the contract revert with IncorrectAmountTransferred, check it before approving.
+    const feeError = new Error(
+      `${symbol} takes a fee on transfer, exclude the contract from the fee before the top up`
+    );
+
+    if (await isTransferFeeTaken(hre, stakingPool.token, signer.address, stakingContract.address)) {
+      throw feeError;
+    }
+
+    // Tokens without the fee exclusion list can only be checked by the static call, which needs the allowance.
+    await ensureAllowance(token, signer.address, stakingContract.address, rewards);
+
+    try {
+      await stakingContract.connect(signer).callStatic.topUpRewards(taskArgs.pool, rewards);
+    } catch (e) {
+      const error = decodeStakingPoolsError(e, stakingContract.interface);
+
+      if (error instanceof IncorrectAmountTransferredError) {
+        throw feeError;
+      }
+      throw error || e;
+    }
+
+    const tx = await stakingContract.connect(signer).topUpRewards(taskArgs.pool, rewards);
+    const receipt = await tx.wait();
+
+    console.log(`Staking Pool ${taskArgs.pool} topped up (tx: ${receipt.transactionHash})`);
+  });
+
+task(TASK_POOL_EXTEND, "Extends end time of the Staking Pool which hasn't started yet")
+  .addParam("pool", "Staking Pool id", undefined, types.int)
+  .addParam("end", "New end time: ISO date, unix timestamp or duration from the current end time (e.g. +30d)")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    const stakingContract = await getStakingContract(hre, taskArgs.contract);
+    const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+
+    const stakingPool = await stakingContract.stakingPools(taskArgs.pool);
+    if (stakingPool.startTime.eq(0)) {
+      throw new Error(`Staking Pool ${taskArgs.pool} doesn't exist`);
+    }
+
+    if (stakingPool.startTime.lte(await getLatestTimestamp(hre))) {
+      throw new Error(`Staking Pool ${taskArgs.pool} started at ${formatTimestamp(stakingPool.startTime.toNumber())}`);
+    }
+
+    const endTime = parseTimestamp(taskArgs.end, stakingPool.endTime.toNumber());
+    if (endTime <= stakingPool.endTime.toNumber()) {
+      throw new Error(`End time must be later than ${formatTimestamp(stakingPool.endTime.toNumber())}`);
+    }
+
+    console.log(`End:       ${formatTimestamp(stakingPool.endTime.toNumber())} -> ${formatTimestamp(endTime)}`);
+
+    const tx = await stakingContract.connect(signer).extendStakingPool(taskArgs.pool, endTime);
+    const receipt = await tx.wait();
+
+    console.log(`Staking Pool ${taskArgs.pool} extended (tx: ${receipt.transactionHash})`);
+  });
+
+task(TASK_POOLS_APPLY, "Creates Staking Pools of the campaign file which don't exist yet")
+  .addParam("file", "YAML or JSON campaign file")
+  .addFlag("dryRun", "Prints the plan without sending transactions")
+  .addOptionalParam("batchSize", "Maximum number of Staking Pools added in one transaction", 20, types.int)
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address, the owner or a pool operator (defaults to the contract owner)")
+  .setAction(async (taskArgs, hre) => {
+    if (taskArgs.batchSize < 1) {
+      throw new Error("Batch size must be greater than 0");
+    }
+
+    const client = await getStakingClient(hre, taskArgs.contract);
+    const stakingContract = client.contract;
+    const file = parseCampaignFile(await fsExtra.readFile(taskArgs.file, "utf8"));
+
+    const tokens: { [address: string]: TokenMetadata } = {};
+    for (const pool of file.pools) {
+      const token = pool.token ?? file.defaults?.token;
+
+      if (token && utils.isAddress(token) && !tokens[utils.getAddress(token)]) {
+        tokens[utils.getAddress(token)] = await getTokenMetadata(hre, utils.getAddress(token));
+      }
+    }
+
+    const tokenDecimals: { [address: string]: number } = {};
+    for (const token of Object.keys(tokens)) {
+      tokenDecimals[token] = tokens[token].decimals;
+    }
+
+    const pools = resolveCampaignPools(file, tokenDecimals);
+    const plan = planCampaign(pools, await client.getPools(), await getLatestTimestamp(hre));
+
+    console.table(
+      plan.map(({ pool, action, existingPoolId, differences, errors, warnings }) => {
+        const { symbol, decimals } = tokens[pool.token];
+
+        return {
+          name: pool.name,
+          action,
+          id: existingPoolId ?? "",
+          token: symbol,
+          rewards: utils.formatUnits(pool.rewards, decimals),
+          budget: pool.budget ? utils.formatUnits(pool.budget, decimals) : "",
+          apr: formatAprFromBasisPoints(pool.apr),
+          start: formatTimestamp(pool.startTime),
+          end: formatTimestamp(pool.endTime),
+          notes: [...errors, ...differences, ...warnings].join(", "),
+        };
+      })
+    );
+
+    const toCreate = plan.filter(item => item.action === CampaignAction.Create);
+    const rejected = toCreate.filter(item => item.errors.length > 0);
+
+    if (rejected.length > 0) {
+      throw new Error(`${rejected.length} Staking Pools would be rejected by the contract, fix the campaign file`);
+    }
+
+    if (toCreate.length === 0) {
+      console.log("All Staking Pools exist, nothing to create");
+      return;
+    }
+
+    const totals: { [address: string]: BigNumber } = {};
+    for (const { pool } of toCreate) {
+      totals[pool.token] = (totals[pool.token] ?? BigNumber.from(0)).add(pool.rewards);
+    }
+
+    for (const token of Object.keys(totals)) {
+      const { symbol, decimals } = tokens[token];
+      console.log(`Rewards needed: ${utils.formatUnits(totals[token], decimals)} ${symbol}`);
+    }
+
+    if (taskArgs.dryRun) {
+      console.log(`Dry run, ${toCreate.length} Staking Pools would be created`);
+      return;
+    }
+
+    const signer = await getSigner(hre, taskArgs.from || (await stakingContract.owner()));
+    await assertCanAddPools(stakingContract, signer.address);
+
+    for (const token of Object.keys(totals)) {
+      const erc20 = await getToken(hre, token, signer);
+      const balance: BigNumber = await erc20.balanceOf(signer.address);
+
+      if (balance.lt(totals[token])) {
+        throw new Error(
+          `Insufficient ${tokens[token].symbol} balance: ${utils.formatUnits(balance, tokens[token].decimals)}`
+        );
+      }
+
+      await ensureAllowance(erc20, signer.address, stakingContract.address, totals[token]);
+    }
+
+    const signerClient = await getStakingClient(hre, taskArgs.contract, signer);
+
+    for (let i = 0; i < toCreate.length; i += taskArgs.batchSize) {
+      const batch = toCreate.slice(i, i + taskArgs.batchSize).map(item => item.pool);
+
+      const { stakingPoolIds, receipt } = await signerClient.addStakingPools(
+        batch.map(pool => ({
+          token: pool.token,
+          rewards: pool.rewards,
+          minimumToStake: pool.minimumToStake,
+          startTime: pool.startTime,
+          endTime: pool.endTime,
+          aprBasisPoints: pool.apr,
+          earlyUnstake: pool.earlyUnstake,
+        }))
+      );
+
+      batch.forEach((pool, index) => console.log(`Staking Pool ${stakingPoolIds[index]} (${pool.name}) added`));
+      console.log(`${batch.length} Staking Pools added (tx: ${receipt.transactionHash})`);
+    }
+  });
+
+task(TASK_POOLS_BUDGET, "Prints rewards budget of Staking Pools - stakeable amount, utilisation and depletion")
+  .addOptionalParam("window", "Blocks of recent Stakes used to project depletion", 50_000, types.int)
+  .addOptionalParam(
+    "targetTvl",
+    "Amount in whole tokens which should be stakeable now (e.g. 100000)",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .setAction(async (taskArgs, hre) => {
+    const client = await getStakingClient(hre, taskArgs.contract);
+    const pools = await client.getPools();
+
+    const tokens: { [address: string]: TokenMetadata } = {};
+    for (const pool of pools) {
+      if (!tokens[pool.token]) {
+        tokens[pool.token] = await getTokenMetadata(hre, pool.token);
+      }
+    }
+
+    const reports = await client.getBudgetReports(
+      taskArgs.window,
+      taskArgs.targetTvl && ((pool: Pool) => utils.parseUnits(taskArgs.targetTvl, tokens[pool.token].decimals))
+    );
+
+    console.table(
+      reports.map(report => {
+        const { symbol, decimals } = tokens[report.token];
+
+        return {
+          id: report.stakingPoolId,
+          token: symbol,
+          status: PoolStatus[report.status],
+          remainingRewards: utils.formatUnits(report.remainingRewards, decimals),
+          utilisation: `${(report.utilisation * 100).toFixed(2)}%`,
+          maxStake: utils.formatUnits(report.maxStakeAmount, decimals),
+          rewardsPerDay: utils.formatUnits(report.rewardsPerDay, decimals),
+          depletion: report.depletionTime ? report.depletionTime.toISOString() : "-",
+          neededForTarget: report.rewardsNeededForTarget
+            ? utils.formatUnits(report.rewardsNeededForTarget, decimals)
+            : "-",
+        };
+      })
+    );
+  });
@@ -0,0 +1,301 @@
+import { task, types } from "hardhat/config";
+import { BigNumber, utils } from "ethers";
+
+import {
+  TASK_STAKE,
+  TASK_STAKE_EMERGENCY_WITHDRAW,
+  TASK_STAKE_TRANSFER,
+  TASK_STAKES_SHOW,
+  TASK_UNSTAKE,
+} from "./task-names";
+import {
+  getLatestTimestamp,
+  getSigner,
+  getStakingClient,
+  getStakingContract,
+  getToken,
+  getTokenMetadata,
+  TokenMetadata,
+} from "./helpers";
+import { formatDuration, formatTimestamp, parseStakeIds } from "../utilities/parsers";
+
+import type { StakingPoolsFixedApr } from "../typechain";
+
+task(TASK_STAKE, "Stakes tokens in the Staking Pool (handles ERC-20 approve or EIP-2612 permit)")
+  .addParam("pool", "Staking Pool id", undefined, types.int)
+  .addParam("amount", "Amount to stake in whole tokens (e.g. 100 or 0.5)")
+  .addOptionalParam("beneficiary", "Owner of the new Stake (defaults to the sender, who pays the tokens either way)")
+  .addFlag("permit", "Signs EIP-2612 permit instead of the approve transaction (falls back to approve)")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the first account)")
+  .setAction(async (taskArgs, hre) => {
+    if (taskArgs.beneficiary !== undefined && !utils.isAddress(taskArgs.beneficiary)) {
+      throw new Error(`Invalid beneficiary address '${taskArgs.beneficiary}'`);
+    }
+
+    if (taskArgs.beneficiary !== undefined && taskArgs.permit) {
+      throw new Error("--permit cannot be combined with --beneficiary");
+    }
+
+    const signer = await getSigner(hre, taskArgs.from);
+    const stakingClient = await getStakingClient(hre, taskArgs.contract, signer);
+
+    const pool = await stakingClient.getPool(taskArgs.pool);
+
+    const token = await getToken(hre, pool.token, signer);
+    const { symbol, decimals } = await getTokenMetadata(hre, pool.token);
+    const format = (value: BigNumber) => `${utils.formatUnits(value, decimals)} ${symbol}`;
+
+    const amount = utils.parseUnits(taskArgs.amount, decimals);
+    const preview = await stakingClient.previewStake(pool.id, amount);
+
+    console.log(`Staking:           ${format(amount)}`);
+    console.log(`Minimum to stake:  ${format(pool.minimumToStake)}`);
+    console.log(`Expected rewards:  ${format(preview.rewards)}`);
+    console.log(`Remaining rewards: ${format(preview.remainingRewards)}`);
+    console.log(`Unstake possible:  ${preview.maturity.toISOString()}`);
+
+    if (preview.error) {
+      throw new Error(`${preview.error.message} (${preview.error.errorName})`);
+    }
+
+    const balance: BigNumber = await token.balanceOf(signer.address);
+    if (balance.lt(amount)) {
+      throw new Error(`Insufficient balance: ${format(balance)}`);
+    }
+
+    if (taskArgs.beneficiary === undefined) {
+      const { stakeId, receipt } = taskArgs.permit
+        ? await stakingClient.stakeWithPermit(pool.id, amount)
+        : await stakingClient.stakeWithApproval(pool.id, amount);
+
+      console.log(`Stake ${stakeId} created (tx: ${receipt.transactionHash})`);
+      return;
+    }
+
+    const { stakeId, receipt } = await stakingClient.stakeForWithApproval(taskArgs.beneficiary, pool.id, amount);
+
+    console.log(`Stake ${stakeId} created for ${taskArgs.beneficiary} (tx: ${receipt.transactionHash})`);
+  });
+
+task(TASK_UNSTAKE, "Unstakes tokens with rewards")
+  .addOptionalParam("id", "Stake id", undefined, types.int)
+  .addOptionalParam("ids", "Comma separated ids of matured Stakes unstaked in batches (e.g. 1,2,5)")
+  .addFlag("allMatured", "Unstake every matured Stake of the sender in batches")
+  .addFlag("early", "Allow unstake before maturity (forfeits rewards and pays the early unstake fee)")
+  .addOptionalParam("batchSize", "Maximum number of Stakes unstaked in one transaction", 50, types.int)
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the first account)")
+  .setAction(async (taskArgs, hre) => {
+    if ([taskArgs.id !== undefined, taskArgs.ids !== undefined, taskArgs.allMatured].filter(Boolean).length !== 1) {
+      throw new Error("Exactly one of --id, --ids or --all-matured must be given");
+    }
+
+    if (taskArgs.batchSize < 1) {
+      throw new Error("Batch size must be greater than 0");
+    }
+
+    const signer = await getSigner(hre, taskArgs.from);
+    const stakingContract = await getStakingContract(hre, taskArgs.contract, signer);
+    const latestTimestamp = await getLatestTimestamp(hre);
+
+    if (taskArgs.id !== undefined) {
+      const userStake = await stakingContract.stakes(taskArgs.id);
+
+      if (userStake.owner !== signer.address) {
+        throw new Error(
+          `Stake ${taskArgs.id} doesn't belong to ${signer.address} (StakingPoolFixedApr_StakeNotExists)`
+        );
+      }
+
+      if (userStake.unstakePossibleAt.gt(latestTimestamp)) {
+        const maturesIn = formatDuration(userStake.unstakePossibleAt.toNumber() - latestTimestamp);
+
+        if (!taskArgs.early) {
+          throw new Error(
+            `Stake ${taskArgs.id} matures in ${maturesIn}, use --early to unstake now ` +
+              "(StakingPoolFixedApr_CannotUnstakeYet)"
+          );
+        }
+
+        const stakingClient = await getStakingClient(hre, taskArgs.contract, signer);
+        const preview = await stakingClient.previewUnstake(taskArgs.id);
+
+        const pool = await stakingClient.getPool(userStake.stakingPoolId);
+        const { symbol, decimals } = await getTokenMetadata(hre, pool.token);
+        const format = (value: BigNumber) => `${utils.formatUnits(value, decimals)} ${symbol}`;
+
+        console.log(`Matures in:        ${maturesIn}`);
+        console.log(`Staked:            ${format(preview.staked)}`);
+        console.log(`Rewards:           ${format(preview.rewards)}`);
+        console.log(`Forfeited rewards: ${format(preview.forfeitedRewards)}`);
+        console.log(`Early unstake fee: ${format(preview.fee)}`);
+        console.log(`Payout:            ${format(preview.payout)}`);
+
+        if (preview.error) {
+          throw new Error(`${preview.error.message} (${preview.error.errorName})`);
+        }
+      }
+
+      await unstake(stakingContract, taskArgs.id);
+      return;
+    }
+
+    const stakingClient = await getStakingClient(hre, taskArgs.contract, signer);
+    const maturedStakes = (await stakingClient.getUserStakes(signer.address)).filter(
+      userStake => userStake.maturity.getTime() <= latestTimestamp * 1000
+    );
+    const maturedIds = maturedStakes.map(userStake => userStake.id);
+
+    let stakeIds: number[] = maturedIds;
+
+    if (taskArgs.ids !== undefined) {
+      stakeIds = parseStakeIds(taskArgs.ids);
+
+      // Batch reverts as a whole, so the invalid ids are reported before sending it.
+      const invalidIds = stakeIds.filter(id => !maturedIds.includes(id));
+      if (invalidIds.length > 0) {
+        throw new Error(
+          `Stakes ${invalidIds.join(", ")} don't belong to ${signer.address} or aren't matured yet ` +
+            "(StakingPoolFixedApr_StakeNotExists, StakingPoolFixedApr_CannotUnstakeYet)"
+        );
+      }
+    }
+
+    if (stakeIds.length === 0) {
+      console.log(`No matured Stakes for ${signer.address}`);
+      return;
+    }
+
+    for (let i = 0; i < stakeIds.length; i += taskArgs.batchSize) {
+      const batch = stakeIds.slice(i, i + taskArgs.batchSize);
+      console.log(`Unstaking Stakes ${batch.join(", ")}...`);
+
+      const receipt = await stakingClient.unstakeBatch(batch);
+
+      console.log(`${batch.length} Stakes unstaked (tx: ${receipt.transactionHash})`);
+    }
+  });
+
+task(TASK_STAKE_TRANSFER, "Transfers the Stake to the new owner")
+  .addParam("id", "Stake id", undefined, types.int)
+  .addParam("to", "New owner address")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Current owner address (defaults to the first account)")
+  .setAction(async (taskArgs, hre) => {
+    if (!utils.isAddress(taskArgs.to)) {
+      throw new Error(`Invalid address '${taskArgs.to}'`);
+    }
+
+    const signer = await getSigner(hre, taskArgs.from);
+    const stakingContract = await getStakingContract(hre, taskArgs.contract, signer);
+
+    const userStake = await stakingContract.stakes(taskArgs.id);
+    if (userStake.owner !== signer.address) {
+      throw new Error(`Stake ${taskArgs.id} doesn't belong to ${signer.address} (StakingPoolFixedApr_StakeNotExists)`);
+    }
+
+    const stakingClient = await getStakingClient(hre, taskArgs.contract, signer);
+    const receipt = await stakingClient.transferStake(taskArgs.id, taskArgs.to);
+
+    console.log(`Stake ${taskArgs.id} transferred to ${taskArgs.to} (tx: ${receipt.transactionHash})`);
+  });
+
+task(TASK_STAKE_EMERGENCY_WITHDRAW, "Withdraws staked tokens without rewards in the emergency mode")
+  .addOptionalParam("id", "Stake id", undefined, types.int)
+  .addFlag("all", "Withdraw every Stake of the sender")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .addOptionalParam("from", "Sender address (defaults to the first account)")
+  .setAction(async (taskArgs, hre) => {
+    if ((taskArgs.id !== undefined) === taskArgs.all) {
+      throw new Error("Exactly one of --id or --all must be given");
+    }
+
+    const signer = await getSigner(hre, taskArgs.from);
+    const stakingClient = await getStakingClient(hre, taskArgs.contract, signer);
+
+    if (!(await stakingClient.getContractStatus()).emergencyMode) {
+      throw new Error(
+        "Emergency mode isn't enabled, use unstake instead (StakingPoolFixedApr_EmergencyModeNotEnabled)"
+      );
+    }
+
+    const userStakes = (await stakingClient.getUserStakes(signer.address)).filter(
+      userStake => taskArgs.all || userStake.id === taskArgs.id
+    );
+
+    if (userStakes.length === 0) {
+      throw new Error(
+        taskArgs.all
+          ? `No Stakes for ${signer.address}`
+          : `Stake ${taskArgs.id} doesn't belong to ${signer.address} (StakingPoolFixedApr_StakeNotExists)`
+      );
+    }
+
+    for (const userStake of userStakes) {
+      const { symbol, decimals } = await getTokenMetadata(hre, userStake.token);
+      console.log(
+        `Withdrawing ${utils.formatUnits(userStake.staked, decimals)} ${symbol} of Stake ${userStake.id} ` +
+          `(forfeits ${utils.formatUnits(userStake.rewards, decimals)} ${symbol} rewards)...`
+      );
+
+      const receipt = await stakingClient.emergencyWithdraw(userStake.id);
+
+      console.log(`Stake ${userStake.id} withdrawn (tx: ${receipt.transactionHash})`);
+    }
+  });
+
+task(TASK_STAKES_SHOW, "Prints all Stakes of the user")
+  .addOptionalParam("user", "User address (defaults to the first account)")
+  .addOptionalParam("contract", "StakingPoolsFixedApr address (defaults to the deployment)")
+  .setAction(async (taskArgs, hre) => {
+    const user: string = taskArgs.user || (await getSigner(hre)).address;
+    const stakingClient = await getStakingClient(hre, taskArgs.contract);
+    const latestTimestamp = await getLatestTimestamp(hre);
+
+    const userStakes = await stakingClient.getUserStakes(user);
+
+    if (userStakes.length === 0) {
+      console.log(`No Stakes for ${user}`);
+      return;
+    }
+
+    if ((await stakingClient.getContractStatus()).emergencyMode) {
+      console.log(`Emergency mode is enabled, withdraw staked tokens with ${TASK_STAKE_EMERGENCY_WITHDRAW}`);
+    }
+
+    const tokens: { [address: string]: TokenMetadata } = {};
+    for (const userStake of userStakes) {
+      if (!tokens[userStake.token]) {
+        tokens[userStake.token] = await getTokenMetadata(hre, userStake.token);
+      }
+    }
+
+    console.table(
+      userStakes.map(userStake => {
+        const { symbol, decimals } = tokens[userStake.token];
+        const unstakePossibleAt = Math.floor(userStake.maturity.getTime() / 1000);
+
+        return {
+          id: userStake.id,
+          pool: userStake.stakingPoolId,
+          token: symbol,
+          staked: utils.formatUnits(userStake.staked, decimals),
+          rewards: utils.formatUnits(userStake.rewards, decimals),
+          payout: utils.formatUnits(userStake.payout, decimals),
+          unstakePossibleAt: formatTimestamp(unstakePossibleAt),
+          maturesIn:
+            unstakePossibleAt <= latestTimestamp ? "matured" : formatDuration(unstakePossibleAt - latestTimestamp),
+        };
+      })
+    );
+  });
+
+async function unstake(stakingContract: StakingPoolsFixedApr, stakeId: number) {
+  console.log(`Unstaking Stake ${stakeId}...`);
+
+  const tx = await stakingContract.unstake(stakeId);
+  const receipt = await tx.wait();
+
+  console.log(`Stake ${stakeId} unstaked (tx: ${receipt.transactionHash})`);
+}
@@ -1 +1,32 @@
 export const TASK_ACCOUNTS: string = "accounts";
+
+export const TASK_POOL_ADD: string = "pool:add";
+export const TASK_POOL_LIST: string = "pool:list";
+export const TASK_POOL_WITHDRAW_UNUSED: string = "pool:withdraw-unused";
+export const TASK_POOL_TOPUP: string = "pool:topup";
+export const TASK_POOL_EXTEND: string = "pool:extend";
+export const TASK_POOLS_APPLY: string = "pools:apply";
+export const TASK_POOLS_BUDGET: string = "pools:budget";
+
+export const TASK_STAKE: string = "stake";
+export const TASK_UNSTAKE: string = "unstake";
+export const TASK_STAKES_SHOW: string = "stakes:show";
+export const TASK_STAKE_TRANSFER: string = "stake:transfer";
+export const TASK_STAKE_EMERGENCY_WITHDRAW: string = "stake:emergency-withdraw";
+
+export const TASK_CONTRACT_STATUS: string = "contract:status";
+export const TASK_CONTRACT_PAUSE: string = "contract:pause";
+export const TASK_CONTRACT_UNPAUSE: string = "contract:unpause";
+export const TASK_CONTRACT_EMERGENCY: string = "contract:emergency";
+
+export const TASK_OWNER_PROPOSE: string = "owner:propose";
+export const TASK_OWNER_ACCEPT: string = "owner:accept";
+export const TASK_ROLES_GRANT: string = "roles:grant";
+export const TASK_ROLES_REVOKE: string = "roles:revoke";
+export const TASK_TREASURY_SET: string = "treasury:set";
+
+export const TASK_INDEXER_SYNC: string = "indexer:sync";
+
+export const TASK_EXPORT_MANIFEST: string = "export:manifest";
+
+export const TASK_GAS_BENCHMARK: string = "gas:benchmark";
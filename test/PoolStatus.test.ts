@@ -0,0 +1,224 @@
+import { expect } from "chai";
+
+import {
+  deployStakingFixture,
+  EARLY_UNSTAKE_DISABLED,
+  getBigNumber,
+  getLastBlockTimestamp,
+  loadFixture,
+  setNextBlockTimestamp,
+  setNextBlockTimestampAndAdvanceBlock,
+  StakingFixture,
+} from "./utilities";
+
+import { calculatePoolStatus, PoolStatus } from "../sdk";
+
+const YEAR = 31_536_000;
+
+interface PoolStatusFixture extends StakingFixture {
+  startTime: number;
+  endTime: number;
+}
+
+// Pool with 1 000 rewards and 100% APR lasting 1 year, so the Stake of 1 000 tokens made before the start reserves
+// all rewards.
+async function poolStatusFixture(): Promise<PoolStatusFixture> {
+  const fixture = await deployStakingFixture();
+  const { stakingContract, erc20fee } = fixture;
+
+  await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+  await erc20fee.approve(stakingContract.address, getBigNumber(1_000));
+
+  const startTime = (await getLastBlockTimestamp()) + 3_600;
+  const endTime = startTime + YEAR;
+
+  await stakingContract.addStakingPool(
+    getBigNumber(1_000),
+    getBigNumber(1),
+    erc20fee.address,
+    startTime,
+    endTime,
+    10_000,
+    EARLY_UNSTAKE_DISABLED
+  );
+
+  return { ...fixture, startTime, endTime };
+}
+
+describe("Pool status", () => {
+  let fixture: PoolStatusFixture;
+
+  beforeEach(async () => {
+    fixture = await loadFixture(poolStatusFixture);
+  });
+
+  // Compares the status from the contract DTO with the TypeScript one at the current block timestamp.
+  async function expectStatus(expected: PoolStatus) {
+    const stakingPool = await fixture.stakingContract.getStakingPool(1);
+    const timestamp = await getLastBlockTimestamp();
+
+    const calculated = calculatePoolStatus(
+      {
+        rewardsAdded: stakingPool.rewardsAdded,
+        rewardsDistributed: stakingPool.rewardsDistributed,
+        startTime: stakingPool.startTime.toNumber(),
+        endTime: stakingPool.endTime.toNumber(),
+      },
+      timestamp
+    );
+
+    expect(stakingPool.status).to.be.equal(expected);
+    expect(calculated).to.be.equal(expected);
+  }
+
+  async function stakeAllRewards() {
+    const { stakingContract, erc20fee, alice } = fixture;
+
+    await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
+    await stakingContract.connect(alice).stake(1, getBigNumber(1_000));
+  }
+
+  describe("Contract status tests", () => {
+    it("Should be Pending before start time", async () => {
+      await setNextBlockTimestampAndAdvanceBlock(fixture.startTime - 1);
+
+      await expectStatus(PoolStatus.Pending);
+    });
+
+    it("Should be Open when start time is equal current timestamp", async () => {
+      await setNextBlockTimestampAndAdvanceBlock(fixture.startTime);
+
+      await expectStatus(PoolStatus.Open);
+    });
+
+    it("Should be Open until end time", async () => {
+      await setNextBlockTimestampAndAdvanceBlock(fixture.endTime - 1);
+
+      await expectStatus(PoolStatus.Open);
+    });
+
+    it("Should be Ended when end time is equal current timestamp", async () => {
+      await setNextBlockTimestampAndAdvanceBlock(fixture.endTime);
+
+      await expectStatus(PoolStatus.Ended);
+    });
+
+    it("Should be Finalized after unused rewards are withdrawn", async () => {
+      await setNextBlockTimestampAndAdvanceBlock(fixture.endTime + 1);
+      await expectStatus(PoolStatus.Ended);
+
+      await fixture.stakingContract.withdrawUnusedRewards(1);
+
+      await expectStatus(PoolStatus.Finalized);
+    });
+
+    it("Should allow to withdraw unused rewards when end time is equal current timestamp", async () => {
+      const { stakingContract, endTime } = fixture;
+
+      await setNextBlockTimestamp(endTime - 1);
+      await expect(stakingContract.withdrawUnusedRewards(1)).to.be.revertedWithCustomError(
+        stakingContract,
+        "StakingPoolFixedApr_CannotBeforeEndTime"
+      );
+
+      await setNextBlockTimestamp(endTime);
+      await expect(stakingContract.withdrawUnusedRewards(1)).to.emit(stakingContract, "Withdrawn");
+
+      expect(await getLastBlockTimestamp()).to.be.equal(endTime);
+      await expectStatus(PoolStatus.Finalized);
+    });
+
+    it("Should be Full when all rewards are reserved before start time", async () => {
+      await stakeAllRewards();
+
+      await expectStatus(PoolStatus.Full);
+    });
+
+    it("Should be Full when all rewards are reserved after start time", async () => {
+      await stakeAllRewards();
+      await setNextBlockTimestampAndAdvanceBlock(fixture.startTime);
+
+      await expectStatus(PoolStatus.Full);
+    });
+
+    it("Should be Finalized when fully distributed Pool ends", async () => {
+      await stakeAllRewards();
+      await setNextBlockTimestampAndAdvanceBlock(fixture.endTime);
+
+      await expectStatus(PoolStatus.Finalized);
+    });
+
+    it("Should stay Open when Stake reserves only part of the rewards", async () => {
+      const { stakingContract, erc20fee, alice } = fixture;
+
+      await setNextBlockTimestampAndAdvanceBlock(fixture.startTime);
+      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
+      await stakingContract.connect(alice).stake(1, getBigNumber(1_000));
+
+      // Stake made after the start earns rewards for the shorter period.
+      await expectStatus(PoolStatus.Open);
+    });
+  });
+
+  describe("'getStakingPoolStatus' function tests", () => {
+    it("Should match 'calculatePoolStatus' at every boundary", async () => {
+      const { stakingContract, startTime, endTime } = fixture;
+
+      const timestamps = [0, startTime - 1, startTime, startTime + 1, endTime - 1, endTime, endTime + 1];
+
+      for (const stakeAll of [false, true]) {
+        if (stakeAll) await stakeAllRewards();
+
+        const stakingPool = await stakingContract.getStakingPool(1);
+
+        for (const timestamp of timestamps) {
+          const calculated = calculatePoolStatus(
+            {
+              rewardsAdded: stakingPool.rewardsAdded,
+              rewardsDistributed: stakingPool.rewardsDistributed,
+              startTime,
+              endTime,
+            },
+            timestamp
+          );
+
+          expect(await stakingContract.getStakingPoolStatus(1, timestamp)).to.be.equal(calculated);
+        }
+      }
+    });
+
+    it("Should return statuses at hypothetical timestamps", async () => {
+      const { stakingContract, startTime, endTime } = fixture;
+
+      expect(await stakingContract.getStakingPoolStatus(1, startTime - 1)).to.be.equal(PoolStatus.Pending);
+      expect(await stakingContract.getStakingPoolStatus(1, startTime)).to.be.equal(PoolStatus.Open);
+      expect(await stakingContract.getStakingPoolStatus(1, endTime)).to.be.equal(PoolStatus.Ended);
+    });
+
+    it("Should revert when Staking Pool doesn't exist", async () => {
+      await expect(fixture.stakingContract.getStakingPoolStatus(2, 0)).to.be.revertedWithCustomError(
+        fixture.stakingContract,
+        "StakingPoolFixedApr_PoolNotExists"
+      );
+    });
+  });
+
+  describe("'calculatePoolStatus' function tests", () => {
+    const stakingPool = { rewardsAdded: 100, rewardsDistributed: 40, startTime: 1_000, endTime: 2_000 };
+
+    it("Should calculate status at every boundary", async () => {
+      expect(calculatePoolStatus(stakingPool, 999)).to.be.equal(PoolStatus.Pending);
+      expect(calculatePoolStatus(stakingPool, 1_000)).to.be.equal(PoolStatus.Open);
+      expect(calculatePoolStatus(stakingPool, 1_999)).to.be.equal(PoolStatus.Open);
+      expect(calculatePoolStatus(stakingPool, 2_000)).to.be.equal(PoolStatus.Ended);
+    });
+
+    it("Should calculate status of fully distributed Pool", async () => {
+      const fullPool = { ...stakingPool, rewardsDistributed: 100 };
+
+      expect(calculatePoolStatus(fullPool, 999)).to.be.equal(PoolStatus.Full);
+      expect(calculatePoolStatus(fullPool, 1_999)).to.be.equal(PoolStatus.Full);
+      expect(calculatePoolStatus(fullPool, 2_000)).to.be.equal(PoolStatus.Finalized);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { EARLY_UNSTAKE_DISABLED, getBigNumber, getLastBlockTimestamp, getSeed, Random } from "./utilities";
+
+import { StakingPoolsFixedApr, ERC20FeeMock } from "../typechain";
+import { BigNumber, constants } from "ethers";
+import {
+  calculateMaxStakeAmount,
+  calculateRewards,
+  calculateStakeRewards,
+  calculateStartTime,
+  divPrecisely,
+  mulTruncate,
+} from "../sdk";
+
+describe("Reward math", () => {
+  describe("StableMath functions tests", () => {
+    it("Should truncate like StableMath", async () => {
+      expect(mulTruncate(getBigNumber(3), BigNumber.from(10).pow(17).mul(5))).to.be.equal(
+        BigNumber.from(10).pow(17).mul(15)
+      );
+      expect(mulTruncate(1, 1)).to.be.equal(0);
+      expect(divPrecisely(8, 10)).to.be.equal(BigNumber.from(10).pow(17).mul(8));
+      expect(divPrecisely(1, 3)).to.be.equal(BigNumber.from("333333333333333333"));
+    });
+  });
+
+  describe("'calculateRewards' function tests", () => {
+    it("Should reproduce rewards hard-coded in the contract tests", async () => {
+      expect(calculateRewards(getBigNumber(1_000), 0, 3_600, 1_000)).to.be.equal(BigNumber.from("11415525114155200"));
+      expect(calculateRewards(getBigNumber(2_000), 0, 3_600, 1_000)).to.be.equal(BigNumber.from("22831050228310400"));
+      expect(calculateRewards(getBigNumber(4_000), 0, 3_600, 1_000)).to.be.equal(BigNumber.from("45662100456620800"));
+    });
+
+    it("Should return rewards for the whole year equal APR", async () => {
+      expect(calculateRewards(getBigNumber(1_000), 0, 31_536_000, 1_250)).to.be.equal(getBigNumber(125));
+    });
+
+    it("Should truncate small amounts to zero", async () => {
+      expect(calculateRewards(9, 0, 31_536_000, 1_000)).to.be.equal(0);
+      expect(calculateRewards(10, 0, 31_536_000, 1_000)).to.be.equal(1);
+    });
+
+    it("Should throw when end time is before start time", async () => {
+      expect(() => calculateRewards(1, 10, 9, 1_000)).to.throw(RangeError);
+    });
+  });
+
+  describe("'calculateStakeRewards' function tests", () => {
+    it("Should earn rewards from the later of current and Pool start time", async () => {
+      const stakingPool = { startTime: 1_000, endTime: 4_600, apr: 1_000 };
+
+      expect(calculateStartTime(500, 1_000)).to.be.equal(1_000);
+      expect(calculateStartTime(2_000, 1_000)).to.be.equal(2_000);
+      expect(calculateStakeRewards(getBigNumber(4_000), stakingPool, 500)).to.be.equal(
+        BigNumber.from("45662100456620800")
+      );
+      expect(calculateStakeRewards(getBigNumber(4_000), stakingPool, 1_000 + 1_800)).to.be.equal(
+        calculateRewards(getBigNumber(4_000), 0, 1_800, 1_000)
+      );
+    });
+  });
+
+  describe("'calculateMaxStakeAmount' function tests", () => {
+    it("Should return the highest amount with rewards within the remaining rewards", async () => {
+      const stakingPool = { startTime: 1_000, endTime: 1_000 + 31_536_000, apr: 1_250 };
+
+      // 12.5% of 80 000 is exactly 10 000, amounts are truncated by 'amount * apr / 10000'.
+      expect(calculateMaxStakeAmount(getBigNumber(10_000), stakingPool, 0)).to.be.equal(getBigNumber(80_000).add(7));
+      expect(calculateMaxStakeAmount(0, stakingPool, 0)).to.be.equal(7);
+    });
+
+    it("Should grow as the rewards period shortens", async () => {
+      const stakingPool = { startTime: 0, endTime: 31_536_000, apr: 1_000 };
+
+      const atStart = calculateMaxStakeAmount(getBigNumber(100), stakingPool, 0);
+      const inHalf = calculateMaxStakeAmount(getBigNumber(100), stakingPool, 15_768_000);
+
+      expect(calculateStakeRewards(atStart, stakingPool, 0)).to.be.lte(getBigNumber(100));
+      expect(calculateStakeRewards(atStart.add(1), stakingPool, 0)).to.be.gt(getBigNumber(100));
+      expect(inHalf).to.be.gte(atStart.mul(2));
+    });
+
+    it("Should return 0 for the Pool with zero APR", async () => {
+      expect(calculateMaxStakeAmount(getBigNumber(100), { startTime: 0, endTime: 31_536_000, apr: 0 }, 0)).to.be.equal(
+        0
+      );
+    });
+
+    it("Should be capped at the max uint256", async () => {
+      const stakingPool = { startTime: 0, endTime: 31_536_000, apr: 1 };
+
+      expect(calculateMaxStakeAmount(constants.MaxUint256, stakingPool, 0)).to.be.equal(constants.MaxUint256);
+    });
+
+    it("Should return 0 for the closed Pool", async () => {
+      expect(calculateMaxStakeAmount(getBigNumber(100), { startTime: 0, endTime: 100, apr: 1_000 }, 100)).to.be.equal(
+        0
+      );
+    });
+  });
+
+  describe("Cross-check against the contract", () => {
+    const POOLS = 100;
+    const AMOUNTS_PER_POOL = 40;
+
+    let stakingContract: StakingPoolsFixedApr;
+    let erc20fee: ERC20FeeMock;
+
+    before(async () => {
+      const stakingContractFactory = await ethers.getContractFactory("StakingPoolsFixedApr");
+      stakingContract = (await stakingContractFactory.deploy()) as StakingPoolsFixedApr;
+
+      const erc20feeFactory = await ethers.getContractFactory("ERC20FeeMock");
+      erc20fee = (await erc20feeFactory.deploy(getBigNumber(1_000_000))) as ERC20FeeMock;
+
+      const [deployer] = await ethers.getSigners();
+      await erc20fee.updateExcludedFromFee(deployer.address, true);
+      await erc20fee.approve(stakingContract.address, ethers.constants.MaxUint256);
+    });
+
+    it("Should match the contract for random inputs", async function () {
+      this.timeout(300_000);
+
+      const seed = getSeed();
+      const random = new Random(seed);
+
+      // Pools start far in the future, so the contract uses their start time instead of block timestamp.
+      const lastBlockTime = await getLastBlockTimestamp();
+      const stakingPools: { startTime: number; endTime: number; apr: number }[] = [];
+
+      for (let i = 0; i < POOLS; i++) {
+        const startTime = lastBlockTime + 1_000_000 + random.int(0, 1_000_000);
+        const endTime = startTime + random.pick([1, random.int(1, 86_400), random.int(1, 5 * 31_536_000)]);
+        const apr = random.pick([1, random.int(1, 65_535), 65_535]);
+
+        await stakingContract.addStakingPool(1, 0, erc20fee.address, startTime, endTime, apr, EARLY_UNSTAKE_DISABLED);
+        stakingPools.push({ startTime, endTime, apr });
+      }
+
+      for (let i = 0; i < POOLS; i++) {
+        for (let j = 0; j < AMOUNTS_PER_POOL; j++) {
+          const amount = random.bigNumber(random.pick([3, 18, 30, 50]));
+
+          const expected = await stakingContract.calculateRewards(i + 1, amount);
+          const actual = calculateStakeRewards(amount, stakingPools[i], lastBlockTime);
+
+          expect(actual, `seed ${seed}, pool ${JSON.stringify(stakingPools[i])}, amount ${amount}`).to.be.equal(
+            expected
+          );
+        }
+      }
+    });
+  });
+});
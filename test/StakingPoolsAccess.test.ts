@@ -0,0 +1,388 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { ContractTransaction } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+import {
+  ADDRESS_ZERO,
+  deployStakingFixture,
+  EARLY_UNSTAKE_DISABLED,
+  getBigNumber,
+  getLastBlockTimestamp,
+  loadFixture,
+  setNextBlockTimestampAndAdvanceBlock,
+  StakingFixture,
+} from "./utilities";
+
+import { StakingPoolsFixedApr } from "../typechain";
+import {
+  decodeStakingPoolsError,
+  EarlyUnstakeMode,
+  NotPendingOwnerError,
+  NotPoolOperatorError,
+  StakingPoolsClient,
+} from "../sdk";
+
+interface AccessFixture extends StakingFixture {
+  startTime: number;
+  endTime: number;
+}
+
+// Pool 1 with 10 000 rewards and 10% APR lasting 1 hour, alice is the pool operator and bob has no role. The
+// contract is excluded from the token fee and all accounts approved it.
+async function accessFixture(): Promise<AccessFixture> {
+  // Deploys without the shared snapshot, reverting to it after time jumps of these tests would break other suites.
+  const fixture = await deployStakingFixture();
+  const { deployer, alice, bob, stakingContract, erc20fee } = fixture;
+
+  await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+
+  for (const account of [deployer, alice, bob]) {
+    await erc20fee.connect(account).approve(stakingContract.address, ethers.constants.MaxUint256);
+  }
+
+  const startTime = (await getLastBlockTimestamp()) + 60;
+  const endTime = startTime + 3_600;
+
+  await stakingContract.addStakingPool(
+    getBigNumber(10_000),
+    getBigNumber(1),
+    erc20fee.address,
+    startTime,
+    endTime,
+    1_000,
+    EARLY_UNSTAKE_DISABLED
+  );
+  await stakingContract.setPoolOperator(alice.address, true);
+
+  return { ...fixture, startTime, endTime };
+}
+
+type Role = "owner" | "operator" | "stranger";
+
+interface RestrictedAction {
+  name: string;
+  // Prepares the state in which the action succeeds for the allowed caller.
+  prepare?: (fixture: AccessFixture) => Promise<unknown>;
+  call: (stakingContract: StakingPoolsFixedApr, fixture: AccessFixture) => Promise<ContractTransaction>;
+  // Custom error of every role, undefined when the role is allowed.
+  errors: { [role in Role]?: string };
+}
+
+describe("Access control", () => {
+  let fixture: AccessFixture;
+
+  const Ownable_NotOwner_Error = "Ownable_NotOwner";
+  const Ownable_NotPendingOwner_Error = "Ownable_NotPendingOwner";
+  const StakingPoolFixedApr_NotPoolOperator_Error = "StakingPoolFixedApr_NotPoolOperator";
+  const StakingPoolFixedApr_ZeroAddress_Error = "StakingPoolFixedApr_ZeroAddress";
+
+  const OWNER_ONLY = { operator: Ownable_NotOwner_Error, stranger: Ownable_NotOwner_Error };
+  const POOL_OPERATOR = { stranger: StakingPoolFixedApr_NotPoolOperator_Error };
+
+  const ACTIONS: RestrictedAction[] = [
+    {
+      name: "addStakingPool",
+      call: (stakingContract, { erc20fee, endTime }) =>
+        stakingContract.addStakingPool(
+          getBigNumber(1_000),
+          0,
+          erc20fee.address,
+          endTime,
+          endTime + 3_600,
+          1_000,
+          EARLY_UNSTAKE_DISABLED
+        ),
+      errors: POOL_OPERATOR,
+    },
+    {
+      name: "addStakingPools",
+      call: (stakingContract, { erc20fee, endTime }) =>
+        stakingContract.addStakingPools([
+          {
+            rewardsAmount: getBigNumber(1_000),
+            minimumToStake: 0,
+            token: erc20fee.address,
+            startTime: endTime,
+            endTime: endTime + 3_600,
+            apr: 1_000,
+            earlyUnstake: EARLY_UNSTAKE_DISABLED,
+          },
+        ]),
+      errors: POOL_OPERATOR,
+    },
+    {
+      name: "topUpRewards",
+      call: stakingContract => stakingContract.topUpRewards(1, getBigNumber(1_000)),
+      errors: OWNER_ONLY,
+    },
+    {
+      name: "extendStakingPool",
+      call: (stakingContract, { endTime }) => stakingContract.extendStakingPool(1, endTime + 3_600),
+      errors: OWNER_ONLY,
+    },
+    {
+      name: "withdrawUnusedRewards",
+      prepare: ({ endTime }) => setNextBlockTimestampAndAdvanceBlock(endTime + 1),
+      call: stakingContract => stakingContract.withdrawUnusedRewards(1),
+      errors: OWNER_ONLY,
+    },
+    {
+      name: "pause",
+      call: stakingContract => stakingContract.pause(),
+      errors: OWNER_ONLY,
+    },
+    {
+      name: "unpause",
+      prepare: ({ stakingContract }) => stakingContract.pause(),
+      call: stakingContract => stakingContract.unpause(),
+      errors: OWNER_ONLY,
+    },
+    {
+      name: "enableEmergencyMode",
+      call: stakingContract => stakingContract.enableEmergencyMode(),
+      errors: OWNER_ONLY,
+    },
+    {
+      name: "setPoolOperator",
+      call: (stakingContract, { bob }) => stakingContract.setPoolOperator(bob.address, true),
+      errors: OWNER_ONLY,
+    },
+    {
+      name: "setTreasury",
+      call: (stakingContract, { bob }) => stakingContract.setTreasury(bob.address),
+      errors: OWNER_ONLY,
+    },
+    {
+      name: "transferOwnership",
+      call: (stakingContract, { bob }) => stakingContract.transferOwnership(bob.address, false),
+      errors: OWNER_ONLY,
+    },
+  ];
+
+  beforeEach(async () => {
+    fixture = await loadFixture(accessFixture);
+  });
+
+  function getSigner(role: Role): SignerWithAddress {
+    return { owner: fixture.deployer, operator: fixture.alice, stranger: fixture.bob }[role];
+  }
+
+  describe("Permission matrix", () => {
+    for (const action of ACTIONS) {
+      for (const role of ["owner", "operator", "stranger"] as Role[]) {
+        const error = action.errors[role];
+
+        it(`'${action.name}' should ${error ? `revert with ${error}` : "work"} for the ${role}`, async () => {
+          const { stakingContract } = fixture;
+
+          await action.prepare?.(fixture);
+          const transaction = action.call(stakingContract.connect(getSigner(role)), fixture);
+
+          if (error) {
+            await expect(transaction).to.be.revertedWithCustomError(stakingContract, error);
+          } else {
+            await expect(transaction).not.to.be.reverted;
+          }
+        });
+      }
+    }
+  });
+
+  describe("'setPoolOperator' function tests", () => {
+    it("Should grant the role and emit PoolOperatorUpdated event", async () => {
+      const { bob, stakingContract } = fixture;
+
+      await expect(stakingContract.setPoolOperator(bob.address, true))
+        .to.emit(stakingContract, "PoolOperatorUpdated")
+        .withArgs(bob.address, true);
+
+      expect(await stakingContract.poolOperators(bob.address)).to.be.true;
+    });
+
+    it("Should revoke the role so the account cannot add Pools anymore", async () => {
+      const { alice, stakingContract, erc20fee, endTime } = fixture;
+
+      await expect(stakingContract.setPoolOperator(alice.address, false))
+        .to.emit(stakingContract, "PoolOperatorUpdated")
+        .withArgs(alice.address, false);
+
+      await expect(
+        stakingContract
+          .connect(alice)
+          .addStakingPool(
+            getBigNumber(1_000),
+            0,
+            erc20fee.address,
+            endTime,
+            endTime + 3_600,
+            1_000,
+            EARLY_UNSTAKE_DISABLED
+          )
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_NotPoolOperator_Error);
+    });
+
+    it("Should revert for zero address", async () => {
+      const { stakingContract } = fixture;
+
+      await expect(stakingContract.setPoolOperator(ADDRESS_ZERO, true)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_ZeroAddress_Error
+      );
+    });
+  });
+
+  describe("Two-step ownership transfer tests", () => {
+    it("Should propose the owner and emit OwnershipTransferStarted event", async () => {
+      const { deployer, bob, stakingContract } = fixture;
+
+      await expect(stakingContract.transferOwnership(bob.address, false))
+        .to.emit(stakingContract, "OwnershipTransferStarted")
+        .withArgs(deployer.address, bob.address);
+
+      expect(await stakingContract.owner()).to.be.equal(deployer.address);
+      expect(await stakingContract.pendingOwner()).to.be.equal(bob.address);
+    });
+
+    it("Should transfer the ownership when the proposed owner accepts it", async () => {
+      const { deployer, bob, stakingContract } = fixture;
+
+      await stakingContract.transferOwnership(bob.address, false);
+
+      await expect(stakingContract.connect(bob).claimOwnership())
+        .to.emit(stakingContract, "OwnershipTransferred")
+        .withArgs(deployer.address, bob.address);
+
+      expect(await stakingContract.owner()).to.be.equal(bob.address);
+      expect(await stakingContract.pendingOwner()).to.be.equal(ADDRESS_ZERO);
+
+      await expect(stakingContract.pause()).to.be.revertedWithCustomError(stakingContract, Ownable_NotOwner_Error);
+      await expect(stakingContract.connect(bob).pause()).to.emit(stakingContract, "Paused");
+    });
+
+    it("Should keep pool operators after the ownership transfer", async () => {
+      const { alice, bob, stakingContract } = fixture;
+
+      await stakingContract.transferOwnership(bob.address, false);
+      await stakingContract.connect(bob).claimOwnership();
+
+      expect(await stakingContract.poolOperators(alice.address)).to.be.true;
+    });
+
+    it("Should replace the proposal when the owner proposes another owner", async () => {
+      const { alice, bob, stakingContract } = fixture;
+
+      await stakingContract.transferOwnership(bob.address, false);
+      await stakingContract.transferOwnership(alice.address, false);
+
+      await expect(stakingContract.connect(bob).claimOwnership()).to.be.revertedWithCustomError(
+        stakingContract,
+        Ownable_NotPendingOwner_Error
+      );
+    });
+
+    it("Should revert when caller isn't the pending owner", async () => {
+      const { alice, bob, stakingContract } = fixture;
+
+      await stakingContract.transferOwnership(bob.address, false);
+
+      await expect(stakingContract.connect(alice).claimOwnership()).to.be.revertedWithCustomError(
+        stakingContract,
+        Ownable_NotPendingOwner_Error
+      );
+    });
+  });
+
+  describe("Treasury tests", () => {
+    it("Should return the owner when the treasury isn't set", async () => {
+      const { deployer, stakingContract } = fixture;
+
+      expect(await stakingContract.getTreasury()).to.be.equal(deployer.address);
+    });
+
+    it("Should set the treasury and emit TreasuryUpdated event", async () => {
+      const { bob, stakingContract } = fixture;
+
+      await expect(stakingContract.setTreasury(bob.address))
+        .to.emit(stakingContract, "TreasuryUpdated")
+        .withArgs(bob.address);
+
+      expect(await stakingContract.getTreasury()).to.be.equal(bob.address);
+    });
+
+    it("Should withdraw unused rewards to the treasury", async () => {
+      const { deployer, bob, stakingContract, erc20fee, endTime } = fixture;
+
+      await stakingContract.setTreasury(bob.address);
+      await setNextBlockTimestampAndAdvanceBlock(endTime + 1);
+
+      const ownerBalance = await erc20fee.balanceOf(deployer.address);
+
+      await stakingContract.withdrawUnusedRewards(1);
+
+      expect(await erc20fee.balanceOf(bob.address)).to.be.equal(getBigNumber(20_000));
+      expect(await erc20fee.balanceOf(deployer.address)).to.be.equal(ownerBalance);
+    });
+
+    it("Should withdraw unused rewards to the new owner when the treasury is reset", async () => {
+      const { alice, bob, stakingContract, erc20fee, endTime } = fixture;
+
+      await stakingContract.setTreasury(alice.address);
+      await stakingContract.setTreasury(ADDRESS_ZERO);
+      await stakingContract.transferOwnership(bob.address, false);
+      await stakingContract.connect(bob).claimOwnership();
+      await setNextBlockTimestampAndAdvanceBlock(endTime + 1);
+
+      await stakingContract.connect(bob).withdrawUnusedRewards(1);
+
+      expect(await erc20fee.balanceOf(bob.address)).to.be.equal(getBigNumber(20_000));
+      expect(await erc20fee.balanceOf(alice.address)).to.be.equal(getBigNumber(10_000));
+    });
+  });
+
+  describe("StakingPoolsClient access functions tests", () => {
+    it("Should return the owner, pending owner and treasury", async () => {
+      const { deployer, bob, stakingContract } = fixture;
+      const client = new StakingPoolsClient(stakingContract);
+
+      await stakingContract.transferOwnership(bob.address, false);
+
+      expect(await client.getContractRoles()).to.be.deep.equal({
+        owner: deployer.address,
+        pendingOwner: bob.address,
+        treasury: deployer.address,
+      });
+    });
+
+    it("Should return whether the account can add Pools", async () => {
+      const { deployer, alice, bob, stakingContract } = fixture;
+      const client = new StakingPoolsClient(stakingContract);
+
+      expect(await client.canAddPools(deployer.address)).to.be.true;
+      expect(await client.canAddPools(alice.address.toLowerCase())).to.be.true;
+      expect(await client.canAddPools(bob.address)).to.be.false;
+    });
+
+    it("Should throw typed errors for unauthorized calls", async () => {
+      const { bob, stakingContract, erc20fee, endTime } = fixture;
+      const client = new StakingPoolsClient(stakingContract.connect(bob));
+      const pool = {
+        token: erc20fee.address,
+        rewards: getBigNumber(1_000),
+        minimumToStake: 0,
+        startTime: endTime,
+        endTime: endTime + 3_600,
+        aprBasisPoints: 1_000,
+        earlyUnstake: { mode: EarlyUnstakeMode.Disabled, principalFee: 0 },
+      };
+
+      expect(await client.addStakingPools([pool]).catch(e => e)).to.be.instanceOf(NotPoolOperatorError);
+      expect(
+        await stakingContract
+          .connect(bob)
+          .claimOwnership()
+          .catch(e => decodeStakingPoolsError(e, stakingContract.interface))
+      ).to.be.instanceOf(NotPendingOwnerError);
+    });
+  });
+});
@@ -0,0 +1,435 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+  EARLY_UNSTAKE_DISABLED,
+  getBigNumber,
+  getLastBlockTimestamp,
+  setNextBlockTimestampAndAdvanceBlock,
+} from "./utilities";
+
+import { StakingPoolsFixedApr, ERC20FeeMock } from "../typechain";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import {
+  AmountIsBelowMinimumToStakeError,
+  CannotUnstakeYetError,
+  EarlyUnstakeMode,
+  EmergencyModeNotEnabledError,
+  MissingEventError,
+  NotEnoughTokensForRewardError,
+  PausedError,
+  PoolClosedError,
+  PoolNotExistsError,
+  PoolStatus,
+  StakeNotExistsError,
+  StakingPoolsClient,
+  StakingPoolsError,
+  ZeroAddressError,
+  decodeStakingPoolsError,
+} from "../sdk";
+
+describe("StakingPoolsClient", () => {
+  let [deployer, alice]: SignerWithAddress[] = [];
+
+  let lastBlockTime: number;
+
+  let stakingContract: StakingPoolsFixedApr;
+  let erc20fee: ERC20FeeMock;
+  let client: StakingPoolsClient;
+
+  beforeEach(async () => {
+    [deployer, alice] = await ethers.getSigners();
+
+    const stakingContractFactory = await ethers.getContractFactory("StakingPoolsFixedApr");
+    stakingContract = (await stakingContractFactory.deploy()) as StakingPoolsFixedApr;
+
+    const erc20feeFactory = await ethers.getContractFactory("ERC20FeeMock");
+    erc20fee = (await erc20feeFactory.deploy(getBigNumber(1_000_000))) as ERC20FeeMock;
+
+    await erc20fee.updateExcludedFromFee(deployer.address, true);
+    await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+    await erc20fee.transfer(alice.address, getBigNumber(10_000));
+
+    lastBlockTime = await getLastBlockTimestamp();
+
+    await erc20fee.approve(stakingContract.address, getBigNumber(10_100));
+    await stakingContract.addStakingPool(
+      getBigNumber(10_000),
+      getBigNumber(1),
+      erc20fee.address,
+      lastBlockTime + 60,
+      lastBlockTime + 31_536_060,
+      1_250,
+      EARLY_UNSTAKE_DISABLED
+    );
+    await stakingContract.addStakingPool(
+      getBigNumber(100),
+      getBigNumber(1),
+      erc20fee.address,
+      lastBlockTime + 60,
+      lastBlockTime + 3_660,
+      1_000,
+      EARLY_UNSTAKE_DISABLED
+    );
+
+    client = new StakingPoolsClient(stakingContract.connect(alice));
+  });
+
+  describe("'getPools' function tests", () => {
+    it("Should return decoded Staking Pools", async () => {
+      const pools = await client.getPools();
+
+      expect(pools.length).to.be.equal(2);
+      expect(pools[0].id).to.be.equal(1);
+      expect(pools[0].token).to.be.equal(erc20fee.address);
+      expect(pools[0].remainingRewards).to.be.equal(getBigNumber(10_000));
+      expect(pools[0].apr).to.be.equal(0.125);
+      expect(pools[0].aprBasisPoints).to.be.equal(1_250);
+      expect(pools[0].startTime.getTime()).to.be.equal((lastBlockTime + 60) * 1000);
+      expect(pools[0].endTime.getTime()).to.be.equal((lastBlockTime + 31_536_060) * 1000);
+      expect(pools[0].earlyUnstake).to.be.deep.equal(EARLY_UNSTAKE_DISABLED);
+      expect(pools[0].status).to.be.equal(PoolStatus.Pending);
+    });
+
+    it("Should fetch all pages and filter Staking Pools by status and token", async () => {
+      const pagedClient = new StakingPoolsClient(stakingContract, { pageSize: 1 });
+
+      await setNextBlockTimestampAndAdvanceBlock(lastBlockTime + 3_660);
+
+      expect((await pagedClient.getPools()).map(pool => pool.id)).to.be.deep.equal([1, 2]);
+      expect((await pagedClient.getPools({ status: PoolStatus.Ended })).map(pool => pool.id)).to.be.deep.equal([2]);
+      expect(
+        (await pagedClient.getPools({ status: [PoolStatus.Pending, PoolStatus.Open] })).map(pool => pool.id)
+      ).to.be.deep.equal([1]);
+      expect(await pagedClient.getPools({ token: alice.address })).to.be.empty;
+    });
+
+    it("Should throw for page size 0", async () => {
+      expect(() => new StakingPoolsClient(stakingContract, { pageSize: 0 })).to.throw(
+        "Page size must be greater than 0"
+      );
+    });
+
+    it("Should throw typed error for not existing Staking Pool", async () => {
+      expect(await client.getPool(3).catch(e => e)).to.be.instanceOf(PoolNotExistsError);
+    });
+  });
+
+  describe("'getUserStakes' function tests", () => {
+    it("Should fetch all pages of user Stakes with their Pool tokens", async () => {
+      await client.stakeWithApproval(1, getBigNumber(1_000));
+      await client.stakeWithApproval(2, getBigNumber(1_000));
+      await client.stakeWithApproval(1, getBigNumber(500));
+
+      const userStakes = await new StakingPoolsClient(stakingContract, { pageSize: 2 }).getUserStakes(alice.address);
+
+      expect(userStakes.map(userStake => userStake.id)).to.be.deep.equal([1, 2, 3]);
+      expect(userStakes.map(userStake => userStake.token)).to.be.deep.equal(Array(3).fill(erc20fee.address));
+      expect(userStakes[2].staked).to.be.equal(getBigNumber(500));
+    });
+  });
+
+  describe("'previewStake' function tests", () => {
+    it("Should preview rewards and payout", async () => {
+      const preview = await client.previewStake(1, getBigNumber(1_000));
+
+      expect(preview.rewards).to.be.equal(getBigNumber(125));
+      expect(preview.payout).to.be.equal(getBigNumber(1_125));
+      expect(preview.maturity.getTime()).to.be.equal((lastBlockTime + 31_536_060) * 1000);
+      expect(preview.error).to.be.undefined;
+    });
+
+    it("Should return the likely revert reason", async () => {
+      expect((await client.previewStake(1, 1)).error).to.be.instanceOf(AmountIsBelowMinimumToStakeError);
+      expect((await client.previewStake(1, getBigNumber(1_000_000))).error).to.be.instanceOf(
+        NotEnoughTokensForRewardError
+      );
+
+      await setNextBlockTimestampAndAdvanceBlock(lastBlockTime + 3_660);
+
+      expect((await client.previewStake(2, getBigNumber(1))).error).to.be.instanceOf(PoolClosedError);
+    });
+  });
+
+  describe("'previewUnstake' function tests", () => {
+    it("Should preview early unstake with forfeited rewards and fee", async () => {
+      const startTime = (await getLastBlockTimestamp()) + 60;
+
+      await erc20fee.approve(stakingContract.address, getBigNumber(100));
+      await stakingContract.addStakingPool(
+        getBigNumber(100),
+        0,
+        erc20fee.address,
+        startTime,
+        startTime + 31_536_000,
+        1_000,
+        { mode: EarlyUnstakeMode.ProRata, principalFee: 1_000 }
+      );
+      const { stakeId } = await client.stakeWithApproval(3, getBigNumber(1_000));
+
+      // 1/5 of the Pool duration.
+      await setNextBlockTimestampAndAdvanceBlock(startTime + 73 * 86_400);
+
+      const preview = await client.previewUnstake(stakeId);
+
+      expect(preview.isEarly).to.be.true;
+      expect(preview.rewards).to.be.equal(getBigNumber(20));
+      expect(preview.forfeitedRewards).to.be.equal(getBigNumber(80));
+      expect(preview.fee).to.be.equal(getBigNumber(100));
+      expect(preview.payout).to.be.equal(getBigNumber(920));
+      expect(preview.error).to.be.undefined;
+    });
+
+    it("Should preview matured Stake without penalty", async () => {
+      const { stakeId } = await client.stakeWithApproval(2, getBigNumber(1_000));
+
+      await setNextBlockTimestampAndAdvanceBlock(lastBlockTime + 3_660);
+
+      const preview = await client.previewUnstake(stakeId);
+
+      expect(preview.isEarly).to.be.false;
+      expect(preview.forfeitedRewards).to.be.equal(0);
+      expect(preview.fee).to.be.equal(0);
+      expect(preview.payout).to.be.equal(getBigNumber(1_000).add(preview.rewards));
+      expect(preview.error).to.be.undefined;
+    });
+
+    it("Should return the likely revert reason", async () => {
+      const { stakeId } = await client.stakeWithApproval(1, getBigNumber(1_000));
+
+      expect((await client.previewUnstake(stakeId)).error).to.be.instanceOf(CannotUnstakeYetError);
+      expect(await client.previewUnstake(5).catch(e => e)).to.be.instanceOf(StakeNotExistsError);
+    });
+  });
+
+  describe("'stakeWithApproval' function tests", () => {
+    it("Should approve and stake", async () => {
+      const { stakeId } = await client.stakeWithApproval(1, getBigNumber(1_000));
+
+      expect(stakeId).to.be.equal(1);
+      expect(await erc20fee.balanceOf(stakingContract.address)).to.be.equal(getBigNumber(11_100));
+    });
+
+    it("Should send approve without the stake overrides", async () => {
+      const nonce = await alice.getTransactionCount();
+
+      // Approve takes the current nonce, so the stake nonce is the next one.
+      const { receipt } = await client.stakeWithApproval(1, getBigNumber(1_000), { nonce: nonce + 1 });
+
+      expect((await ethers.provider.getTransaction(receipt.transactionHash)).nonce).to.be.equal(nonce + 1);
+      expect(await alice.getTransactionCount()).to.be.equal(nonce + 2);
+    });
+
+    it("Should throw typed error when stake reverts", async () => {
+      expect(await client.stakeWithApproval(1, getBigNumber(1_000_000)).catch(e => e)).to.be.instanceOf(
+        NotEnoughTokensForRewardError
+      );
+    });
+
+    it("Should throw typed error when receipt doesn't contain the 'Staked' event", async () => {
+      const error = await client["sendStake"](() => erc20fee.connect(alice).approve(stakingContract.address, 1)).catch(
+        e => e
+      );
+
+      expect(error).to.be.instanceOf(MissingEventError);
+      expect(error.eventName).to.be.equal("Staked");
+    });
+  });
+
+  describe("'stakeForWithApproval' function tests", () => {
+    it("Should approve and stake on behalf of the beneficiary", async () => {
+      const { stakeId } = await client.stakeForWithApproval(deployer.address, 1, getBigNumber(1_000));
+
+      expect(stakeId).to.be.equal(1);
+      expect((await stakingContract.stakes(stakeId)).owner).to.be.equal(deployer.address);
+      expect(await erc20fee.balanceOf(alice.address)).to.be.equal(getBigNumber(9_000));
+    });
+
+    it("Should throw typed error for zero address beneficiary", async () => {
+      expect(
+        await client.stakeForWithApproval(ethers.constants.AddressZero, 1, getBigNumber(1_000)).catch(e => e)
+      ).to.be.instanceOf(ZeroAddressError);
+    });
+  });
+
+  describe("'transferStake' function tests", () => {
+    it("Should transfer Stake to the new owner", async () => {
+      const { stakeId } = await client.stakeWithApproval(1, getBigNumber(1_000));
+
+      await client.transferStake(stakeId, deployer.address);
+
+      expect(await client.getUserStakes(alice.address)).to.be.empty;
+      expect((await client.getUserStakes(deployer.address)).map(userStake => userStake.id)).to.be.deep.equal([stakeId]);
+    });
+
+    it("Should throw typed error when Stake doesn't belong to the signer", async () => {
+      expect(await client.transferStake(1, deployer.address).catch(e => e)).to.be.instanceOf(StakeNotExistsError);
+    });
+  });
+
+  describe("'getContractStatus' function tests", () => {
+    it("Should return pause and emergency mode flags", async () => {
+      expect(await client.getContractStatus()).to.be.deep.equal({ paused: false, emergencyMode: false });
+
+      await stakingContract.pause();
+      expect(await client.getContractStatus()).to.be.deep.equal({ paused: true, emergencyMode: false });
+
+      await stakingContract.enableEmergencyMode();
+      expect(await client.getContractStatus()).to.be.deep.equal({ paused: true, emergencyMode: true });
+    });
+
+    it("Should preview Stake of the paused contract with typed error", async () => {
+      await stakingContract.pause();
+
+      expect((await client.previewStake(1, getBigNumber(1_000))).error).to.be.instanceOf(PausedError);
+      expect(await client.stakeWithApproval(1, getBigNumber(1_000)).catch(e => e)).to.be.instanceOf(PausedError);
+    });
+  });
+
+  describe("'emergencyWithdraw' function tests", () => {
+    it("Should withdraw staked tokens without rewards", async () => {
+      const { stakeId } = await client.stakeWithApproval(1, getBigNumber(1_000));
+
+      await stakingContract.enableEmergencyMode();
+      await client.emergencyWithdraw(stakeId);
+
+      expect(await client.getUserStakes(alice.address)).to.be.empty;
+      expect(await erc20fee.balanceOf(alice.address)).to.be.equal(getBigNumber(10_000));
+    });
+
+    it("Should throw typed error when emergency mode isn't enabled", async () => {
+      const { stakeId } = await client.stakeWithApproval(1, getBigNumber(1_000));
+
+      expect(await client.emergencyWithdraw(stakeId).catch(e => e)).to.be.instanceOf(EmergencyModeNotEnabledError);
+    });
+  });
+
+  describe("'unstakeBatch' function tests", () => {
+    it("Should unstake all given Stakes", async () => {
+      await client.stakeWithApproval(2, getBigNumber(100));
+      await client.stakeWithApproval(2, getBigNumber(100));
+      await client.stakeWithApproval(1, getBigNumber(100));
+
+      await setNextBlockTimestampAndAdvanceBlock(lastBlockTime + 3_660);
+      await client.unstakeBatch([1, 2]);
+
+      expect((await client.getUserStakes(alice.address)).map(userStake => userStake.id)).to.be.deep.equal([3]);
+    });
+
+    it("Should throw typed error when any Stake isn't matured", async () => {
+      await client.stakeWithApproval(2, getBigNumber(100));
+      await client.stakeWithApproval(1, getBigNumber(100));
+
+      await setNextBlockTimestampAndAdvanceBlock(lastBlockTime + 3_660);
+
+      expect(await client.unstakeBatch([1, 2]).catch(e => e)).to.be.instanceOf(CannotUnstakeYetError);
+    });
+  });
+
+  describe("'addStakingPools' function tests", () => {
+    it("Should add Staking Pools and return their ids", async () => {
+      const ownerClient = new StakingPoolsClient(stakingContract.connect(deployer));
+      const pool = {
+        token: erc20fee.address,
+        rewards: getBigNumber(100),
+        minimumToStake: getBigNumber(1),
+        startTime: lastBlockTime + 3_600,
+        endTime: lastBlockTime + 7_200,
+        aprBasisPoints: 1_000,
+        earlyUnstake: { mode: EarlyUnstakeMode.Disabled, principalFee: 0 },
+      };
+
+      await erc20fee.approve(stakingContract.address, getBigNumber(200));
+      const { stakingPoolIds } = await ownerClient.addStakingPools([pool, { ...pool, aprBasisPoints: 2_000 }]);
+
+      expect(stakingPoolIds).to.be.deep.equal([3, 4]);
+      expect((await client.getPool(4)).aprBasisPoints).to.be.equal(2_000);
+    });
+  });
+
+  describe("'getUserPortfolio' function tests", () => {
+    it("Should return Stakes with totals and matured Stakes", async () => {
+      await client.stakeWithApproval(1, getBigNumber(1_000));
+      await client.stakeWithApproval(2, getBigNumber(1_000));
+
+      let portfolio = await client.getUserPortfolio(alice.address);
+
+      expect(portfolio.stakes.length).to.be.equal(2);
+      expect(portfolio.maturedStakes.length).to.be.equal(0);
+      expect(portfolio.stakes[0].payout).to.be.equal(portfolio.stakes[0].staked.add(portfolio.stakes[0].rewards));
+      expect(portfolio.stakes[1].maturity.getTime()).to.be.equal((lastBlockTime + 3_660) * 1000);
+      expect(portfolio.totals[erc20fee.address].staked).to.be.equal(getBigNumber(2_000));
+
+      await setNextBlockTimestampAndAdvanceBlock(lastBlockTime + 3_660);
+
+      portfolio = await client.getUserPortfolio(alice.address);
+
+      expect(portfolio.maturedStakes.map(userStake => userStake.id)).to.be.deep.equal([2]);
+    });
+  });
+
+  describe("'getBudgetReports' function tests", () => {
+    it("Should report stakeable amount, utilisation and rewards needed for the target TVL", async () => {
+      await client.stakeWithApproval(1, getBigNumber(1_000));
+
+      const [report] = await client.getBudgetReports(1_000, getBigNumber(100_000));
+
+      expect(report.stakingPoolId).to.be.equal(1);
+      expect(report.status).to.be.equal(PoolStatus.Pending);
+      expect(report.remainingRewards).to.be.equal(getBigNumber(9_875));
+      expect(report.utilisation).to.be.equal(0.0125);
+      expect(report.maxStakeAmount).to.be.equal(getBigNumber(79_000).add(7));
+      expect(report.rewardsNeededForTarget).to.be.equal(getBigNumber(2_625));
+
+      const preview = await client.previewStake(1, report.maxStakeAmount);
+      expect(preview.error).to.be.undefined;
+      expect((await client.previewStake(1, report.maxStakeAmount.add(1))).error).to.be.instanceOf(
+        NotEnoughTokensForRewardError
+      );
+    });
+
+    it("Should project depletion from recent Stakes", async () => {
+      await client.stakeWithApproval(1, getBigNumber(5_000));
+
+      const [report, emptyReport] = await client.getBudgetReports(3);
+
+      expect(report.rewardsPerDay).to.be.gt(0);
+      expect(report.depletionTime?.getTime()).to.be.lt((lastBlockTime + 31_536_060) * 1000);
+      expect(report.rewardsNeededForTarget).to.be.undefined;
+      expect(emptyReport.rewardsPerDay).to.be.equal(0);
+      expect(emptyReport.depletionTime).to.be.undefined;
+    });
+
+    it("Should not count withdrawn unused rewards into utilisation", async () => {
+      await client.stakeWithApproval(1, getBigNumber(1_000));
+      await setNextBlockTimestampAndAdvanceBlock(lastBlockTime + 31_536_061);
+      await stakingContract.withdrawUnusedRewards(1);
+
+      const [report] = await client.getBudgetReports(1_000);
+
+      expect(report.status).to.be.equal(PoolStatus.Finalized);
+      expect(report.utilisation).to.be.equal(0.0125);
+      expect(await client.getWithdrawnRewards()).to.be.deep.equal({ 1: getBigNumber(9_875) });
+    });
+  });
+
+  describe("'decodeStakingPoolsError' function tests", () => {
+    it("Should decode custom error thrown by the contract", async () => {
+      await client.stakeWithApproval(1, getBigNumber(1_000));
+
+      expect(await client.unstake(1).catch(e => e)).to.be.instanceOf(CannotUnstakeYetError);
+
+      const error = await stakingContract
+        .connect(alice)
+        .unstake(1)
+        .catch(e => e);
+      const decoded = decodeStakingPoolsError(error, stakingContract.interface);
+
+      expect(decoded).to.be.instanceOf(StakingPoolsError);
+      expect(decoded?.errorName).to.be.equal("StakingPoolFixedApr_CannotUnstakeYet");
+    });
+
+    it("Should return undefined for unknown errors", async () => {
+      expect(decodeStakingPoolsError(new Error("network error"), stakingContract.interface)).to.be.undefined;
+    });
+  });
+});
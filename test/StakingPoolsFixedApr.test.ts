@@ -1,15 +1,135 @@
 import { ethers } from "hardhat";
 import { expect } from "chai";
 import {
+  deployStakingFixture,
+  EARLY_UNSTAKE_DISABLED,
+  Fixture,
   getBigNumber,
   getLastBlockTimestamp,
+  loadFixture,
+  scenario,
+  ScenarioResult,
   setNextBlockTimestamp,
   setNextBlockTimestampAndAdvanceBlock,
+  StakingFixture,
 } from "./utilities";
 
-import { StakingPoolsFixedApr, ERC20FeeMock } from "../typechain";
+import { StakingPoolsFixedApr, ERC20FeeMock, ERC20Mock } from "../typechain";
 import { BigNumber } from "ethers";
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { calculateRewards, EarlyUnstakeMode } from "../sdk";
+
+// Pool with 10 000 rewards, 1 token minimum and 10% APR, starting in 60 seconds and lasting 1 hour.
+async function stakingPoolFixture(): Promise<ScenarioResult> {
+  return scenario(await loadFixture(deployStakingFixture)).pool({
+    rewards: 10_000,
+    minimum: 1,
+    apr: "10%",
+    duration: "1h",
+  });
+}
+
+// The same Pool with 1 000 tokens staked by alice.
+async function stakedFixture(): Promise<ScenarioResult> {
+  const fixture = await loadFixture(deployStakingFixture);
+
+  return scenario(fixture)
+    .pool({ rewards: 10_000, minimum: 1, apr: "10%", duration: "1h" })
+    .stake(fixture.alice, 1_000);
+}
+
+// Pool with 10 000 rewards, 1 token minimum and 50% APR lasting 2 years.
+async function longStakingPoolFixture(): Promise<ScenarioResult> {
+  return scenario(await loadFixture(deployStakingFixture)).pool({
+    rewards: 10_000,
+    minimum: 1,
+    apr: "50%",
+    duration: "730d",
+  });
+}
+
+// Pools with 10 000 rewards and 10% APR lasting 1 year - the first one with pro rata early unstake and 5% fee
+// (1 000 tokens staked by alice), the second one forfeiting all rewards without fee (1 000 tokens staked by bob).
+async function earlyUnstakeFixture(): Promise<ScenarioResult> {
+  const fixture = await loadFixture(deployStakingFixture);
+
+  return scenario(fixture)
+    .pool({
+      rewards: 10_000,
+      apr: "10%",
+      duration: "365d",
+      earlyUnstake: { mode: EarlyUnstakeMode.ProRata, principalFee: 500 },
+    })
+    .stake(fixture.alice, 1_000)
+    .pool({
+      rewards: 10_000,
+      apr: "10%",
+      duration: "365d",
+      earlyUnstake: { mode: EarlyUnstakeMode.ForfeitAll, principalFee: 0 },
+    })
+    .stake(fixture.bob, 1_000);
+}
+
+// Pool 1 (1 hour) with Stakes 1, 2 and 3 of alice and Stake 4 of bob, Pool 2 (1 year, pro rata early unstake)
+// with Stake 5 of alice. Pool 1 already ended.
+async function batchUnstakeFixture(): Promise<ScenarioResult> {
+  const fixture = await loadFixture(deployStakingFixture);
+  const { alice, bob } = fixture;
+
+  return scenario(fixture)
+    .pool({ rewards: 10_000, minimum: 1, apr: "10%", duration: "1h" })
+    .pool({
+      rewards: 10_000,
+      minimum: 1,
+      apr: "10%",
+      duration: "365d",
+      earlyUnstake: { mode: EarlyUnstakeMode.ProRata, principalFee: 0 },
+    })
+    .stake(alice, 1_000, 1)
+    .stake(alice, 1_000, 1)
+    .stake(alice, 1_000, 1)
+    .stake(bob, 1_000, 1)
+    .stake(alice, 1_000, 2)
+    .after("2h");
+}
+
+// 300 Pools with 100 rewards and 10% APR (every 3rd Pool lasting 1 hour, other Pools 1 year, every 10th Pool
+// in the second token) and 200 Stakes of alice in the first Pool, 2 hours after the Pools started.
+async function manyPoolsFixture(): Promise<StakingFixture & { secondToken: ERC20FeeMock }> {
+  const fixture = await loadFixture(deployStakingFixture);
+  const { alice, stakingContract, erc20fee } = fixture;
+
+  const erc20feeFactory = await ethers.getContractFactory("ERC20FeeMock");
+  const secondToken = (await erc20feeFactory.deploy(getBigNumber(1_000_000))) as ERC20FeeMock;
+
+  await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+  await secondToken.updateExcludedFromFee(stakingContract.address, true);
+  await erc20fee.approve(stakingContract.address, getBigNumber(30_000));
+  await secondToken.approve(stakingContract.address, getBigNumber(3_000));
+
+  const startTime = (await getLastBlockTimestamp()) + 3_600;
+
+  for (let i = 1; i <= 300; i++) {
+    await stakingContract.addStakingPool(
+      getBigNumber(100),
+      0,
+      i % 10 === 0 ? secondToken.address : erc20fee.address,
+      startTime,
+      startTime + (i % 3 === 0 ? 3_600 : 31_536_000),
+      1_000,
+      EARLY_UNSTAKE_DISABLED
+    );
+  }
+
+  await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(200));
+  for (let i = 0; i < 200; i++) {
+    await stakingContract.connect(alice).stake(1, getBigNumber(1));
+  }
+
+  await setNextBlockTimestampAndAdvanceBlock(startTime + 7_200);
+
+  return { ...fixture, secondToken };
+}
 
 describe("Test Set Name", () => {
   let [deployer, alice, bob]: SignerWithAddress[] = [];
@@ -20,6 +140,9 @@ describe("Test Set Name", () => {
   let erc20fee: ERC20FeeMock;
 
   const Ownable_NotOwner_Error = "Ownable_NotOwner";
+  const StakingPoolFixedApr_NotPoolOperator_Error = "StakingPoolFixedApr_NotPoolOperator";
+  const StakingPoolFixedApr_ZeroLimit_Error = "StakingPoolFixedApr_ZeroLimit";
+  const StakingPoolFixedApr_EmptyBatch_Error = "StakingPoolFixedApr_EmptyBatch";
   const StakingPoolFixedApr_ZeroRewardsAmount_Error = "StakingPoolFixedApr_ZeroRewardsAmount";
   const StakingPoolFixedApr_StartTimeMustBeInTheFuture_Error = "StakingPoolFixedApr_StartTimeMustBeInTheFuture";
   const StakingPoolFixedApr_StartTimeMustBeLaterThanEndTime_Error =
@@ -34,31 +157,40 @@ describe("Test Set Name", () => {
   const StakingPoolFixedApr_CannotUnstakeYet_Error = "StakingPoolFixedApr_CannotUnstakeYet";
   const StakingPoolFixedApr_CannotBeforeEndTime_Error = "StakingPoolFixedApr_CannotBeforeEndTime";
   const StakingPoolFixedApr_NothingToWithdraw_Error = "StakingPoolFixedApr_NothingToWithdraw";
+  const StakingPoolFixedApr_EarlyUnstakeFeeTooHigh_Error = "StakingPoolFixedApr_EarlyUnstakeFeeTooHigh";
+  const StakingPoolFixedApr_PoolAlreadyStarted_Error = "StakingPoolFixedApr_PoolAlreadyStarted";
+  const StakingPoolFixedApr_EndTimeMustBeLaterThanCurrent_Error = "StakingPoolFixedApr_EndTimeMustBeLaterThanCurrent";
+  const StakingPoolFixedApr_ZeroAddress_Error = "StakingPoolFixedApr_ZeroAddress";
+  const StakingPoolFixedApr_Paused_Error = "StakingPoolFixedApr_Paused";
+  const StakingPoolFixedApr_NotPaused_Error = "StakingPoolFixedApr_NotPaused";
+  const StakingPoolFixedApr_EmergencyModeEnabled_Error = "StakingPoolFixedApr_EmergencyModeEnabled";
+  const StakingPoolFixedApr_EmergencyModeNotEnabled_Error = "StakingPoolFixedApr_EmergencyModeNotEnabled";
 
   const StakingPoolFixedApr_StakingPoolAdded_Event = "StakingPoolAdded";
   const StakingPoolFixedApr_Staked_Event = "Staked";
   const StakingPoolFixedApr_Unstaked_Event = "Unstaked";
+  const StakingPoolFixedApr_UnstakedEarly_Event = "UnstakedEarly";
   const StakingPoolFixedApr_Withdrawn_Event = "Withdrawn";
-
-  beforeEach(async () => {
-    const signers = await ethers.getSigners();
-    deployer = signers[0];
-    alice = signers[1];
-    bob = signers[2];
-
-    const stakingContractFactory = await ethers.getContractFactory("StakingPoolsFixedApr");
-    stakingContract = (await stakingContractFactory.deploy()) as StakingPoolsFixedApr;
-
-    const erc20feeFactory = await ethers.getContractFactory("ERC20FeeMock");
-    erc20fee = (await erc20feeFactory.deploy(getBigNumber(1_000_000))) as ERC20FeeMock;
-
-    await erc20fee.updateExcludedFromFee(deployer.address, true);
-
-    await erc20fee.transfer(alice.address, getBigNumber(10_000));
-    await erc20fee.transfer(bob.address, getBigNumber(10_000));
-  });
+  const StakingPoolFixedApr_RewardsToppedUp_Event = "RewardsToppedUp";
+  const StakingPoolFixedApr_StakingPoolExtended_Event = "StakingPoolExtended";
+  const StakingPoolFixedApr_StakeTransferred_Event = "StakeTransferred";
+  const StakingPoolFixedApr_Paused_Event = "Paused";
+  const StakingPoolFixedApr_Unpaused_Event = "Unpaused";
+  const StakingPoolFixedApr_EmergencyModeEnabled_Event = "EmergencyModeEnabled";
+  const StakingPoolFixedApr_EmergencyWithdrawn_Event = "EmergencyWithdrawn";
+
+  // Loads the fixture (reverting to its snapshot) and assigns shared variables.
+  async function useFixture<T extends StakingFixture>(fixture: Fixture<T>): Promise<T> {
+    const result = await loadFixture(fixture);
+    ({ deployer, alice, bob, stakingContract, erc20fee } = result);
+    return result;
+  }
 
   describe("'addStakingPool' function tests", () => {
+    beforeEach(async () => {
+      await useFixture(deployStakingFixture);
+    });
+
     it("Should work correctly and add new Staking Pool", async () => {
       const preStakingPool = await stakingContract.stakingPools(1);
 
@@ -73,7 +205,8 @@ describe("Test Set Name", () => {
           erc20fee.address,
           lastBlockTime + 60,
           lastBlockTime + 3_660,
-          1_000
+          1_000,
+          EARLY_UNSTAKE_DISABLED
         )
       )
         .to.emit(stakingContract, StakingPoolFixedApr_StakingPoolAdded_Event)
@@ -84,7 +217,8 @@ describe("Test Set Name", () => {
           erc20fee.address,
           lastBlockTime + 60,
           lastBlockTime + 3_660,
-          1_000
+          1_000,
+          [EarlyUnstakeMode.Disabled, 0]
         );
 
       const postStakingPool = await stakingContract.stakingPools(1);
@@ -102,9 +236,11 @@ describe("Test Set Name", () => {
       expect(postStakingPool.startTime).to.be.equal(lastBlockTime + 60);
       expect(postStakingPool.endTime).to.be.equal(lastBlockTime + 3_660);
       expect(postStakingPool.apr).to.be.equal(1_000);
+      expect(postStakingPool.earlyUnstakeMode).to.be.equal(EarlyUnstakeMode.Disabled);
+      expect(postStakingPool.earlyUnstakeFee).to.be.equal(0);
     });
 
-    it("Should revert when caller is not the owner", async () => {
+    it("Should revert when caller is neither the owner nor the pool operator", async () => {
       lastBlockTime = await getLastBlockTimestamp();
 
       await expect(
@@ -116,9 +252,10 @@ describe("Test Set Name", () => {
             erc20fee.address,
             lastBlockTime + 60,
             lastBlockTime + 3_660,
-            1_000
+            1_000,
+            EARLY_UNSTAKE_DISABLED
           )
-      ).to.be.revertedWithCustomError(stakingContract, Ownable_NotOwner_Error);
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_NotPoolOperator_Error);
     });
 
     it("Should revert for zero amount of rewards", async () => {
@@ -131,7 +268,8 @@ describe("Test Set Name", () => {
           erc20fee.address,
           lastBlockTime + 60,
           lastBlockTime + 3_660,
-          1_000
+          1_000,
+          EARLY_UNSTAKE_DISABLED
         )
       ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_ZeroRewardsAmount_Error);
     });
@@ -146,7 +284,8 @@ describe("Test Set Name", () => {
           erc20fee.address,
           lastBlockTime - 1,
           lastBlockTime + 3_660,
-          1_000
+          1_000,
+          EARLY_UNSTAKE_DISABLED
         )
       ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_StartTimeMustBeInTheFuture_Error);
     });
@@ -161,7 +300,8 @@ describe("Test Set Name", () => {
           erc20fee.address,
           lastBlockTime + 1_000,
           lastBlockTime + 900,
-          1_000
+          1_000,
+          EARLY_UNSTAKE_DISABLED
         )
       ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_StartTimeMustBeLaterThanEndTime_Error);
     });
@@ -176,11 +316,28 @@ describe("Test Set Name", () => {
           erc20fee.address,
           lastBlockTime + 1_000,
           lastBlockTime + 1_000,
-          1_000
+          1_000,
+          EARLY_UNSTAKE_DISABLED
         )
       ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_StartTimeMustBeLaterThanEndTime_Error);
     });
 
+    it("Should revert when early unstake fee is greater than 100%", async () => {
+      lastBlockTime = await getLastBlockTimestamp();
+
+      await expect(
+        stakingContract.addStakingPool(
+          getBigNumber(10_000),
+          getBigNumber(1),
+          erc20fee.address,
+          lastBlockTime + 60,
+          lastBlockTime + 3_660,
+          1_000,
+          { mode: EarlyUnstakeMode.ProRata, principalFee: 10_001 }
+        )
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_EarlyUnstakeFeeTooHigh_Error);
+    });
+
     it("Should revert when incorrect amount of tokens are transferred", async () => {
       lastBlockTime = await getLastBlockTimestamp();
 
@@ -194,34 +351,294 @@ describe("Test Set Name", () => {
           erc20fee.address,
           lastBlockTime + 10,
           lastBlockTime + 3_660,
-          1_000
+          1_000,
+          EARLY_UNSTAKE_DISABLED
         )
       ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_IncorrectAmountTransferred_Error);
     });
   });
 
-  describe("'stake' function tests", () => {
-    let startTime;
-    let endTime;
+  describe("'addStakingPools' function tests", () => {
+    let configs: Parameters<StakingPoolsFixedApr["addStakingPools"]>[0];
 
     beforeEach(async () => {
+      await useFixture(deployStakingFixture);
+
       lastBlockTime = await getLastBlockTimestamp();
 
-      startTime = lastBlockTime + 60;
-      endTime = lastBlockTime + 3_660;
+      configs = [1_000, 2_000, 3_000].map(rewards => ({
+        rewardsAmount: getBigNumber(rewards),
+        minimumToStake: getBigNumber(1),
+        token: erc20fee.address,
+        startTime: lastBlockTime + 60,
+        endTime: lastBlockTime + 3_660,
+        apr: 1_000,
+        earlyUnstake: EARLY_UNSTAKE_DISABLED,
+      }));
+
+      await erc20fee.approve(stakingContract.address, getBigNumber(6_000));
+    });
 
-      await erc20fee.approve(stakingContract.address, getBigNumber(10_000));
+    it("Should work correctly and add many Staking Pools", async () => {
+      await expect(stakingContract.addStakingPools(configs))
+        .to.emit(stakingContract, StakingPoolFixedApr_StakingPoolAdded_Event)
+        .withArgs(
+          3,
+          getBigNumber(3_000),
+          getBigNumber(1),
+          erc20fee.address,
+          lastBlockTime + 60,
+          lastBlockTime + 3_660,
+          1_000,
+          [EarlyUnstakeMode.Disabled, 0]
+        );
 
-      await stakingContract.addStakingPool(
-        getBigNumber(10_000),
-        getBigNumber(1),
-        erc20fee.address,
-        startTime,
-        endTime,
-        1_000
+      expect(await stakingContract.getStakingPoolsCount()).to.be.equal(3);
+      expect((await stakingContract.stakingPools(1)).rewardsAdded).to.be.equal(getBigNumber(1_000));
+      expect((await stakingContract.stakingPools(2)).rewardsAdded).to.be.equal(getBigNumber(2_000));
+      expect(await erc20fee.balanceOf(stakingContract.address)).to.be.equal(getBigNumber(6_000));
+    });
+
+    it("Should revert for empty batch", async () => {
+      await expect(stakingContract.addStakingPools([])).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_EmptyBatch_Error
       );
+    });
 
-      await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+    it("Should use less gas than single 'addStakingPool' calls", async () => {
+      const batchReceipt = await (await stakingContract.addStakingPools(configs)).wait();
+
+      await useFixture(deployStakingFixture);
+      await erc20fee.approve(stakingContract.address, getBigNumber(6_000));
+
+      let singleCallsGas = BigNumber.from(0);
+      for (const config of configs) {
+        const receipt = await (
+          await stakingContract.addStakingPool(
+            config.rewardsAmount,
+            config.minimumToStake,
+            config.token,
+            config.startTime,
+            config.endTime,
+            config.apr,
+            config.earlyUnstake
+          )
+        ).wait();
+        singleCallsGas = singleCallsGas.add(receipt.gasUsed);
+      }
+
+      expect(batchReceipt.gasUsed).to.be.lt(singleCallsGas);
+    });
+
+    it("Should revert when caller is neither the owner nor the pool operator", async () => {
+      await expect(stakingContract.connect(alice).addStakingPools(configs)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_NotPoolOperator_Error
+      );
+    });
+
+    it("Should revert whole batch when one of the Pools is invalid", async () => {
+      configs[1] = { ...configs[1], rewardsAmount: 0 };
+
+      await expect(stakingContract.addStakingPools(configs)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_ZeroRewardsAmount_Error
+      );
+
+      expect(await stakingContract.getStakingPoolsCount()).to.be.equal(0);
+    });
+
+    it("Should revert whole batch when start time of one of the Pools is greater than end time", async () => {
+      configs[2] = { ...configs[2], startTime: lastBlockTime + 3_660, endTime: lastBlockTime + 60 };
+
+      await expect(stakingContract.addStakingPools(configs)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StartTimeMustBeLaterThanEndTime_Error
+      );
+    });
+  });
+
+  describe("'topUpRewards' function tests", () => {
+    let startTime: number;
+    let endTime: number;
+
+    beforeEach(async () => {
+      const { pools } = await useFixture(longStakingPoolFixture);
+      ({ startTime, endTime } = pools[0]);
+    });
+
+    it("Should work correctly and top up rewards", async () => {
+      await erc20fee.approve(stakingContract.address, getBigNumber(5_000));
+
+      const preOwnerBalance = await erc20fee.balanceOf(deployer.address);
+      const preStakingContractBalance = await erc20fee.balanceOf(stakingContract.address);
+
+      await expect(stakingContract.topUpRewards(1, getBigNumber(5_000)))
+        .to.emit(stakingContract, StakingPoolFixedApr_RewardsToppedUp_Event)
+        .withArgs(1, getBigNumber(5_000));
+
+      const postOwnerBalance = await erc20fee.balanceOf(deployer.address);
+      const postStakingContractBalance = await erc20fee.balanceOf(stakingContract.address);
+      const postStakingPool = await stakingContract.stakingPools(1);
+
+      expect(postOwnerBalance).to.be.equal(preOwnerBalance.sub(getBigNumber(5_000)));
+      expect(postStakingContractBalance).to.be.equal(preStakingContractBalance.add(getBigNumber(5_000)));
+      expect(postStakingPool.rewardsAdded).to.be.equal(getBigNumber(15_000));
+      expect(postStakingPool.endTime).to.be.equal(endTime);
+    });
+
+    it("Should work correctly and reopen Staking Pool without rewards", async () => {
+      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(10_000));
+      await stakingContract.connect(alice).stake(1, getBigNumber(10_000));
+
+      await erc20fee.connect(bob).approve(stakingContract.address, getBigNumber(5_000));
+      await expect(stakingContract.connect(bob).stake(1, getBigNumber(5_000))).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_NotEnoughTokensForReward_Error
+      );
+      expect(await stakingContract.rewardsDistributed(1)).to.be.equal(getBigNumber(10_000));
+
+      await erc20fee.approve(stakingContract.address, getBigNumber(5_000));
+      await stakingContract.topUpRewards(1, getBigNumber(5_000));
+
+      await setNextBlockTimestamp(startTime - 5);
+
+      await expect(stakingContract.connect(bob).stake(1, getBigNumber(5_000)))
+        .to.emit(stakingContract, StakingPoolFixedApr_Staked_Event)
+        .withArgs(bob.address, 2, 1, getBigNumber(5_000), getBigNumber(5_000), endTime);
+
+      expect(await stakingContract.rewardsDistributed(1)).to.be.equal(getBigNumber(15_000));
+    });
+
+    it("Should work correctly and top up rewards of the open Staking Pool", async () => {
+      await setNextBlockTimestampAndAdvanceBlock(startTime + 1);
+
+      await erc20fee.approve(stakingContract.address, getBigNumber(1));
+
+      await expect(stakingContract.topUpRewards(1, getBigNumber(1)))
+        .to.emit(stakingContract, StakingPoolFixedApr_RewardsToppedUp_Event)
+        .withArgs(1, getBigNumber(1));
+    });
+
+    it("Should revert when caller isn't the owner", async () => {
+      await expect(stakingContract.connect(alice).topUpRewards(1, getBigNumber(1))).to.be.revertedWithCustomError(
+        stakingContract,
+        Ownable_NotOwner_Error
+      );
+    });
+
+    it("Should revert when Staking Pool doesn't exist", async () => {
+      await expect(stakingContract.topUpRewards(2, getBigNumber(1))).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_PoolNotExists_Error
+      );
+    });
+
+    it("Should revert for zero amount of rewards", async () => {
+      await expect(stakingContract.topUpRewards(1, 0)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_ZeroRewardsAmount_Error
+      );
+    });
+
+    it("Should revert when Staking Pool is closed", async () => {
+      await setNextBlockTimestamp(endTime);
+
+      await expect(stakingContract.topUpRewards(1, getBigNumber(1))).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_PoolClosed_Error
+      );
+    });
+
+    it("Should revert when incorrect amount of tokens are transferred", async () => {
+      await erc20fee.approve(stakingContract.address, getBigNumber(5_000));
+      await erc20fee.updateExcludedFromFee(deployer.address, false);
+      await erc20fee.updateExcludedFromFee(stakingContract.address, false);
+
+      await expect(stakingContract.topUpRewards(1, getBigNumber(5_000))).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_IncorrectAmountTransferred_Error
+      );
+    });
+  });
+
+  describe("'extendStakingPool' function tests", () => {
+    let startTime: number;
+    let endTime: number;
+
+    beforeEach(async () => {
+      const { pools } = await useFixture(stakingPoolFixture);
+      ({ startTime, endTime } = pools[0]);
+    });
+
+    it("Should work correctly and extend end time of the pending Staking Pool", async () => {
+      await expect(stakingContract.extendStakingPool(1, endTime + 3_600))
+        .to.emit(stakingContract, StakingPoolFixedApr_StakingPoolExtended_Event)
+        .withArgs(1, endTime + 3_600);
+
+      const postStakingPool = await stakingContract.stakingPools(1);
+
+      expect(postStakingPool.startTime).to.be.equal(startTime);
+      expect(postStakingPool.endTime).to.be.equal(endTime + 3_600);
+      expect(postStakingPool.rewardsAdded).to.be.equal(getBigNumber(10_000));
+    });
+
+    it("Should work correctly and keep Stakes made before the extension", async () => {
+      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(2_000));
+      await stakingContract.connect(alice).stake(1, getBigNumber(1_000));
+      const preRewards = (await stakingContract.stakes(1)).rewards;
+
+      await stakingContract.extendStakingPool(1, endTime + 3_600);
+
+      await stakingContract.connect(alice).stake(1, getBigNumber(1_000));
+
+      const [firstStake, secondStake] = await stakingContract.getAllUserStakes(alice.address);
+
+      expect(firstStake.unstakePossibleAt).to.be.equal(endTime);
+      expect(firstStake.rewards).to.be.equal(preRewards);
+      expect(secondStake.unstakePossibleAt).to.be.equal(endTime + 3_600);
+      expect(secondStake.rewards).to.be.equal(calculateRewards(getBigNumber(1_000), startTime, endTime + 3_600, 1_000));
+    });
+
+    it("Should revert when caller isn't the owner", async () => {
+      await expect(stakingContract.connect(alice).extendStakingPool(1, endTime + 1)).to.be.revertedWithCustomError(
+        stakingContract,
+        Ownable_NotOwner_Error
+      );
+    });
+
+    it("Should revert when Staking Pool doesn't exist", async () => {
+      await expect(stakingContract.extendStakingPool(2, endTime + 1)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_PoolNotExists_Error
+      );
+    });
+
+    it("Should revert when Staking Pool already started", async () => {
+      await setNextBlockTimestamp(startTime);
+
+      await expect(stakingContract.extendStakingPool(1, endTime + 1)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_PoolAlreadyStarted_Error
+      );
+    });
+
+    it("Should revert when new end time isn't later than the current one", async () => {
+      await expect(stakingContract.extendStakingPool(1, endTime)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_EndTimeMustBeLaterThanCurrent_Error
+      );
+    });
+  });
+
+  describe("'stake' function tests", () => {
+    let startTime;
+    let endTime;
+
+    beforeEach(async () => {
+      const { pools } = await useFixture(stakingPoolFixture);
+      ({ startTime, endTime } = pools[0]);
     });
 
     it("Should work correctly and add new stake", async () => {
@@ -350,7 +767,8 @@ describe("Test Set Name", () => {
         erc20fee.address,
         secondStakingPoolStartTime,
         secondStakingPoolEndTime,
-        5_000
+        5_000,
+        EARLY_UNSTAKE_DISABLED
       );
 
       await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(6_000));
@@ -472,7 +890,15 @@ describe("Test Set Name", () => {
     it("Should revert when calculated rewards equal zero", async () => {
       await erc20fee.approve(stakingContract.address, getBigNumber(10_000));
 
-      await stakingContract.addStakingPool(getBigNumber(10_000), 0, erc20fee.address, startTime, endTime, 1_000);
+      await stakingContract.addStakingPool(
+        getBigNumber(10_000),
+        0,
+        erc20fee.address,
+        startTime,
+        endTime,
+        1_000,
+        EARLY_UNSTAKE_DISABLED
+      );
 
       await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
 
@@ -496,7 +922,8 @@ describe("Test Set Name", () => {
         erc20fee.address,
         secondStakingPoolStartTime,
         secondStakingPoolEndTime,
-        5_100
+        5_100,
+        EARLY_UNSTAKE_DISABLED
       );
 
       await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(10_000));
@@ -519,32 +946,79 @@ describe("Test Set Name", () => {
     });
   });
 
-  describe("'unstake' function tests", () => {
-    let startTime;
-    let endTime;
+  describe("'stakeFor' function tests", () => {
+    let endTime: number;
 
     beforeEach(async () => {
-      lastBlockTime = await getLastBlockTimestamp();
+      const { pools } = await useFixture(stakingPoolFixture);
+      endTime = pools[0].endTime;
+    });
+
+    it("Should work correctly and add new stake owned by the beneficiary", async () => {
+      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
 
-      startTime = lastBlockTime + 60;
-      endTime = lastBlockTime + 3_660;
+      await expect(stakingContract.connect(alice).stakeFor(bob.address, 1, getBigNumber(1_000)))
+        .to.emit(stakingContract, StakingPoolFixedApr_Staked_Event)
+        .withArgs(bob.address, 1, 1, getBigNumber(1_000), BigNumber.from("11415525114155200"), endTime);
 
-      await erc20fee.approve(stakingContract.address, getBigNumber(10_000));
+      const stakeData = await stakingContract.stakes(1);
 
-      await stakingContract.addStakingPool(
-        getBigNumber(10_000),
-        getBigNumber(1),
-        erc20fee.address,
-        startTime,
-        endTime,
-        1_000
+      expect(stakeData.owner).to.be.equal(bob.address);
+      expect(stakeData.staked).to.be.equal(getBigNumber(1_000));
+
+      expect(await stakingContract.getAllUserStakeIds(alice.address)).to.be.empty;
+      expect(await stakingContract.getAllUserStakeIds(bob.address)).to.be.deep.equal([BigNumber.from(1)]);
+
+      // Tokens are paid by the sender.
+      expect(await erc20fee.balanceOf(alice.address)).to.be.equal(getBigNumber(9_000));
+      expect(await erc20fee.balanceOf(bob.address)).to.be.equal(getBigNumber(10_000));
+    });
+
+    it("Should allow only the beneficiary to unstake", async () => {
+      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
+      await stakingContract.connect(alice).stakeFor(bob.address, 1, getBigNumber(1_000));
+
+      await setNextBlockTimestamp(endTime);
+
+      await expect(stakingContract.connect(alice).unstake(1)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StakeNotExists_Error
       );
 
-      await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+      await expect(stakingContract.connect(bob).unstake(1))
+        .to.emit(stakingContract, StakingPoolFixedApr_Unstaked_Event)
+        .withArgs(bob.address, 1);
+
+      expect(await erc20fee.balanceOf(bob.address)).to.be.equal(BigNumber.from("11000011415525114155200"));
+    });
 
+    it("Should revert when beneficiary is zero address", async () => {
       await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
 
-      await stakingContract.connect(alice).stake(1, getBigNumber(1_000));
+      await expect(
+        stakingContract.connect(alice).stakeFor(ethers.constants.AddressZero, 1, getBigNumber(1_000))
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_ZeroAddress_Error);
+    });
+
+    it("Should revert when Staking Pool doesn't exist", async () => {
+      await expect(
+        stakingContract.connect(alice).stakeFor(bob.address, 2, getBigNumber(1_000))
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_PoolNotExists_Error);
+    });
+
+    it("Should revert when given amount is below minimum to stake value", async () => {
+      await expect(
+        stakingContract.connect(alice).stakeFor(bob.address, 1, getBigNumber(1).sub(1))
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_AmountIsBelowMinimumToStake_Error);
+    });
+  });
+
+  describe("'unstake' function tests", () => {
+    let endTime: number;
+
+    beforeEach(async () => {
+      const { pools } = await useFixture(stakedFixture);
+      endTime = pools[0].endTime;
     });
 
     it("Should work correctly and unstake when user has 1 stake", async () => {
@@ -756,34 +1230,387 @@ describe("Test Set Name", () => {
     });
   });
 
-  describe("'withdrawUnusedRewards' function tests", () => {
-    let startTime;
-    let endTime;
+  describe("'transferStake' function tests", () => {
+    let endTime: number;
 
     beforeEach(async () => {
-      await erc20fee.approve(stakingContract.address, getBigNumber(10_000));
+      const { pools } = await useFixture(stakedFixture);
+      endTime = pools[0].endTime;
 
-      lastBlockTime = await getLastBlockTimestamp();
+      // Alice owns Stakes 1, 2, 3 and 4, bob owns Stake 5.
+      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(3_000));
+      for (let i = 0; i < 3; i++) {
+        await stakingContract.connect(alice).stake(1, getBigNumber(1_000));
+      }
+
+      await erc20fee.connect(bob).approve(stakingContract.address, getBigNumber(1_000));
+      await stakingContract.connect(bob).stake(1, getBigNumber(1_000));
+    });
 
-      startTime = lastBlockTime + 10;
-      endTime = lastBlockTime + 63_072_010;
+    it("Should work correctly and transfer stake (first stake)", async () => {
+      await expect(stakingContract.connect(alice).transferStake(1, bob.address))
+        .to.emit(stakingContract, StakingPoolFixedApr_StakeTransferred_Event)
+        .withArgs(1, alice.address, bob.address);
 
-      await stakingContract.addStakingPool(
-        getBigNumber(10_000),
-        getBigNumber(1),
-        erc20fee.address,
-        startTime,
-        endTime,
-        5_000
-      );
+      expect((await stakingContract.stakes(1)).owner).to.be.equal(bob.address);
 
-      await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+      expect(await stakingContract.getAllUserStakeIds(alice.address)).to.be.deep.equal(
+        [4, 2, 3].map(id => BigNumber.from(id))
+      );
+      expect(await stakingContract.getAllUserStakeIds(bob.address)).to.be.deep.equal(
+        [5, 1].map(id => BigNumber.from(id))
+      );
     });
 
-    it("Should work correctly and withdraw unused rewards", async () => {
-      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(5_000));
-
-      await setNextBlockTimestamp(startTime - 5);
+    it("Should work correctly and transfer stake (one from middle stakes)", async () => {
+      await stakingContract.connect(alice).transferStake(2, bob.address);
+
+      expect(await stakingContract.getAllUserStakeIds(alice.address)).to.be.deep.equal(
+        [1, 4, 3].map(id => BigNumber.from(id))
+      );
+      expect(await stakingContract.getAllUserStakeIds(bob.address)).to.be.deep.equal(
+        [5, 2].map(id => BigNumber.from(id))
+      );
+    });
+
+    it("Should work correctly and transfer stake (last stake)", async () => {
+      await stakingContract.connect(alice).transferStake(4, bob.address);
+
+      expect(await stakingContract.getAllUserStakeIds(alice.address)).to.be.deep.equal(
+        [1, 2, 3].map(id => BigNumber.from(id))
+      );
+      expect(await stakingContract.getAllUserStakeIds(bob.address)).to.be.deep.equal(
+        [5, 4].map(id => BigNumber.from(id))
+      );
+    });
+
+    it("Should work correctly and transfer the only stake of the user", async () => {
+      await stakingContract.connect(bob).transferStake(5, alice.address);
+
+      expect(await stakingContract.getAllUserStakeIds(bob.address)).to.be.empty;
+      expect(await stakingContract.getAllUserStakeIds(alice.address)).to.be.deep.equal(
+        [1, 2, 3, 4, 5].map(id => BigNumber.from(id))
+      );
+    });
+
+    it("Should keep staked tokens and rewards of the transferred stake", async () => {
+      const preStakeData = await stakingContract.stakes(2);
+
+      await stakingContract.connect(alice).transferStake(2, bob.address);
+
+      const postStakeData = await stakingContract.stakes(2);
+
+      expect(postStakeData.stakingPoolId).to.be.equal(preStakeData.stakingPoolId);
+      expect(postStakeData.staked).to.be.equal(preStakeData.staked);
+      expect(postStakeData.rewards).to.be.equal(preStakeData.rewards);
+      expect(postStakeData.unstakePossibleAt).to.be.equal(preStakeData.unstakePossibleAt);
+    });
+
+    it("Should allow only the new owner to unstake", async () => {
+      await stakingContract.connect(alice).transferStake(2, bob.address);
+
+      await setNextBlockTimestamp(endTime);
+
+      await expect(stakingContract.connect(alice).unstake(2)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StakeNotExists_Error
+      );
+
+      await expect(stakingContract.connect(bob).unstake(2))
+        .to.emit(stakingContract, StakingPoolFixedApr_Unstaked_Event)
+        .withArgs(bob.address, 2);
+
+      expect(await stakingContract.getAllUserStakeIds(bob.address)).to.be.deep.equal([BigNumber.from(5)]);
+    });
+
+    it("Should revert when stake doesn't exist (invalid user)", async () => {
+      await expect(stakingContract.connect(alice).transferStake(5, alice.address)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StakeNotExists_Error
+      );
+    });
+
+    it("Should revert when stake doesn't exist (doesn't really exist)", async () => {
+      await expect(stakingContract.connect(alice).transferStake(6, bob.address)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StakeNotExists_Error
+      );
+    });
+
+    it("Should revert when new owner is zero address", async () => {
+      await expect(
+        stakingContract.connect(alice).transferStake(1, ethers.constants.AddressZero)
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_ZeroAddress_Error);
+    });
+  });
+
+  describe("'unstakeBatch' function tests", () => {
+    beforeEach(async () => {
+      await useFixture(batchUnstakeFixture);
+    });
+
+    it("Should work correctly and unstake many stakes with one transfer", async () => {
+      const stake1 = await stakingContract.stakes(1);
+      const stake3 = await stakingContract.stakes(3);
+      const preUserBalance = await erc20fee.balanceOf(alice.address);
+
+      const tx = stakingContract.connect(alice).unstakeBatch([1, 3]);
+
+      await expect(tx).to.emit(stakingContract, StakingPoolFixedApr_Unstaked_Event).withArgs(alice.address, 1);
+      await expect(tx).to.emit(stakingContract, StakingPoolFixedApr_Unstaked_Event).withArgs(alice.address, 3);
+      await expect(tx).not.to.emit(stakingContract, StakingPoolFixedApr_UnstakedEarly_Event);
+
+      const receipt = await (await tx).wait();
+      const transfers = await erc20fee.queryFilter(
+        erc20fee.filters.Transfer(stakingContract.address, alice.address),
+        receipt.blockNumber,
+        receipt.blockNumber
+      );
+
+      expect(transfers.length).to.be.equal(1);
+      expect(await erc20fee.balanceOf(alice.address)).to.be.equal(
+        preUserBalance.add(stake1.staked).add(stake1.rewards).add(stake3.staked).add(stake3.rewards)
+      );
+
+      expect((await stakingContract.stakes(1)).owner).to.be.equal(ethers.constants.AddressZero);
+      expect((await stakingContract.stakes(3)).owner).to.be.equal(ethers.constants.AddressZero);
+
+      // [1, 2, 3, 5] -> [5, 2, 3] -> [5, 2]
+      expect(await stakingContract.getAllUserStakeIds(alice.address)).to.be.deep.equal(
+        [5, 2].map(id => BigNumber.from(id))
+      );
+      expect(await stakingContract.getAllUserStakeIds(bob.address)).to.be.deep.equal([BigNumber.from(4)]);
+    });
+
+    it("Should work correctly and pay out once per token", async () => {
+      const erc20Factory = await ethers.getContractFactory("ERC20Mock");
+      const secondToken = (await erc20Factory.deploy(getBigNumber(1_000_000), 18)) as ERC20Mock;
+      await secondToken.transfer(alice.address, getBigNumber(1_000));
+
+      lastBlockTime = await getLastBlockTimestamp();
+
+      await secondToken.approve(stakingContract.address, getBigNumber(10_000));
+      await stakingContract.addStakingPool(
+        getBigNumber(10_000),
+        getBigNumber(1),
+        secondToken.address,
+        lastBlockTime + 60,
+        lastBlockTime + 3_660,
+        1_000,
+        EARLY_UNSTAKE_DISABLED
+      );
+
+      await secondToken.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
+      await stakingContract.connect(alice).stake(3, getBigNumber(1_000));
+
+      const stake6 = await stakingContract.stakes(6);
+
+      await setNextBlockTimestamp(lastBlockTime + 3_660);
+
+      const receipt = await (await stakingContract.connect(alice).unstakeBatch([1, 6, 2])).wait();
+
+      for (const token of [erc20fee, secondToken]) {
+        const transfers = await token.queryFilter(
+          token.filters.Transfer(stakingContract.address, alice.address),
+          receipt.blockNumber,
+          receipt.blockNumber
+        );
+
+        expect(transfers.length).to.be.equal(1);
+      }
+
+      expect(await secondToken.balanceOf(alice.address)).to.be.equal(stake6.staked.add(stake6.rewards));
+      expect(await stakingContract.getAllUserStakeIds(alice.address)).to.be.deep.equal(
+        [5, 3].map(id => BigNumber.from(id))
+      );
+    });
+
+    it("Should use less gas than single 'unstake' calls", async () => {
+      const batchReceipt = await (await stakingContract.connect(alice).unstakeBatch([1, 2, 3])).wait();
+
+      await useFixture(batchUnstakeFixture);
+
+      let singleCallsGas = BigNumber.from(0);
+      for (const stakeId of [1, 2, 3]) {
+        const receipt = await (await stakingContract.connect(alice).unstake(stakeId)).wait();
+        singleCallsGas = singleCallsGas.add(receipt.gasUsed);
+      }
+
+      expect(batchReceipt.gasUsed).to.be.lt(singleCallsGas);
+    });
+
+    it("Should revert for empty batch", async () => {
+      await expect(stakingContract.connect(alice).unstakeBatch([])).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_EmptyBatch_Error
+      );
+    });
+
+    it("Should revert whole batch when one of the stakes doesn't belong to the user", async () => {
+      await expect(stakingContract.connect(alice).unstakeBatch([1, 4])).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StakeNotExists_Error
+      );
+
+      expect((await stakingContract.stakes(1)).owner).to.be.equal(alice.address);
+    });
+
+    it("Should revert whole batch when one of the stakes doesn't exist", async () => {
+      await expect(stakingContract.connect(alice).unstakeBatch([1, 7])).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StakeNotExists_Error
+      );
+    });
+
+    it("Should revert whole batch when one of the stakes isn't matured (even with early unstake allowed)", async () => {
+      await expect(stakingContract.connect(alice).unstakeBatch([1, 5])).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_CannotUnstakeYet_Error
+      );
+
+      expect(await stakingContract.getAllUserStakeIds(alice.address)).to.be.deep.equal(
+        [1, 2, 3, 5].map(id => BigNumber.from(id))
+      );
+    });
+
+    it("Should revert whole batch for duplicated ids", async () => {
+      await expect(stakingContract.connect(alice).unstakeBatch([1, 2, 1])).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StakeNotExists_Error
+      );
+
+      expect((await stakingContract.stakes(1)).owner).to.be.equal(alice.address);
+    });
+  });
+
+  describe("'unstake' function tests (early unstake)", () => {
+    let pools: ScenarioResult["pools"];
+
+    beforeEach(async () => {
+      ({ pools } = await useFixture(earlyUnstakeFixture));
+    });
+
+    it("Should work correctly and unstake early with pro rata rewards and fee", async () => {
+      // 1/5 of the Pool duration - alice keeps 20 of 100 rewards and pays 5% fee from 1 000 staked tokens.
+      await setNextBlockTimestamp(pools[0].startTime + 73 * 86_400);
+
+      const preStakeData = await stakingContract.stakes(1);
+      const preUserBalance = await erc20fee.balanceOf(alice.address);
+
+      await expect(stakingContract.connect(alice).unstake(1))
+        .to.emit(stakingContract, StakingPoolFixedApr_UnstakedEarly_Event)
+        .withArgs(alice.address, 1, getBigNumber(80), getBigNumber(50))
+        .and.to.emit(stakingContract, StakingPoolFixedApr_Unstaked_Event)
+        .withArgs(alice.address, 1);
+
+      const postStakingPool = await stakingContract.stakingPools(1);
+      const postRewardsDistributed = await stakingContract.rewardsDistributed(1);
+      const postUserBalance = await erc20fee.balanceOf(alice.address);
+
+      expect(preStakeData.rewards).to.be.equal(getBigNumber(100));
+      expect(preStakeData.startTime).to.be.equal(pools[0].startTime);
+
+      expect(postStakingPool.rewardsAdded).to.be.equal(getBigNumber(10_050));
+      expect(postRewardsDistributed).to.be.equal(getBigNumber(20));
+      expect(postUserBalance).to.be.equal(preUserBalance.add(getBigNumber(970)));
+    });
+
+    it("Should work correctly and unstake early before Staking Pool start time (all rewards forfeited)", async () => {
+      const preUserBalance = await erc20fee.balanceOf(alice.address);
+
+      await expect(stakingContract.connect(alice).unstake(1))
+        .to.emit(stakingContract, StakingPoolFixedApr_UnstakedEarly_Event)
+        .withArgs(alice.address, 1, getBigNumber(100), getBigNumber(50));
+
+      expect(await stakingContract.rewardsDistributed(1)).to.be.equal(0);
+      expect(await erc20fee.balanceOf(alice.address)).to.be.equal(preUserBalance.add(getBigNumber(950)));
+    });
+
+    it("Should work correctly and unstake early forfeiting all rewards", async () => {
+      await setNextBlockTimestamp(pools[1].endTime - 1);
+
+      const preUserBalance = await erc20fee.balanceOf(bob.address);
+
+      await expect(stakingContract.connect(bob).unstake(2))
+        .to.emit(stakingContract, StakingPoolFixedApr_UnstakedEarly_Event)
+        .withArgs(bob.address, 2, getBigNumber(100), 0);
+
+      expect(await stakingContract.rewardsDistributed(2)).to.be.equal(0);
+      expect(await erc20fee.balanceOf(bob.address)).to.be.equal(preUserBalance.add(getBigNumber(1_000)));
+    });
+
+    it("Should work correctly and unstake without penalty after unstake possible time", async () => {
+      await setNextBlockTimestamp(pools[0].endTime);
+
+      const preUserBalance = await erc20fee.balanceOf(alice.address);
+
+      await expect(stakingContract.connect(alice).unstake(1)).not.to.emit(
+        stakingContract,
+        StakingPoolFixedApr_UnstakedEarly_Event
+      );
+
+      expect(await erc20fee.balanceOf(alice.address)).to.be.equal(preUserBalance.add(getBigNumber(1_100)));
+    });
+
+    it("Should allow to withdraw forfeited rewards and fee as unused rewards", async () => {
+      await setNextBlockTimestamp(pools[0].startTime + 73 * 86_400);
+
+      await stakingContract.connect(alice).unstake(1);
+
+      await setNextBlockTimestamp(pools[0].endTime + 1);
+
+      await expect(stakingContract.withdrawUnusedRewards(1))
+        .to.emit(stakingContract, StakingPoolFixedApr_Withdrawn_Event)
+        .withArgs(1, getBigNumber(10_030));
+    });
+  });
+
+  describe("'calculateEarlyUnstakePenalty' function tests", () => {
+    let pools: ScenarioResult["pools"];
+
+    beforeEach(async () => {
+      ({ pools } = await useFixture(earlyUnstakeFixture));
+    });
+
+    it("Should work correctly and calculate early unstake penalty", async () => {
+      await setNextBlockTimestampAndAdvanceBlock(pools[0].startTime + 73 * 86_400);
+
+      const [forfeitedRewards, fee] = await stakingContract.calculateEarlyUnstakePenalty(1);
+
+      expect(forfeitedRewards).to.be.equal(getBigNumber(80));
+      expect(fee).to.be.equal(getBigNumber(50));
+    });
+
+    it("Should return zero penalty after unstake possible time", async () => {
+      await setNextBlockTimestampAndAdvanceBlock(pools[0].endTime);
+
+      const [forfeitedRewards, fee] = await stakingContract.calculateEarlyUnstakePenalty(1);
+
+      expect(forfeitedRewards).to.be.equal(0);
+      expect(fee).to.be.equal(0);
+    });
+
+    it("Should revert when stake doesn't exist", async () => {
+      await expect(stakingContract.calculateEarlyUnstakePenalty(3)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StakeNotExists_Error
+      );
+    });
+  });
+
+  describe("'withdrawUnusedRewards' function tests", () => {
+    let startTime;
+    let endTime;
+
+    beforeEach(async () => {
+      const { pools } = await useFixture(longStakingPoolFixture);
+      ({ startTime, endTime } = pools[0]);
+    });
+
+    it("Should work correctly and withdraw unused rewards", async () => {
+      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(5_000));
+
+      await setNextBlockTimestamp(startTime - 5);
 
       await stakingContract.connect(alice).stake(1, getBigNumber(5_000));
 
@@ -851,27 +1678,276 @@ describe("Test Set Name", () => {
     });
   });
 
-  describe("'calculateRewards' function tests", () => {
-    let startTime;
-    let endTime;
+  describe("'pause' and 'unpause' function tests", () => {
+    let endTime: number;
 
     beforeEach(async () => {
+      const { pools } = await useFixture(stakedFixture);
+      ({ endTime } = pools[0]);
+    });
+
+    it("Should work correctly and pause staking and adding Staking Pools", async () => {
+      await expect(stakingContract.pause())
+        .to.emit(stakingContract, StakingPoolFixedApr_Paused_Event)
+        .withArgs(deployer.address);
+
+      expect(await stakingContract.paused()).to.be.true;
+
+      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
+
+      await expect(stakingContract.connect(alice).stake(1, getBigNumber(1_000))).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_Paused_Error
+      );
+      await expect(
+        stakingContract.connect(alice).stakeFor(bob.address, 1, getBigNumber(1_000))
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_Paused_Error);
+      await expect(
+        stakingContract
+          .connect(alice)
+          .stakeWithPermit(1, getBigNumber(1_000), 0, 0, ethers.constants.HashZero, ethers.constants.HashZero)
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_Paused_Error);
+
       lastBlockTime = await getLastBlockTimestamp();
 
-      startTime = lastBlockTime + 60;
-      endTime = lastBlockTime + 3_660;
+      await expect(
+        stakingContract.addStakingPool(
+          getBigNumber(1_000),
+          0,
+          erc20fee.address,
+          lastBlockTime + 60,
+          lastBlockTime + 3_660,
+          1_000,
+          EARLY_UNSTAKE_DISABLED
+        )
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_Paused_Error);
+      await expect(stakingContract.addStakingPools([])).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_Paused_Error
+      );
+    });
 
-      await erc20fee.approve(stakingContract.address, getBigNumber(10_000));
+    it("Should allow unstake, top up and withdraw of unused rewards when paused", async () => {
+      await stakingContract.pause();
 
-      await stakingContract.addStakingPool(
-        getBigNumber(10_000),
-        getBigNumber(1),
-        erc20fee.address,
-        startTime,
-        endTime,
-        1_000
+      await erc20fee.approve(stakingContract.address, getBigNumber(1_000));
+      await expect(stakingContract.topUpRewards(1, getBigNumber(1_000))).to.emit(
+        stakingContract,
+        StakingPoolFixedApr_RewardsToppedUp_Event
+      );
+
+      await setNextBlockTimestamp(endTime + 1);
+
+      await expect(stakingContract.connect(alice).unstake(1)).to.emit(
+        stakingContract,
+        StakingPoolFixedApr_Unstaked_Event
+      );
+      await expect(stakingContract.withdrawUnusedRewards(1)).to.emit(
+        stakingContract,
+        StakingPoolFixedApr_Withdrawn_Event
+      );
+    });
+
+    it("Should work correctly and unpause staking", async () => {
+      await stakingContract.pause();
+
+      await expect(stakingContract.unpause())
+        .to.emit(stakingContract, StakingPoolFixedApr_Unpaused_Event)
+        .withArgs(deployer.address);
+
+      expect(await stakingContract.paused()).to.be.false;
+
+      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
+      await expect(stakingContract.connect(alice).stake(1, getBigNumber(1_000))).to.emit(
+        stakingContract,
+        StakingPoolFixedApr_Staked_Event
+      );
+    });
+
+    it("Should revert when caller isn't the owner", async () => {
+      await expect(stakingContract.connect(alice).pause()).to.be.revertedWithCustomError(
+        stakingContract,
+        Ownable_NotOwner_Error
+      );
+
+      await stakingContract.pause();
+
+      await expect(stakingContract.connect(alice).unpause()).to.be.revertedWithCustomError(
+        stakingContract,
+        Ownable_NotOwner_Error
+      );
+    });
+
+    it("Should revert when contract is already paused or unpaused", async () => {
+      await expect(stakingContract.unpause()).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_NotPaused_Error
+      );
+
+      await stakingContract.pause();
+
+      await expect(stakingContract.pause()).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_Paused_Error
+      );
+    });
+
+    it("Should revert unpause in emergency mode", async () => {
+      await stakingContract.enableEmergencyMode();
+
+      await expect(stakingContract.unpause()).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_EmergencyModeEnabled_Error
+      );
+    });
+  });
+
+  describe("'enableEmergencyMode' function tests", () => {
+    beforeEach(async () => {
+      await useFixture(stakedFixture);
+    });
+
+    it("Should work correctly and enable emergency mode with pause", async () => {
+      await expect(stakingContract.enableEmergencyMode())
+        .to.emit(stakingContract, StakingPoolFixedApr_Paused_Event)
+        .withArgs(deployer.address)
+        .and.to.emit(stakingContract, StakingPoolFixedApr_EmergencyModeEnabled_Event)
+        .withArgs(deployer.address);
+
+      expect(await stakingContract.emergencyMode()).to.be.true;
+      expect(await stakingContract.paused()).to.be.true;
+    });
+
+    it("Should work correctly and enable emergency mode of paused contract", async () => {
+      await stakingContract.pause();
+
+      await expect(stakingContract.enableEmergencyMode())
+        .to.emit(stakingContract, StakingPoolFixedApr_EmergencyModeEnabled_Event)
+        .and.not.to.emit(stakingContract, StakingPoolFixedApr_Paused_Event);
+    });
+
+    it("Should revert when caller isn't the owner", async () => {
+      await expect(stakingContract.connect(alice).enableEmergencyMode()).to.be.revertedWithCustomError(
+        stakingContract,
+        Ownable_NotOwner_Error
+      );
+    });
+
+    it("Should revert when emergency mode is already enabled", async () => {
+      await stakingContract.enableEmergencyMode();
+
+      await expect(stakingContract.enableEmergencyMode()).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_EmergencyModeEnabled_Error
+      );
+    });
+  });
+
+  describe("'emergencyWithdraw' function tests", () => {
+    let endTime: number;
+
+    beforeEach(async () => {
+      const { pools } = await useFixture(stakedFixture);
+      ({ endTime } = pools[0]);
+    });
+
+    it("Should work correctly and withdraw staked tokens without rewards", async () => {
+      const userStake = await stakingContract.stakes(1);
+      const preUserBalance = await erc20fee.balanceOf(alice.address);
+
+      await stakingContract.enableEmergencyMode();
+
+      await expect(stakingContract.connect(alice).emergencyWithdraw(1))
+        .to.emit(stakingContract, StakingPoolFixedApr_EmergencyWithdrawn_Event)
+        .withArgs(alice.address, 1, userStake.rewards)
+        .and.to.emit(stakingContract, StakingPoolFixedApr_Unstaked_Event)
+        .withArgs(alice.address, 1);
+
+      expect(await erc20fee.balanceOf(alice.address)).to.be.equal(preUserBalance.add(getBigNumber(1_000)));
+      expect((await stakingContract.stakes(1)).owner).to.be.equal(ethers.constants.AddressZero);
+      expect(await stakingContract.getAllUserStakeIds(alice.address)).to.be.empty;
+      expect(await stakingContract.rewardsDistributed(1)).to.be.equal(0);
+    });
+
+    it("Should keep accounting consistent and let the owner withdraw all rewards before end time", async () => {
+      await erc20fee.connect(bob).approve(stakingContract.address, getBigNumber(2_000));
+      await stakingContract.connect(bob).stake(1, getBigNumber(2_000));
+
+      const bobStake = await stakingContract.stakes(2);
+
+      await stakingContract.enableEmergencyMode();
+
+      await stakingContract.connect(alice).emergencyWithdraw(1);
+
+      // Unused rewards contain forfeited rewards of alice, rewards of bob are still reserved.
+      await expect(stakingContract.withdrawUnusedRewards(1))
+        .to.emit(stakingContract, StakingPoolFixedApr_Withdrawn_Event)
+        .withArgs(1, getBigNumber(10_000).sub(bobStake.rewards));
+
+      expect(await erc20fee.balanceOf(stakingContract.address)).to.be.equal(bobStake.staked.add(bobStake.rewards));
+
+      await stakingContract.connect(bob).emergencyWithdraw(2);
+
+      await expect(stakingContract.withdrawUnusedRewards(1))
+        .to.emit(stakingContract, StakingPoolFixedApr_Withdrawn_Event)
+        .withArgs(1, bobStake.rewards);
+
+      expect(await erc20fee.balanceOf(stakingContract.address)).to.be.equal(0);
+      expect(await stakingContract.getStakingPoolStatus(1, endTime + 1)).to.be.equal(4); // Finalized
+    });
+
+    it("Should allow unstake of matured Stake with rewards in emergency mode", async () => {
+      const userStake = await stakingContract.stakes(1);
+      const preUserBalance = await erc20fee.balanceOf(alice.address);
+
+      await stakingContract.enableEmergencyMode();
+
+      await setNextBlockTimestamp(endTime + 1);
+
+      await stakingContract.connect(alice).unstake(1);
+
+      expect(await erc20fee.balanceOf(alice.address)).to.be.equal(
+        preUserBalance.add(userStake.staked).add(userStake.rewards)
+      );
+    });
+
+    it("Should revert when emergency mode isn't enabled", async () => {
+      await stakingContract.pause();
+
+      await expect(stakingContract.connect(alice).emergencyWithdraw(1)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_EmergencyModeNotEnabled_Error
+      );
+    });
+
+    it("Should revert when Stake doesn't belong to the user", async () => {
+      await stakingContract.enableEmergencyMode();
+
+      await expect(stakingContract.connect(bob).emergencyWithdraw(1)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StakeNotExists_Error
+      );
+    });
+
+    it("Should revert when Stake was already withdrawn", async () => {
+      await stakingContract.enableEmergencyMode();
+
+      await stakingContract.connect(alice).emergencyWithdraw(1);
+
+      await expect(stakingContract.connect(alice).emergencyWithdraw(1)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_StakeNotExists_Error
       );
     });
+  });
+
+  describe("'calculateRewards' function tests", () => {
+    let startTime: number;
+
+    beforeEach(async () => {
+      const { pools } = await useFixture(stakingPoolFixture);
+      startTime = pools[0].startTime;
+    });
 
     it("Should work correctly and calculate rewards (before Staking Pool start time)", async () => {
       const calculatedRewards = await stakingContract.calculateRewards(1, getBigNumber(10_000));
@@ -896,27 +1972,8 @@ describe("Test Set Name", () => {
   });
 
   describe("'getAllUserids' function tests", () => {
-    let startTime;
-    let endTime;
-
     beforeEach(async () => {
-      lastBlockTime = await getLastBlockTimestamp();
-
-      startTime = lastBlockTime + 60;
-      endTime = lastBlockTime + 3_660;
-
-      await erc20fee.approve(stakingContract.address, getBigNumber(10_000));
-
-      await stakingContract.addStakingPool(
-        getBigNumber(10_000),
-        getBigNumber(1),
-        erc20fee.address,
-        startTime,
-        endTime,
-        1_000
-      );
-
-      await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+      await useFixture(stakingPoolFixture);
     });
 
     it("Should return empty array", async () => {
@@ -943,27 +2000,11 @@ describe("Test Set Name", () => {
   });
 
   describe("'getAllUserStakes' function tests", () => {
-    let startTime;
-    let endTime;
+    let endTime: number;
 
     beforeEach(async () => {
-      lastBlockTime = await getLastBlockTimestamp();
-
-      startTime = lastBlockTime + 60;
-      endTime = lastBlockTime + 3_660;
-
-      await erc20fee.approve(stakingContract.address, getBigNumber(10_000));
-
-      await stakingContract.addStakingPool(
-        getBigNumber(10_000),
-        getBigNumber(1),
-        erc20fee.address,
-        startTime,
-        endTime,
-        1_000
-      );
-
-      await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+      const { pools } = await useFixture(stakingPoolFixture);
+      endTime = pools[0].endTime;
     });
 
     it("Should return empty array", async () => {
@@ -1044,6 +2085,10 @@ describe("Test Set Name", () => {
   });
 
   describe("'getAllStakingPools' function tests", () => {
+    beforeEach(async () => {
+      await useFixture(deployStakingFixture);
+    });
+
     it("Should return empty array", async () => {
       const stakingPools = await stakingContract.getAllStakingPools();
 
@@ -1075,7 +2120,8 @@ describe("Test Set Name", () => {
         erc20fee.address,
         firstStartTime,
         firstEndTime,
-        1_000
+        1_000,
+        EARLY_UNSTAKE_DISABLED
       );
 
       await stakingContract.addStakingPool(
@@ -1084,7 +2130,8 @@ describe("Test Set Name", () => {
         erc20fee.address,
         secondStartTime,
         secondEndTime,
-        1_000
+        1_000,
+        EARLY_UNSTAKE_DISABLED
       );
 
       await stakingContract.addStakingPool(
@@ -1093,7 +2140,8 @@ describe("Test Set Name", () => {
         erc20fee.address,
         thirdStartTime,
         thirdEndTime,
-        1_000
+        1_000,
+        EARLY_UNSTAKE_DISABLED
       );
 
       await stakingContract.addStakingPool(
@@ -1102,7 +2150,8 @@ describe("Test Set Name", () => {
         erc20fee.address,
         fourthStartTime,
         fourthEndTime,
-        5_000
+        5_000,
+        EARLY_UNSTAKE_DISABLED
       );
 
       await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(5_000));
@@ -1160,4 +2209,152 @@ describe("Test Set Name", () => {
       expect(stakingPools[3].status).to.be.equal(2);
     });
   });
+
+  describe("'getStakingPools' function tests", () => {
+    const ALL_POOLS = { statuses: 0, token: ethers.constants.AddressZero };
+
+    let secondToken: ERC20FeeMock;
+
+    beforeEach(async () => {
+      ({ secondToken } = await useFixture(manyPoolsFixture));
+    });
+
+    it("Should return the same Pools as 'getAllStakingPools' page by page", async () => {
+      const allStakingPools = await stakingContract.getAllStakingPools();
+
+      const [firstPage, firstNextOffset] = await stakingContract.getStakingPools(0, 120, ALL_POOLS);
+      const [secondPage, secondNextOffset] = await stakingContract.getStakingPools(120, 120, ALL_POOLS);
+      const [lastPage, lastNextOffset] = await stakingContract.getStakingPools(240, 120, ALL_POOLS);
+
+      expect(await stakingContract.getStakingPoolsCount()).to.be.equal(300);
+      expect(firstNextOffset).to.be.equal(120);
+      expect(secondNextOffset).to.be.equal(240);
+      expect(lastPage.length).to.be.equal(60);
+      expect(lastNextOffset).to.be.equal(0);
+      expect([...firstPage, ...secondPage, ...lastPage]).to.be.deep.equal(allStakingPools);
+    });
+
+    it("Should stay within the gas limit which 'getAllStakingPools' exceeds", async () => {
+      const pageGas = await stakingContract.estimateGas.getStakingPools(0, 50, ALL_POOLS);
+      const allGas = await stakingContract.estimateGas.getAllStakingPools();
+
+      expect(allGas).to.be.gt(pageGas.mul(5));
+
+      const gasLimit = pageGas.mul(2);
+
+      expect(await stakingContract.getAllStakingPools({ gasLimit }).catch(e => e)).to.be.instanceOf(Error);
+      expect(
+        (await stakingContract.getStakingPools(250, 50, ALL_POOLS, { gasLimit })).stakingPoolDtos.length
+      ).to.be.equal(50);
+    });
+
+    it("Should filter Pools by status and token", async () => {
+      const ended = 1 << 3;
+      const pendingOrOpen = (1 << 0) | (1 << 1);
+
+      const [endedPools] = await stakingContract.getStakingPools(0, 300, { statuses: ended, token: ALL_POOLS.token });
+      const [openPools] = await stakingContract.getStakingPools(0, 300, {
+        statuses: pendingOrOpen,
+        token: ALL_POOLS.token,
+      });
+      const [secondTokenPools] = await stakingContract.getStakingPools(0, 300, {
+        statuses: ended,
+        token: secondToken.address,
+      });
+
+      expect(endedPools.length).to.be.equal(100);
+      expect(endedPools.every(stakingPool => stakingPool.id.mod(3).eq(0) && stakingPool.status === 3)).to.be.true;
+      expect(openPools.length).to.be.equal(200);
+      expect(secondTokenPools.map(stakingPool => stakingPool.id.toNumber())).to.be.deep.equal(
+        Array.from({ length: 10 }, (_, i) => 30 * (i + 1))
+      );
+    });
+
+    it("Should check at most 'limit' Pools and return partial page", async () => {
+      const [stakingPools, nextOffset] = await stakingContract.getStakingPools(0, 10, {
+        statuses: 0,
+        token: secondToken.address,
+      });
+
+      expect(stakingPools.map(stakingPool => stakingPool.id)).to.be.deep.equal([BigNumber.from(10)]);
+      expect(nextOffset).to.be.equal(10);
+    });
+
+    it("Should return empty page for offset out of range", async () => {
+      const [stakingPools, nextOffset] = await stakingContract.getStakingPools(300, 10, ALL_POOLS);
+
+      expect(stakingPools).to.be.empty;
+      expect(nextOffset).to.be.equal(0);
+    });
+
+    it("Should revert for zero limit", async () => {
+      await expect(stakingContract.getStakingPools(0, 0, ALL_POOLS)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_ZeroLimit_Error
+      );
+    });
+  });
+
+  describe("'getStakingPool' function tests", () => {
+    beforeEach(async () => {
+      await useFixture(manyPoolsFixture);
+    });
+
+    it("Should return the same Pool as 'getAllStakingPools'", async () => {
+      const allStakingPools = await stakingContract.getAllStakingPools();
+
+      expect(await stakingContract.getStakingPool(150)).to.be.deep.equal(allStakingPools[149]);
+    });
+
+    it("Should revert when Staking Pool doesn't exist", async () => {
+      await expect(stakingContract.getStakingPool(301)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_PoolNotExists_Error
+      );
+    });
+  });
+
+  describe("'getUserStakes' function tests", () => {
+    beforeEach(async () => {
+      await useFixture(manyPoolsFixture);
+    });
+
+    it("Should return the same Stakes as 'getAllUserStakes' page by page", async () => {
+      const allUserStakes = await stakingContract.getAllUserStakes(alice.address);
+
+      const [firstPage, firstNextOffset] = await stakingContract.getUserStakes(alice.address, 0, 150);
+      const [lastPage, lastNextOffset] = await stakingContract.getUserStakes(alice.address, firstNextOffset, 150);
+
+      expect(await stakingContract.getUserStakesCount(alice.address)).to.be.equal(200);
+      expect(firstNextOffset).to.be.equal(150);
+      expect(lastNextOffset).to.be.equal(0);
+      expect([...firstPage, ...lastPage]).to.be.deep.equal(allUserStakes);
+    });
+
+    it("Should stay within the gas limit which 'getAllUserStakes' exceeds", async () => {
+      const pageGas = await stakingContract.estimateGas.getUserStakes(alice.address, 0, 20);
+      const gasLimit = pageGas.mul(2);
+
+      expect(await stakingContract.estimateGas.getAllUserStakes(alice.address)).to.be.gt(pageGas.mul(5));
+      expect(await stakingContract.getAllUserStakes(alice.address, { gasLimit }).catch(e => e)).to.be.instanceOf(Error);
+      expect((await stakingContract.getUserStakes(alice.address, 180, 20, { gasLimit })).userStakes.length).to.be.equal(
+        20
+      );
+    });
+
+    it("Should return empty page for user without Stakes", async () => {
+      const [userStakes, nextOffset] = await stakingContract.getUserStakes(bob.address, 0, 10);
+
+      expect(userStakes).to.be.empty;
+      expect(nextOffset).to.be.equal(0);
+      expect(await stakingContract.getUserStakesCount(bob.address)).to.be.equal(0);
+    });
+
+    it("Should revert for zero limit", async () => {
+      await expect(stakingContract.getUserStakes(alice.address, 0, 0)).to.be.revertedWithCustomError(
+        stakingContract,
+        StakingPoolFixedApr_ZeroLimit_Error
+      );
+    });
+  });
 });
@@ -0,0 +1,202 @@
+import { ethers, network } from "hardhat";
+import { expect } from "chai";
+import { EARLY_UNSTAKE_DISABLED, getLastBlockTimestamp, setNextBlockTimestampAndAdvanceBlock } from "./utilities";
+
+import { StakingPoolsFixedApr } from "../typechain";
+import { BigNumber, Contract, utils } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { HardhatNetworkConfig } from "hardhat/types";
+import { calculateRewards } from "../sdk";
+import { FORK_BLOCK_NUMBER } from "../utilities/networks";
+
+// Transactions are sent without decoding the return value, so the ABI works for tokens without return values too.
+const ERC20_ABI = [
+  "function balanceOf(address account) view returns (uint256)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+// Binance 14 hot wallet, holds all tokens below at the fork block.
+const BINANCE_WHALE = "0x28C6c06298d514Db089934071355E5743bf21d60";
+
+interface ForkTokenCase {
+  name: string;
+  address: string;
+  whale: string;
+  decimals: number;
+  // Custom error of 'addStakingPool' for tokens which cannot be used in the Pool.
+  addStakingPoolError?: string;
+}
+
+const FORK_TOKEN_CASES: ForkTokenCase[] = [
+  {
+    name: "USDC (6 decimals)",
+    address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+    whale: BINANCE_WHALE,
+    decimals: 6,
+  },
+  {
+    name: "USDT (no return value)",
+    address: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+    whale: BINANCE_WHALE,
+    decimals: 6,
+  },
+  {
+    name: "PAXG (fee on transfer)",
+    address: "0x45804880De22913dAFE09f4980848ECE6EcbAf78",
+    whale: BINANCE_WHALE,
+    decimals: 18,
+    addStakingPoolError: "StakingPoolFixedApr_IncorrectAmountTransferred",
+  },
+];
+
+const DURATION = 30 * 24 * 60 * 60;
+const APR = 1_000;
+
+// Returns signer of the account with ETH for gas, 'hardhat_impersonateAccount' lets it send transactions.
+async function impersonate(address: string): Promise<SignerWithAddress> {
+  await network.provider.send("hardhat_impersonateAccount", [address]);
+  await network.provider.send("hardhat_setBalance", [address, utils.hexValue(utils.parseEther("10"))]);
+
+  return ethers.getSigner(address);
+}
+
+/**
+ * Fork is available when it's enabled and its pinned block can be fetched - from the fork cache written by the previous
+ * run or from the RPC. The block is fetched with a timeout, because the forked network retries unreachable RPC until
+ * the test timeout, and a cache of another block or RPC doesn't help.
+ */
+async function isForkAvailable(): Promise<boolean> {
+  const forking = (network.config as HardhatNetworkConfig).forking;
+  if (!forking?.enabled) {
+    return false;
+  }
+
+  const forkBlockNumber = forking.blockNumber ?? FORK_BLOCK_NUMBER;
+  let timeout: NodeJS.Timeout | undefined;
+
+  try {
+    const block = await Promise.race([
+      network.provider.send("eth_getBlockByNumber", [utils.hexValue(forkBlockNumber), false]),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => reject(new Error(`block ${forkBlockNumber} wasn't fetched in 10 seconds`)), 10_000);
+      }),
+    ]);
+
+    return block !== null && BigNumber.from(block.number).eq(forkBlockNumber);
+  } catch (e) {
+    console.log(`    Fork isn't available: ${(e as Error).message}`);
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+describe("Mainnet fork", function () {
+  // First requests of the fork block are fetched from the RPC.
+  this.timeout(300_000);
+
+  before(async function () {
+    if (!(await isForkAvailable())) {
+      this.skip();
+    }
+
+    expect(await ethers.provider.getBlockNumber()).to.be.gte(FORK_BLOCK_NUMBER);
+  });
+
+  for (const tokenCase of FORK_TOKEN_CASES) {
+    describe(tokenCase.name, () => {
+      let deployer: SignerWithAddress;
+      let alice: SignerWithAddress;
+
+      let stakingContract: StakingPoolsFixedApr;
+      let token: Contract;
+      let startTime: number;
+      let endTime: number;
+
+      const units = (amount: number) => utils.parseUnits(amount.toString(), tokenCase.decimals);
+
+      before(async () => {
+        [deployer, alice] = await ethers.getSigners();
+
+        const stakingContractFactory = await ethers.getContractFactory("StakingPoolsFixedApr");
+        stakingContract = (await stakingContractFactory.deploy()) as StakingPoolsFixedApr;
+
+        token = new Contract(tokenCase.address, ERC20_ABI, deployer);
+
+        const whale = await impersonate(tokenCase.whale);
+        await token.connect(whale).transfer(deployer.address, units(10_000));
+        await token.connect(whale).transfer(alice.address, units(1_000));
+      });
+
+      if (tokenCase.addStakingPoolError) {
+        it("Should revert adding Staking Pool", async () => {
+          startTime = (await getLastBlockTimestamp()) + 60;
+          endTime = startTime + DURATION;
+
+          await token.approve(stakingContract.address, units(1_000));
+
+          await expect(
+            stakingContract.addStakingPool(
+              units(1_000),
+              0,
+              token.address,
+              startTime,
+              endTime,
+              APR,
+              EARLY_UNSTAKE_DISABLED
+            )
+          ).to.be.revertedWithCustomError(stakingContract, tokenCase.addStakingPoolError as string);
+        });
+
+        return;
+      }
+
+      it("Should add Staking Pool", async () => {
+        startTime = (await getLastBlockTimestamp()) + 60;
+        endTime = startTime + DURATION;
+
+        await token.approve(stakingContract.address, units(1_000));
+        await stakingContract.addStakingPool(
+          units(1_000),
+          0,
+          token.address,
+          startTime,
+          endTime,
+          APR,
+          EARLY_UNSTAKE_DISABLED
+        );
+
+        expect(await token.balanceOf(stakingContract.address)).to.be.equal(units(1_000));
+      });
+
+      it("Should stake", async () => {
+        await token.connect(alice).approve(stakingContract.address, units(1_000));
+        await stakingContract.connect(alice).stake(1, units(1_000));
+
+        const [userStake] = await stakingContract.getAllUserStakes(alice.address);
+
+        expect(userStake.rewards).to.be.equal(calculateRewards(units(1_000), startTime, endTime, APR));
+        expect(await token.balanceOf(stakingContract.address)).to.be.equal(units(2_000));
+      });
+
+      it("Should unstake with rewards after end time", async () => {
+        const [userStake] = await stakingContract.getAllUserStakes(alice.address);
+
+        await setNextBlockTimestampAndAdvanceBlock(endTime + 1);
+        await stakingContract.connect(alice).unstake(userStake.id);
+
+        expect(await token.balanceOf(alice.address)).to.be.equal(units(1_000).add(userStake.rewards));
+      });
+
+      it("Should withdraw unused rewards", async () => {
+        const [stakingPool] = await stakingContract.getAllStakingPools();
+
+        await stakingContract.withdrawUnusedRewards(1);
+
+        expect(await token.balanceOf(deployer.address)).to.be.equal(units(10_000).sub(stakingPool.rewardsDistributed));
+        expect(await token.balanceOf(stakingContract.address)).to.be.equal(0);
+      });
+    });
+  }
+});
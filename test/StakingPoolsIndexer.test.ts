@@ -0,0 +1,220 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { getBigNumber, getLastBlockTimestamp, loadFixture, scenario, ScenarioResult } from "./utilities";
+
+import { StakingPoolsFixedApr } from "../typechain";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import {
+  EarlyUnstakeMode,
+  IndexerStore,
+  StakeLifecycle,
+  StakeRecord,
+  StakingPoolsIndexer,
+  toReport,
+  toSqlite,
+} from "../sdk";
+
+// Two Pools (1 and 2 hours long) with Stakes of alice and bob.
+async function stakedPoolsFixture(): Promise<ScenarioResult> {
+  const [, alice, bob] = await ethers.getSigners();
+
+  return scenario()
+    .pool({ rewards: 10_000, minimum: 1, apr: "10%", duration: "1h" })
+    .pool({ rewards: 10_000, minimum: 1, apr: "10%", duration: "2h" })
+    .stake(alice, 1_000, 1)
+    .stake(bob, 2_000, 1)
+    .stake(alice, 4_000, 2);
+}
+
+describe("StakingPoolsIndexer", () => {
+  let [alice, bob]: SignerWithAddress[] = [];
+
+  let fixture: ScenarioResult;
+  let deploymentBlock: number;
+
+  let stakingContract: StakingPoolsFixedApr;
+
+  beforeEach(async () => {
+    fixture = await loadFixture(stakedPoolsFixture);
+    ({ alice, bob, stakingContract } = fixture);
+
+    deploymentBlock = (await stakingContract.deployTransaction.wait()).blockNumber;
+  });
+
+  it("Should rebuild Pools, Stake lifecycles and withdrawals from events", async () => {
+    await scenario(fixture)
+      .at(fixture.pools[0].endTime + 1)
+      .unstake(alice, 1)
+      .withdraw(1);
+
+    const store = new IndexerStore(deploymentBlock);
+    const indexer = new StakingPoolsIndexer(stakingContract, store, { confirmations: 0, batchSize: 3 });
+
+    const result = await indexer.sync();
+
+    expect(result.events).to.be.equal(7);
+
+    const [pool1, pool2] = store.getPools();
+    const [stake1, stake2, stake3] = store.getStakes();
+
+    expect(pool1.totalStaked).to.be.equal(getBigNumber(3_000));
+    expect(pool1.activeStaked).to.be.equal(getBigNumber(2_000));
+    expect(pool1.rewardsDistributed).to.be.equal(stake1.rewards.add(stake2.rewards));
+    expect(pool1.rewardsPaid).to.be.equal(stake1.rewards);
+    expect(pool1.unusedRewardsWithdrawn).to.be.equal(getBigNumber(10_000).sub(stake1.rewards).sub(stake2.rewards));
+    expect(pool1.stakesCount).to.be.equal(2);
+    expect(pool2.activeStaked).to.be.equal(getBigNumber(4_000));
+
+    const now = await getLastBlockTimestamp();
+    expect(store.getStakeLifecycle(stake1, now)).to.be.equal(StakeLifecycle.Withdrawn);
+    expect(store.getStakeLifecycle(stake2, now)).to.be.equal(StakeLifecycle.Matured);
+    expect(store.getStakeLifecycle(stake3, now)).to.be.equal(StakeLifecycle.Open);
+    expect(store.getStakes(alice.address).map(userStake => userStake.id)).to.be.deep.equal([1, 3]);
+
+    expect(store.getWithdrawals().length).to.be.equal(1);
+    expect(store.getWithdrawals()[0].amount).to.be.equal(pool1.unusedRewardsWithdrawn);
+  });
+
+  it("Should return forfeited rewards and fee of early unstake to the Pool", async () => {
+    const { pools } = await scenario(fixture)
+      .pool({
+        rewards: 10_000,
+        apr: "10%",
+        duration: "365d",
+        earlyUnstake: { mode: EarlyUnstakeMode.ForfeitAll, principalFee: 500 },
+      })
+      .stake(bob, 1_000)
+      .unstake(bob);
+
+    const store = new IndexerStore(deploymentBlock);
+    await new StakingPoolsIndexer(stakingContract, store, { confirmations: 0 }).sync();
+
+    const pool = store.getPool(pools[2].id);
+    const userStake = store.getStake(4);
+
+    expect(pool?.earlyUnstakeMode).to.be.equal(EarlyUnstakeMode.ForfeitAll);
+    expect(pool?.rewardsAdded).to.be.equal(getBigNumber(10_050));
+    expect(pool?.rewardsDistributed).to.be.equal(0);
+    expect(pool?.rewardsPaid).to.be.equal(0);
+    expect(userStake?.forfeitedRewards).to.be.equal(getBigNumber(100));
+    expect(userStake?.earlyUnstakeFee).to.be.equal(getBigNumber(50));
+  });
+
+  it("Should add topped up rewards and the extended end time to the Pool", async () => {
+    const { pools, erc20fee } = await scenario(fixture).pool({
+      rewards: 1_000,
+      apr: "10%",
+      start: "1d",
+      duration: "1d",
+    });
+    const endTime = pools[2].endTime + 86_400;
+
+    await erc20fee.approve(stakingContract.address, getBigNumber(500));
+    await stakingContract.topUpRewards(pools[2].id, getBigNumber(500));
+    await stakingContract.extendStakingPool(pools[2].id, endTime);
+
+    const store = new IndexerStore(deploymentBlock);
+    await new StakingPoolsIndexer(stakingContract, store, { confirmations: 0 }).sync();
+
+    const pool = store.getPool(pools[2].id);
+
+    expect(pool?.rewardsAdded).to.be.equal(getBigNumber(1_500));
+    expect(pool?.rewardsToppedUp).to.be.equal(getBigNumber(500));
+    expect(pool?.endTime).to.be.equal(endTime);
+  });
+
+  it("Should move transferred Stake to the new owner", async () => {
+    await stakingContract.connect(alice).transferStake(1, bob.address);
+
+    const store = new IndexerStore(deploymentBlock);
+    await new StakingPoolsIndexer(stakingContract, store, { confirmations: 0 }).sync();
+
+    expect(store.getStake(1)?.user).to.be.equal(bob.address);
+    expect(store.getStakes(alice.address).map(userStake => userStake.id)).to.be.deep.equal([3]);
+    expect(store.getStakes(bob.address).map(userStake => userStake.id)).to.be.deep.equal([1, 2]);
+  });
+
+  it("Should return forfeited rewards of emergency withdraw to the Pool", async () => {
+    await stakingContract.enableEmergencyMode();
+    await stakingContract.connect(alice).emergencyWithdraw(1);
+
+    const store = new IndexerStore(deploymentBlock);
+    await new StakingPoolsIndexer(stakingContract, store, { confirmations: 0 }).sync();
+
+    const pool = store.getPool(1);
+    const userStake = store.getStake(1) as StakeRecord;
+
+    expect(pool?.activeStaked).to.be.equal(getBigNumber(2_000));
+    expect(pool?.rewardsDistributed).to.be.equal(store.getStake(2)?.rewards);
+    expect(pool?.rewardsPaid).to.be.equal(0);
+    expect(userStake.forfeitedRewards).to.be.equal(userStake.rewards);
+    expect(store.getStakeLifecycle(userStake, await getLastBlockTimestamp())).to.be.equal(StakeLifecycle.Withdrawn);
+  });
+
+  it("Should continue from the checkpoint and restore from the snapshot", async () => {
+    const store = new IndexerStore(deploymentBlock);
+    await new StakingPoolsIndexer(stakingContract, store, { confirmations: 0 }).sync();
+
+    await scenario(fixture).stake(bob, 1_000, 2);
+
+    const restored = IndexerStore.fromSnapshot(JSON.parse(JSON.stringify(store.toSnapshot())));
+    const result = await new StakingPoolsIndexer(stakingContract, restored, { confirmations: 0 }).sync();
+
+    expect(result.events).to.be.equal(1);
+    expect(restored.getStakes().length).to.be.equal(4);
+    expect(restored.getPool(2)?.activeStaked).to.be.equal(getBigNumber(5_000));
+  });
+
+  it("Should skip blocks without enough confirmations", async () => {
+    const store = new IndexerStore(deploymentBlock);
+    const latestBlock = (await ethers.provider.getBlock("latest")).number;
+
+    // The last block contains the last Stake.
+    const result = await new StakingPoolsIndexer(stakingContract, store, { confirmations: 1 }).sync();
+
+    expect(result.toBlock).to.be.equal(latestBlock - 1);
+    expect(store.getStakes().length).to.be.equal(2);
+  });
+
+  it("Should roll back events from reorged blocks", async () => {
+    const store = new IndexerStore(deploymentBlock);
+    const indexer = new StakingPoolsIndexer(stakingContract, store, { confirmations: 0 });
+
+    const snapshotId = await ethers.provider.send("evm_snapshot", []);
+
+    await scenario(fixture).stake(bob, 1_000, 2);
+    await indexer.sync();
+
+    expect(store.getStakes().length).to.be.equal(4);
+
+    // Replaces the last block with a different one.
+    await ethers.provider.send("evm_revert", [snapshotId]);
+    await scenario(fixture).stake(alice, 3_000, 2);
+
+    const result = await indexer.sync();
+
+    expect(result.reorgedTo).to.be.lessThan(store.checkpoint?.blockNumber as number);
+    expect(store.getStakes().length).to.be.equal(4);
+    expect(store.getStake(4)?.user).to.be.equal(alice.address);
+    expect(store.getPool(2)?.activeStaked).to.be.equal(getBigNumber(7_000));
+  });
+
+  it("Should export JSON report and SQLite script", async () => {
+    const store = new IndexerStore(deploymentBlock);
+    await new StakingPoolsIndexer(stakingContract, store, { confirmations: 0 }).sync();
+
+    const timestamp = await getLastBlockTimestamp();
+    const report = toReport(store, timestamp);
+
+    expect(report.pools.length).to.be.equal(2);
+    expect(report.pools[0].totalStaked).to.be.equal(getBigNumber(3_000).toString());
+    expect(report.stakes[0].lifecycle).to.be.equal(StakeLifecycle.Open);
+    expect(report.stakes[0].unstakedAtBlock).to.be.null;
+
+    const sql = toSqlite(store, timestamp);
+
+    expect(sql).to.contain("CREATE TABLE stakes");
+    expect(sql.match(/INSERT INTO stakes/g)?.length).to.be.equal(3);
+    expect(sql).to.contain(`'${getBigNumber(4_000).toString()}'`);
+  });
+});
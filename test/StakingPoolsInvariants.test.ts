@@ -0,0 +1,341 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+  getBigNumber,
+  getLastBlockTimestamp,
+  getSeed,
+  Random,
+  setNextBlockTimestampAndAdvanceBlock,
+} from "./utilities";
+
+import { StakingPoolsFixedApr, ERC20FeeMock } from "../typechain";
+import { BigNumber, ContractTransaction } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { calculateEarlyUnstakePenalty, decodeStakingPoolsError, EarlyUnstakeMode } from "../sdk";
+
+describe("StakingPoolsFixedApr invariants", () => {
+  const RUNS = 5;
+  const STEPS = 80;
+
+  let [deployer, ...users]: SignerWithAddress[] = [];
+
+  let stakingContract: StakingPoolsFixedApr;
+  let erc20fee: ERC20FeeMock;
+
+  // Every Stake created during the run, used to verify contract storage and payouts.
+  let createdStakes: {
+    id: number;
+    user: string;
+    stakingPoolId: number;
+    staked: BigNumber;
+    rewards: BigNumber;
+    startTime: number;
+    unstakePossibleAt: number;
+  }[];
+  let paidStakeIds: Set<number>;
+  let stakingPoolsCount: number;
+
+  beforeEach(async () => {
+    [deployer, ...users] = (await ethers.getSigners()).slice(0, 5);
+
+    const erc20feeFactory = await ethers.getContractFactory("ERC20FeeMock");
+    erc20fee = (await erc20feeFactory.deploy(getBigNumber(1_000_000))) as ERC20FeeMock;
+
+    await erc20fee.updateExcludedFromFee(deployer.address, true);
+
+    for (const user of users) {
+      await erc20fee.transfer(user.address, getBigNumber(50_000));
+    }
+  });
+
+  // Deploys fresh contract for every run, so runs don't depend on each other.
+  async function deployStakingContract() {
+    const stakingContractFactory = await ethers.getContractFactory("StakingPoolsFixedApr");
+    stakingContract = (await stakingContractFactory.deploy()) as StakingPoolsFixedApr;
+
+    await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+    await erc20fee.approve(stakingContract.address, ethers.constants.MaxUint256);
+    for (const user of users) {
+      await erc20fee.connect(user).approve(stakingContract.address, ethers.constants.MaxUint256);
+    }
+
+    createdStakes = [];
+    paidStakeIds = new Set<number>();
+    stakingPoolsCount = 0;
+  }
+
+  // Executes transaction and returns custom error name if it reverted.
+  async function send(transaction: () => Promise<ContractTransaction>): Promise<string | undefined> {
+    try {
+      await (await transaction()).wait();
+      return undefined;
+    } catch (e) {
+      const error = decodeStakingPoolsError(e, stakingContract.interface);
+      if (!error) {
+        throw e;
+      }
+      return error.errorName;
+    }
+  }
+
+  async function addStakingPool(random: Random): Promise<string> {
+    const lastBlockTime = await getLastBlockTimestamp();
+
+    const rewardsAmount = getBigNumber(random.pick([1, random.int(1, 1_000)]));
+    const minimumToStake = getBigNumber(random.pick([0, 100]));
+    const startTime = lastBlockTime + random.int(2, 3_600);
+    const endTime = startTime + random.int(600, 2 * 86_400);
+    const apr = random.int(1, 5_000);
+    const earlyUnstake = {
+      mode: random.pick([EarlyUnstakeMode.Disabled, EarlyUnstakeMode.ProRata, EarlyUnstakeMode.ForfeitAll]),
+      principalFee: random.pick([0, random.int(1, 1_000)]),
+    };
+
+    const reverted = await send(() =>
+      stakingContract.addStakingPool(
+        rewardsAmount,
+        minimumToStake,
+        erc20fee.address,
+        startTime,
+        endTime,
+        apr,
+        earlyUnstake
+      )
+    );
+    if (!reverted) {
+      stakingPoolsCount++;
+    }
+    if (await stakingContract.paused()) {
+      expect(reverted, "addStakingPool when paused").to.be.equal("StakingPoolFixedApr_Paused");
+    }
+
+    const config = `${EarlyUnstakeMode[earlyUnstake.mode]}, ${earlyUnstake.principalFee}`;
+    return `addStakingPool(${rewardsAmount}, ${minimumToStake}, ${startTime}, ${endTime}, ${apr}, ${config}) ${
+      reverted ?? "ok"
+    }`;
+  }
+
+  async function stake(random: Random): Promise<string> {
+    const user = random.pick(users);
+    const stakingPoolId = random.int(1, stakingPoolsCount + 1);
+    const amount = getBigNumber(random.int(1, 5_000));
+
+    const reverted = await send(() => stakingContract.connect(user).stake(stakingPoolId, amount));
+    if (await stakingContract.paused()) {
+      expect(reverted, "stake when paused").to.be.equal("StakingPoolFixedApr_Paused");
+    }
+    if (!reverted) {
+      const id = createdStakes.length + 1;
+      const userStake = await stakingContract.stakes(id);
+
+      expect(userStake.owner).to.be.equal(user.address);
+      expect(userStake.staked).to.be.equal(amount);
+
+      createdStakes.push({
+        id,
+        user: user.address,
+        stakingPoolId,
+        staked: userStake.staked,
+        rewards: userStake.rewards,
+        startTime: userStake.startTime.toNumber(),
+        unstakePossibleAt: userStake.unstakePossibleAt.toNumber(),
+      });
+    }
+
+    return `stake(${user.address}, ${stakingPoolId}, ${amount}) ${reverted ?? "ok"}`;
+  }
+
+  async function unstake(random: Random): Promise<string> {
+    if (createdStakes.length === 0) {
+      return "unstake skipped";
+    }
+
+    const createdStake = random.pick(createdStakes);
+    const user = users.find(signer => signer.address === createdStake.user) as SignerWithAddress;
+
+    const balanceBefore = await erc20fee.balanceOf(user.address);
+    const reverted = await send(() => stakingContract.connect(user).unstake(createdStake.id));
+
+    if (paidStakeIds.has(createdStake.id)) {
+      expect(reverted, `Stake ${createdStake.id} paid twice`).to.be.equal("StakingPoolFixedApr_StakeNotExists");
+    }
+    if (reverted === "StakingPoolFixedApr_CannotUnstakeYet") {
+      const stakingPool = await stakingContract.stakingPools(createdStake.stakingPoolId);
+      expect(stakingPool.earlyUnstakeMode, `Stake ${createdStake.id} early unstake`).to.be.equal(
+        EarlyUnstakeMode.Disabled
+      );
+    }
+    if (!reverted) {
+      let payout = createdStake.staked.add(createdStake.rewards);
+
+      // Unstake is mined in its own block, so the penalty is calculated at the last block timestamp.
+      const timestamp = await getLastBlockTimestamp();
+      if (timestamp < createdStake.unstakePossibleAt) {
+        const stakingPool = await stakingContract.stakingPools(createdStake.stakingPoolId);
+        const { forfeitedRewards, fee } = calculateEarlyUnstakePenalty(
+          createdStake,
+          { mode: stakingPool.earlyUnstakeMode, principalFee: stakingPool.earlyUnstakeFee },
+          timestamp
+        );
+
+        payout = payout.sub(forfeitedRewards).sub(fee);
+      }
+
+      expect(await erc20fee.balanceOf(user.address)).to.be.equal(balanceBefore.add(payout));
+      paidStakeIds.add(createdStake.id);
+    }
+
+    return `unstake(${user.address}, ${createdStake.id}) ${reverted ?? "ok"}`;
+  }
+
+  async function emergencyWithdraw(random: Random): Promise<string> {
+    if (createdStakes.length === 0) {
+      return "emergencyWithdraw skipped";
+    }
+
+    const createdStake = random.pick(createdStakes);
+    const user = users.find(signer => signer.address === createdStake.user) as SignerWithAddress;
+
+    const balanceBefore = await erc20fee.balanceOf(user.address);
+    const reverted = await send(() => stakingContract.connect(user).emergencyWithdraw(createdStake.id));
+
+    if (paidStakeIds.has(createdStake.id)) {
+      expect(reverted, `Stake ${createdStake.id} paid twice`).to.be.equal("StakingPoolFixedApr_StakeNotExists");
+    }
+    if (!reverted) {
+      // Only staked tokens are paid out, rewards are returned to the Pool unused rewards.
+      expect(await erc20fee.balanceOf(user.address)).to.be.equal(balanceBefore.add(createdStake.staked));
+      paidStakeIds.add(createdStake.id);
+    }
+
+    return `emergencyWithdraw(${user.address}, ${createdStake.id}) ${reverted ?? "ok"}`;
+  }
+
+  async function pause(): Promise<string> {
+    const reverted = await send(() => stakingContract.pause());
+
+    return `pause() ${reverted ?? "ok"}`;
+  }
+
+  async function unpause(): Promise<string> {
+    const reverted = await send(() => stakingContract.unpause());
+
+    return `unpause() ${reverted ?? "ok"}`;
+  }
+
+  async function enableEmergencyMode(): Promise<string> {
+    const reverted = await send(() => stakingContract.enableEmergencyMode());
+
+    return `enableEmergencyMode() ${reverted ?? "ok"}`;
+  }
+
+  async function withdrawUnusedRewards(random: Random): Promise<string> {
+    const stakingPoolId = random.int(1, stakingPoolsCount + 1);
+
+    const reverted = await send(() => stakingContract.withdrawUnusedRewards(stakingPoolId));
+
+    return `withdrawUnusedRewards(${stakingPoolId}) ${reverted ?? "ok"}`;
+  }
+
+  async function increaseTime(random: Random): Promise<string> {
+    const time = random.pick([random.int(1, 600), random.int(600, 86_400)]);
+
+    await setNextBlockTimestampAndAdvanceBlock((await getLastBlockTimestamp()) + time);
+
+    return `increaseTime(${time})`;
+  }
+
+  async function checkInvariants() {
+    const stakingPools = await stakingContract.getAllStakingPools();
+
+    let unusedRewards = BigNumber.from(0);
+    for (const stakingPool of stakingPools) {
+      expect(stakingPool.rewardsDistributed, `Pool ${stakingPool.id} rewardsDistributed`).to.be.lte(
+        stakingPool.rewardsAdded
+      );
+      unusedRewards = unusedRewards.add(stakingPool.rewardsAdded.sub(stakingPool.rewardsDistributed));
+    }
+
+    let outstanding = BigNumber.from(0);
+    const ownedStakeIds = new Map<string, number[]>(users.map(user => [user.address, []]));
+
+    for (const createdStake of createdStakes) {
+      const userStake = await stakingContract.stakes(createdStake.id);
+
+      if (paidStakeIds.has(createdStake.id)) {
+        expect(userStake.owner, `Stake ${createdStake.id} not deleted`).to.be.equal(ethers.constants.AddressZero);
+        continue;
+      }
+
+      expect(userStake.owner, `Stake ${createdStake.id} owner`).to.be.equal(createdStake.user);
+      outstanding = outstanding.add(userStake.staked).add(userStake.rewards);
+      ownedStakeIds.get(createdStake.user)?.push(createdStake.id);
+    }
+
+    expect(await erc20fee.balanceOf(stakingContract.address), "Contract balance").to.be.gte(
+      outstanding.add(unusedRewards)
+    );
+
+    for (const user of users) {
+      const userStakeIds = (await stakingContract.getAllUserStakeIds(user.address)).map(id => id.toNumber());
+
+      expect(
+        [...userStakeIds].sort((a, b) => a - b),
+        `userStakeIds of ${user.address}`
+      ).to.be.deep.equal(ownedStakeIds.get(user.address));
+    }
+  }
+
+  /**
+   * Runs random actions in fresh contracts and checks invariants after every step. With 'emergencyActions' the
+   * emergency mode is enabled in the second half of the run and these actions are used afterwards.
+   */
+  async function runActions(
+    actions: ((random: Random) => Promise<string>)[],
+    emergencyActions?: ((random: Random) => Promise<string>)[]
+  ) {
+    const seed = getSeed();
+
+    for (let run = 0; run < RUNS; run++) {
+      const random = new Random(seed + run);
+      const history: string[] = [];
+      const emergencyStep = emergencyActions ? random.int(STEPS / 2, STEPS - 10) : STEPS;
+
+      await deployStakingContract();
+
+      try {
+        for (let step = 0; step < STEPS; step++) {
+          if (step === emergencyStep) {
+            history.push(await enableEmergencyMode());
+          }
+
+          const stepActions = emergencyActions && step >= emergencyStep ? emergencyActions : actions;
+          const action = stakingPoolsCount === 0 ? addStakingPool : random.pick(stepActions);
+
+          history.push(await action(random));
+          await checkInvariants();
+        }
+      } catch (e) {
+        const sequence = history.map((entry, i) => `  ${i + 1}. ${entry}`).join("\n");
+        throw new Error(
+          `Invariant broken (RANDOM_SEED=${seed}, run ${run}): ${(e as Error).message}\nSequence:\n${sequence}`
+        );
+      }
+    }
+  }
+
+  it("Should keep invariants for random sequences of actions", async function () {
+    this.timeout(600_000);
+
+    await runActions([addStakingPool, stake, stake, stake, unstake, unstake, withdrawUnusedRewards, increaseTime]);
+  });
+
+  it("Should keep invariants when contract is paused and emergency mode is enabled", async function () {
+    this.timeout(600_000);
+
+    await runActions(
+      [addStakingPool, stake, stake, stake, unstake, withdrawUnusedRewards, increaseTime, pause, unpause],
+      [stake, unstake, emergencyWithdraw, emergencyWithdraw, withdrawUnusedRewards, increaseTime, unpause]
+    );
+  });
+});
@@ -0,0 +1,218 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+
+import {
+  deployStakingFixture,
+  EARLY_UNSTAKE_DISABLED,
+  getBigNumber,
+  getLastBlockTimestamp,
+  loadFixture,
+  StakingFixture,
+} from "./utilities";
+
+import { ERC20PermitMock } from "../typechain";
+import { calculateRewards, PermitFailedError, PermitSignature, signPermit, StakingPoolsClient } from "../sdk";
+
+interface PermitFixture extends StakingFixture {
+  permitToken: ERC20PermitMock;
+  startTime: number;
+  endTime: number;
+}
+
+// Pool 1 of the EIP-2612 token and Pool 2 of ERC20FeeMock (without permit), both with 10 000 rewards and 10% APR
+// lasting 1 hour. Alice has 10 000 tokens of each.
+async function permitFixture(): Promise<PermitFixture> {
+  const fixture = await loadFixture(deployStakingFixture);
+  const { alice, stakingContract, erc20fee } = fixture;
+
+  const permitTokenFactory = await ethers.getContractFactory("ERC20PermitMock");
+  const permitToken = (await permitTokenFactory.deploy(getBigNumber(1_000_000), 18)) as ERC20PermitMock;
+  await permitToken.transfer(alice.address, getBigNumber(10_000));
+
+  await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+
+  const startTime = (await getLastBlockTimestamp()) + 60;
+  const endTime = startTime + 3_600;
+
+  for (const token of [permitToken, erc20fee]) {
+    await token.approve(stakingContract.address, getBigNumber(10_000));
+    await stakingContract.addStakingPool(
+      getBigNumber(10_000),
+      getBigNumber(1),
+      token.address,
+      startTime,
+      endTime,
+      1_000,
+      EARLY_UNSTAKE_DISABLED
+    );
+  }
+
+  return { ...fixture, permitToken, startTime, endTime };
+}
+
+describe("Staking with permit", () => {
+  let fixture: PermitFixture;
+
+  const StakingPoolFixedApr_PermitFailed_Error = "StakingPoolFixedApr_PermitFailed";
+  const StakingPoolFixedApr_PoolNotExists_Error = "StakingPoolFixedApr_PoolNotExists";
+
+  beforeEach(async () => {
+    fixture = await loadFixture(permitFixture);
+  });
+
+  // Signs the permit of alice for the staking contract, valid for 1 hour.
+  async function signAlicePermit(value = getBigNumber(1_000), deadlineIn = 3_600): Promise<PermitSignature> {
+    const { alice, stakingContract, permitToken } = fixture;
+
+    const deadline = (await getLastBlockTimestamp()) + deadlineIn;
+    const permit = await signPermit(alice, permitToken.address, stakingContract.address, value, deadline);
+
+    return permit as PermitSignature;
+  }
+
+  describe("'stakeWithPermit' function tests", () => {
+    it("Should work correctly and stake without approve transaction", async () => {
+      const { alice, stakingContract, permitToken, startTime, endTime } = fixture;
+      const { deadline, v, r, s } = await signAlicePermit();
+
+      await expect(stakingContract.connect(alice).stakeWithPermit(1, getBigNumber(1_000), deadline, v, r, s))
+        .to.emit(stakingContract, "Staked")
+        .withArgs(
+          alice.address,
+          1,
+          1,
+          getBigNumber(1_000),
+          calculateRewards(getBigNumber(1_000), startTime, endTime, 1_000),
+          endTime
+        );
+
+      expect(await permitToken.balanceOf(alice.address)).to.be.equal(getBigNumber(9_000));
+      expect(await permitToken.allowance(alice.address, stakingContract.address)).to.be.equal(0);
+      expect(await permitToken.nonces(alice.address)).to.be.equal(1);
+    });
+
+    it("Should work correctly when permit was already used by someone else", async () => {
+      const { alice, bob, stakingContract, permitToken } = fixture;
+      const { deadline, v, r, s } = await signAlicePermit();
+
+      await permitToken
+        .connect(bob)
+        .permit(alice.address, stakingContract.address, getBigNumber(1_000), deadline, v, r, s);
+
+      await expect(stakingContract.connect(alice).stakeWithPermit(1, getBigNumber(1_000), deadline, v, r, s)).to.emit(
+        stakingContract,
+        "Staked"
+      );
+    });
+
+    it("Should work correctly for token without permit when allowance is enough", async () => {
+      const { alice, stakingContract, erc20fee } = fixture;
+
+      await erc20fee.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
+
+      await expect(
+        stakingContract
+          .connect(alice)
+          .stakeWithPermit(2, getBigNumber(1_000), 0, 0, ethers.constants.HashZero, ethers.constants.HashZero)
+      ).to.emit(stakingContract, "Staked");
+    });
+
+    it("Should revert when permit is signed for another amount", async () => {
+      const { alice, stakingContract } = fixture;
+      const { deadline, v, r, s } = await signAlicePermit(getBigNumber(500));
+
+      await expect(
+        stakingContract.connect(alice).stakeWithPermit(1, getBigNumber(1_000), deadline, v, r, s)
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_PermitFailed_Error);
+    });
+
+    it("Should revert when permit deadline passed", async () => {
+      const { alice, stakingContract } = fixture;
+      const { deadline, v, r, s } = await signAlicePermit(getBigNumber(1_000), 0);
+
+      await expect(
+        stakingContract.connect(alice).stakeWithPermit(1, getBigNumber(1_000), deadline, v, r, s)
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_PermitFailed_Error);
+    });
+
+    it("Should revert when permit is sent by another user", async () => {
+      const { bob, stakingContract } = fixture;
+      const { deadline, v, r, s } = await signAlicePermit();
+
+      await expect(
+        stakingContract.connect(bob).stakeWithPermit(1, getBigNumber(1_000), deadline, v, r, s)
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_PermitFailed_Error);
+    });
+
+    it("Should revert for token without permit when allowance is too low", async () => {
+      const { alice, stakingContract } = fixture;
+
+      await expect(
+        stakingContract
+          .connect(alice)
+          .stakeWithPermit(2, getBigNumber(1_000), 0, 0, ethers.constants.HashZero, ethers.constants.HashZero)
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_PermitFailed_Error);
+    });
+
+    it("Should revert when Staking Pool doesn't exist", async () => {
+      const { alice, stakingContract } = fixture;
+      const { deadline, v, r, s } = await signAlicePermit();
+
+      await expect(
+        stakingContract.connect(alice).stakeWithPermit(3, getBigNumber(1_000), deadline, v, r, s)
+      ).to.be.revertedWithCustomError(stakingContract, StakingPoolFixedApr_PoolNotExists_Error);
+    });
+  });
+
+  describe("'signPermit' function tests", () => {
+    it("Should return undefined for token without permit", async () => {
+      const { alice, stakingContract, erc20fee } = fixture;
+
+      expect(await signPermit(alice, erc20fee.address, stakingContract.address, getBigNumber(1_000), 0)).to.be
+        .undefined;
+    });
+  });
+
+  describe("StakingPoolsClient 'stakeWithPermit' function tests", () => {
+    let client: StakingPoolsClient;
+
+    beforeEach(async () => {
+      client = new StakingPoolsClient(fixture.stakingContract.connect(fixture.alice));
+    });
+
+    it("Should stake with a single transaction", async () => {
+      const { alice, stakingContract } = fixture;
+      const transactionCount = await alice.getTransactionCount();
+
+      const { stakeId } = await client.stakeWithPermit(1, getBigNumber(1_000));
+
+      expect(stakeId).to.be.equal(1);
+      expect((await stakingContract.stakes(stakeId)).owner).to.be.equal(alice.address);
+      expect(await alice.getTransactionCount()).to.be.equal(transactionCount + 1);
+    });
+
+    it("Should fall back to approve and stake for token without permit", async () => {
+      const { alice, erc20fee, stakingContract } = fixture;
+      const transactionCount = await alice.getTransactionCount();
+
+      const { stakeId } = await client.stakeWithPermit(2, getBigNumber(1_000));
+
+      expect((await stakingContract.stakes(stakeId)).staked).to.be.equal(getBigNumber(1_000));
+      expect(await erc20fee.balanceOf(alice.address)).to.be.equal(getBigNumber(9_000));
+      expect(await alice.getTransactionCount()).to.be.equal(transactionCount + 2);
+    });
+
+    it("Should skip permit when allowance is enough", async () => {
+      const { alice, stakingContract, permitToken } = fixture;
+
+      await permitToken.connect(alice).approve(stakingContract.address, getBigNumber(1_000));
+      await client.stakeWithPermit(1, getBigNumber(1_000));
+
+      expect(await permitToken.nonces(alice.address)).to.be.equal(0);
+    });
+
+    it("Should throw typed error when permit deadline passed", async () => {
+      expect(await client.stakeWithPermit(1, getBigNumber(1_000), 1).catch(e => e)).to.be.instanceOf(PermitFailedError);
+    });
+  });
+});
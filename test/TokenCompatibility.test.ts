@@ -0,0 +1,230 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { EARLY_UNSTAKE_DISABLED, getLastBlockTimestamp, setNextBlockTimestamp } from "./utilities";
+
+import { StakingPoolsFixedApr } from "../typechain";
+import { BigNumber, Contract, ContractTransaction, utils } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { decodeStakingPoolsError } from "../sdk";
+
+// "supported" when transaction succeeded, "skipped" when previous flow failed, otherwise custom error name.
+type Outcome = string;
+
+type Flow = "addStakingPool" | "stake" | "unstake" | "withdrawUnusedRewards";
+
+interface TokenCase {
+  name: string;
+  decimals: number;
+  deploy(supply: BigNumber): Promise<Contract>;
+  // Called before tokens are distributed, e.g. to exclude accounts from the fee.
+  setup?(token: Contract, stakingContract: StakingPoolsFixedApr): Promise<void>;
+  // Called after the user staked, e.g. to rebase or block the user.
+  afterStake?(token: Contract, user: SignerWithAddress): Promise<void>;
+  expected: { [flow in Flow]: Outcome };
+}
+
+const SUPPORTED = "supported";
+const SKIPPED = "skipped";
+
+const ALL_SUPPORTED = {
+  addStakingPool: SUPPORTED,
+  stake: SUPPORTED,
+  unstake: SUPPORTED,
+  withdrawUnusedRewards: SUPPORTED,
+};
+
+async function deploy(name: string, ...args: unknown[]): Promise<Contract> {
+  return (await ethers.getContractFactory(name)).deploy(...args);
+}
+
+const TOKEN_CASES: TokenCase[] = [
+  {
+    name: "Standard (18 decimals)",
+    decimals: 18,
+    deploy: supply => deploy("ERC20Mock", supply, 18),
+    expected: ALL_SUPPORTED,
+  },
+  {
+    name: "6 decimals",
+    decimals: 6,
+    deploy: supply => deploy("ERC20Mock", supply, 6),
+    expected: ALL_SUPPORTED,
+  },
+  {
+    name: "8 decimals",
+    decimals: 8,
+    deploy: supply => deploy("ERC20Mock", supply, 8),
+    expected: ALL_SUPPORTED,
+  },
+  {
+    name: "No return value (USDT)",
+    decimals: 6,
+    deploy: supply => deploy("ERC20NoReturnMock", supply),
+    expected: ALL_SUPPORTED,
+  },
+  {
+    name: "Revert on zero transfer",
+    decimals: 18,
+    deploy: supply => deploy("ERC20RevertOnZeroMock", supply),
+    expected: ALL_SUPPORTED,
+  },
+  {
+    name: "Fee on transfer",
+    decimals: 18,
+    deploy: supply => deploy("ERC20FeeMock", supply),
+    expected: {
+      addStakingPool: "StakingPoolFixedApr_IncorrectAmountTransferred",
+      stake: SKIPPED,
+      unstake: SKIPPED,
+      withdrawUnusedRewards: SKIPPED,
+    },
+  },
+  {
+    name: "Fee on transfer (pool excluded from fee)",
+    decimals: 18,
+    deploy: supply => deploy("ERC20FeeMock", supply),
+    setup: (token, stakingContract) => token.updateExcludedFromFee(stakingContract.address, true),
+    expected: ALL_SUPPORTED,
+  },
+  {
+    name: "Rebasing (positive rebase)",
+    decimals: 18,
+    deploy: supply => deploy("ERC20RebasingMock", supply),
+    afterStake: token => token.rebase(11_000),
+    expected: ALL_SUPPORTED,
+  },
+  {
+    name: "Rebasing (negative rebase)",
+    decimals: 18,
+    deploy: supply => deploy("ERC20RebasingMock", supply),
+    afterStake: token => token.rebase(9_000),
+    expected: {
+      addStakingPool: SUPPORTED,
+      stake: SUPPORTED,
+      unstake: SUPPORTED,
+      withdrawUnusedRewards: "SafeERC20_TransferFailed",
+    },
+  },
+  {
+    name: "Blocklist (staker blocked after stake)",
+    decimals: 6,
+    deploy: supply => deploy("ERC20BlocklistMock", supply),
+    afterStake: (token, user) => token.updateBlocked(user.address, true),
+    expected: {
+      addStakingPool: SUPPORTED,
+      stake: SUPPORTED,
+      unstake: "SafeERC20_TransferFailed",
+      withdrawUnusedRewards: SUPPORTED,
+    },
+  },
+];
+
+describe("Token compatibility", () => {
+  const compatibility: { [name: string]: { [column: string]: string } } = {};
+
+  after(() => {
+    console.log("\n    Token compatibility matrix:");
+    console.table(compatibility);
+  });
+
+  for (const tokenCase of TOKEN_CASES) {
+    describe(tokenCase.name, () => {
+      let alice: SignerWithAddress;
+
+      let stakingContract: StakingPoolsFixedApr;
+      let token: Contract;
+      let endTime: number;
+
+      const outcomes: { [flow in Flow]?: Outcome } = {};
+
+      const units = (amount: number) => utils.parseUnits(amount.toString(), tokenCase.decimals);
+
+      // Executes transaction of the flow (unless some of the previous flows failed) and records the outcome.
+      async function attempt(flow: Flow, transaction: () => Promise<ContractTransaction>, requires: Flow[]) {
+        if (requires.some(requiredFlow => outcomes[requiredFlow] !== SUPPORTED)) {
+          outcomes[flow] = SKIPPED;
+        } else {
+          try {
+            await (await transaction()).wait();
+            outcomes[flow] = SUPPORTED;
+          } catch (e) {
+            outcomes[flow] = decodeStakingPoolsError(e, stakingContract.interface)?.errorName ?? "reverted";
+          }
+        }
+
+        compatibility[tokenCase.name] = { ...compatibility[tokenCase.name], [flow]: outcomes[flow] as string };
+
+        expect(outcomes[flow]).to.be.equal(tokenCase.expected[flow]);
+      }
+
+      before(async () => {
+        [, alice] = await ethers.getSigners();
+
+        const stakingContractFactory = await ethers.getContractFactory("StakingPoolsFixedApr");
+        stakingContract = (await stakingContractFactory.deploy()) as StakingPoolsFixedApr;
+
+        token = await tokenCase.deploy(units(1_000_000));
+
+        if (tokenCase.setup) {
+          await tokenCase.setup(token, stakingContract);
+        }
+
+        await token.transfer(alice.address, units(10_000));
+      });
+
+      after(async () => {
+        // Tokens which nobody can withdraw anymore (or which were not accounted by the contract).
+        const stuck = await token.balanceOf(stakingContract.address);
+        compatibility[tokenCase.name].stuck = utils.formatUnits(stuck, tokenCase.decimals);
+      });
+
+      it("Should add Staking Pool", async () => {
+        const startTime = (await getLastBlockTimestamp()) + 60;
+        endTime = startTime + 3_600;
+
+        await token.approve(stakingContract.address, units(10_000));
+
+        await attempt(
+          "addStakingPool",
+          () =>
+            stakingContract.addStakingPool(
+              units(10_000),
+              0,
+              token.address,
+              startTime,
+              endTime,
+              1_000,
+              EARLY_UNSTAKE_DISABLED
+            ),
+          []
+        );
+      });
+
+      it("Should stake", async () => {
+        await token.connect(alice).approve(stakingContract.address, units(1_000));
+
+        await attempt("stake", () => stakingContract.connect(alice).stake(1, units(1_000)), ["addStakingPool"]);
+
+        if (outcomes.stake === SUPPORTED && tokenCase.afterStake) {
+          await tokenCase.afterStake(token, alice);
+        }
+      });
+
+      it("Should unstake", async () => {
+        if (outcomes.stake === SUPPORTED) {
+          await setNextBlockTimestamp(endTime);
+        }
+
+        await attempt("unstake", () => stakingContract.connect(alice).unstake(1), ["stake"]);
+      });
+
+      it("Should withdraw unused rewards", async () => {
+        if (outcomes.addStakingPool === SUPPORTED && (await getLastBlockTimestamp()) <= endTime) {
+          await setNextBlockTimestamp(endTime + 1);
+        }
+
+        await attempt("withdrawUnusedRewards", () => stakingContract.withdrawUnusedRewards(1), ["addStakingPool"]);
+      });
+    });
+  }
+});
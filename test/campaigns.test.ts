@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import { BigNumber, utils } from "ethers";
+
+import { calculateRewards, EarlyUnstakeMode, Pool, PoolStatus } from "../sdk";
+import {
+  CampaignAction,
+  calculateRewardsBudget,
+  parseCampaignFile,
+  planCampaign,
+  resolveCampaignPools,
+  validateCampaignPool,
+} from "../utilities/campaigns";
+
+describe("Campaigns", () => {
+  const TOKEN = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const DECIMALS = { [TOKEN]: 18 };
+  const START = 1_800_000_000; // 2027-01-15T08:00:00Z
+  const DAY = 86_400;
+
+  const CAMPAIGN = `
+defaults:
+  token: ${TOKEN.toLowerCase()}
+  end: +30d
+  earlyUnstake: pro-rata
+  earlyUnstakeFee: 1%
+pools:
+  - name: january
+    apr: 10%
+    start: 2027-01-15T08:00:00Z
+    expectedTvl: 100000
+  - name: february
+    apr: 12.5
+    start: ${START + 30 * DAY}
+    rewards: 500
+    minimum: 100
+    earlyUnstake: disabled
+`;
+
+  function toPool(id: number, startTime: number, apr: number): Pool {
+    return {
+      id,
+      token: TOKEN,
+      rewardsAdded: utils.parseUnits("1000", 18),
+      rewardsDistributed: BigNumber.from(0),
+      remainingRewards: utils.parseUnits("1000", 18),
+      minimumToStake: BigNumber.from(0),
+      startTime: new Date(startTime * 1000),
+      endTime: new Date((startTime + 30 * DAY) * 1000),
+      apr,
+      aprBasisPoints: apr,
+      earlyUnstake: { mode: EarlyUnstakeMode.ProRata, principalFee: 100 },
+      status: PoolStatus.Pending,
+    };
+  }
+
+  describe("'parseCampaignFile' function tests", () => {
+    it("Should read all values as strings", async () => {
+      const file = parseCampaignFile(CAMPAIGN);
+
+      expect(file.defaults?.token).to.be.equal(TOKEN.toLowerCase());
+      expect(file.pools[0].start).to.be.equal("2027-01-15T08:00:00Z");
+      expect(file.pools[1].apr).to.be.equal("12.5");
+    });
+
+    it("Should parse JSON file", async () => {
+      expect(parseCampaignFile(JSON.stringify({ pools: [{ apr: 10 }] })).pools).to.be.deep.equal([{ apr: "10" }]);
+    });
+
+    it("Should throw without pools", async () => {
+      expect(() => parseCampaignFile("defaults: {}")).to.throw("Campaign file must contain 'pools' list");
+    });
+  });
+
+  describe("'resolveCampaignPools' function tests", () => {
+    it("Should apply defaults and calculate rewards from the expected TVL", async () => {
+      const [january, february] = resolveCampaignPools(parseCampaignFile(CAMPAIGN), DECIMALS);
+
+      expect(january).to.include({ name: "january", token: TOKEN, startTime: START, endTime: START + 30 * DAY });
+      expect(january.apr).to.be.equal(1000);
+      expect(january.earlyUnstake).to.be.deep.equal({ mode: EarlyUnstakeMode.ProRata, principalFee: 100 });
+      expect(january.rewards).to.be.equal(
+        calculateRewards(utils.parseUnits("100000", 18), START, START + 30 * DAY, 1000)
+      );
+      expect(january.budget).to.be.equal(january.rewards);
+
+      expect(february.rewards).to.be.equal(utils.parseUnits("500", 18));
+      expect(february.minimumToStake).to.be.equal(utils.parseUnits("100", 18));
+      expect(february.earlyUnstake.mode).to.be.equal(EarlyUnstakeMode.Disabled);
+      expect(february.budget).to.be.undefined;
+    });
+
+    it("Should throw with name of the invalid Pool", async () => {
+      const file = { pools: [{ name: "relative", token: TOKEN, apr: "10", start: "+1d", end: "+30d", rewards: "1" }] };
+
+      expect(() => resolveCampaignPools(file, DECIMALS)).to.throw(
+        "Pool relative: 'start' must be ISO date or unix timestamp"
+      );
+      expect(() => resolveCampaignPools({ pools: [{ token: TOKEN, apr: "10" }] }, DECIMALS)).to.throw(
+        "Pool #1: 'token', 'apr', 'start' and 'end' must be set"
+      );
+    });
+  });
+
+  describe("'calculateRewardsBudget' function tests", () => {
+    it("Should calculate rewards of the TVL staked for the whole Pool duration", async () => {
+      expect(calculateRewardsBudget(utils.parseUnits("1000", 18), 1000, 0, 365 * DAY)).to.be.equal(
+        utils.parseUnits("100", 18)
+      );
+    });
+  });
+
+  describe("'validateCampaignPool' function tests", () => {
+    it("Should mirror the contract validation", async () => {
+      const [pool] = resolveCampaignPools(parseCampaignFile(CAMPAIGN), DECIMALS);
+
+      expect(validateCampaignPool(pool, START)).to.be.empty;
+      expect(
+        validateCampaignPool({ ...pool, rewards: BigNumber.from(0), endTime: pool.startTime }, START + 1)
+      ).to.be.deep.equal([
+        "rewards amount is zero",
+        "start time must be in the future",
+        "start time must be before end time",
+      ]);
+    });
+  });
+
+  describe("'planCampaign' function tests", () => {
+    const pools = resolveCampaignPools(parseCampaignFile(CAMPAIGN), DECIMALS);
+
+    it("Should create missing Pools", async () => {
+      const plan = planCampaign(pools, [], START - DAY);
+
+      expect(plan.map(item => item.action)).to.be.deep.equal([CampaignAction.Create, CampaignAction.Create]);
+      expect(plan[0].errors).to.be.empty;
+    });
+
+    it("Should match existing Pools by token and start time", async () => {
+      const plan = planCampaign(pools, [toPool(1, START, 1000), toPool(2, START + 30 * DAY, 1000)], START + DAY);
+
+      expect(plan[0]).to.include({ action: CampaignAction.Exists, existingPoolId: 1 });
+      expect(plan[1]).to.include({ action: CampaignAction.Conflict, existingPoolId: 2 });
+      expect(plan[1].differences).to.be.deep.equal([
+        "apr 10% -> 12.5%",
+        "minimum 0 -> 100000000000000000000",
+        "early unstake",
+      ]);
+    });
+
+    it("Should not re-create the extended Pool", async () => {
+      const extendedPool = { ...toPool(1, START, 1000), endTime: new Date((START + 37 * DAY) * 1000) };
+
+      const plan = planCampaign(pools, [extendedPool], START - DAY);
+
+      expect(plan[0]).to.include({ action: CampaignAction.Conflict, existingPoolId: 1 });
+      expect(plan[0].differences).to.be.deep.equal(["end 2027-02-21T08:00:00.000Z -> 2027-02-14T08:00:00.000Z"]);
+      expect(plan[1].action).to.be.equal(CampaignAction.Create);
+    });
+
+    it("Should prefer the existing Pool with the same APR", async () => {
+      const plan = planCampaign(
+        [pools[0], { ...pools[0], name: "january boost", apr: 2000 }],
+        [toPool(1, START, 2000), toPool(2, START, 1000)],
+        START - DAY
+      );
+
+      expect(plan[0]).to.include({ action: CampaignAction.Exists, existingPoolId: 2 });
+      expect(plan[1]).to.include({ action: CampaignAction.Exists, existingPoolId: 1 });
+    });
+
+    it("Should report Pools which would be rejected by the contract", async () => {
+      const plan = planCampaign(pools, [], START + DAY);
+
+      expect(plan[0].errors).to.be.deep.equal(["start time must be in the future"]);
+      expect(plan[1].errors).to.be.empty;
+    });
+
+    it("Should warn when rewards are lower than the budget", async () => {
+      const plan = planCampaign([{ ...pools[0], rewards: BigNumber.from(1) }], [], START - DAY);
+
+      expect(plan[0].warnings).to.be.deep.equal(["rewards are lower than the budget of the expected TVL"]);
+    });
+  });
+});
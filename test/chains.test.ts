@@ -0,0 +1,61 @@
+import { expect } from "chai";
+
+import { chainName, CHAINS, getChain, getChainByNetwork, toNetworkRegistry } from "../utilities/chains";
+
+describe("Chains", () => {
+  describe("'CHAINS' registry tests", () => {
+    it("Should have unique chain ids and network names", async () => {
+      expect(new Set(CHAINS.map(chain => chain.chainId)).size).to.be.equal(CHAINS.length);
+      expect(new Set(CHAINS.map(chain => chain.network)).size).to.be.equal(CHAINS.length);
+    });
+
+    it("Should define RPC variable and explorer for every remote chain", async () => {
+      for (const chain of CHAINS.filter(chain => chain.rpcEnv)) {
+        expect(chain.rpcEnv, chain.name).to.match(/^[A-Z_]+_RPC_URL$/);
+        expect(chain.explorer, chain.name).to.match(/^https:\/\/[^/]+$/);
+      }
+    });
+
+    it("Should cover current testnets and L2s", async () => {
+      expect(getChain(11155111)?.network).to.be.equal("sepolia");
+      expect(getChain(17000)?.network).to.be.equal("holesky");
+      expect(getChain(80002)?.network).to.be.equal("amoy");
+      expect(getChain(8453)?.nativeSymbol).to.be.equal("ETH");
+      expect(getChain(42161)?.testnet).to.be.false;
+      expect(getChainByNetwork("arbitrumSepolia")?.testnet).to.be.true;
+    });
+  });
+
+  describe("'chainName' function tests", () => {
+    it("Should return name of the known chain", async () => {
+      expect(chainName(1)).to.be.equal("Ethereum");
+      expect(chainName(137)).to.be.equal("Polygon");
+      expect(chainName(31337)).to.be.equal("Hardhat");
+    });
+
+    it("Should report unknown chain id as unknown", async () => {
+      expect(chainName(4)).to.be.equal("Unknown (4)");
+      expect(getChain(4)).to.be.undefined;
+    });
+  });
+
+  describe("'toNetworkRegistry' function tests", () => {
+    const registry = toNetworkRegistry(CHAINS);
+
+    it("Should skip local chains", async () => {
+      expect(registry.hardhat).to.be.undefined;
+      expect(registry.localhost).to.be.undefined;
+    });
+
+    it("Should read RPC url from the chain variable with public RPC fallback", async () => {
+      expect(registry.sepolia.url({ SEPOLIA_RPC_URL: "https://rpc.example" })).to.be.equal("https://rpc.example");
+      expect(registry.sepolia.url({})).to.be.equal("https://ethereum-sepolia-rpc.publicnode.com");
+      expect(registry.sepolia.requires).to.be.deep.equal([]);
+    });
+
+    it("Should require RPC variable of the chain without public RPC", async () => {
+      expect(registry.mainnet.chainId).to.be.equal(1);
+      expect(registry.mainnet.requires).to.be.deep.equal(["MAINNET_RPC_URL"]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+
+import {
+  compareBatchGas,
+  compareGas,
+  createGasBaseline,
+  DEFAULT_GAS_THRESHOLD_PERCENT,
+  formatGasChange,
+  GAS_BASELINE_VERSION,
+  GasMeasurement,
+} from "../utilities/gas";
+
+describe("Gas", () => {
+  const measurement: GasMeasurement = {
+    stakes: 10,
+    addStakingPool: 100_000,
+    stake: 200_000,
+    unstake: 90_000,
+    getAllUserStakes: 160_000,
+  };
+
+  describe("'createGasBaseline' function tests", () => {
+    it("Should create baseline with the default threshold", async () => {
+      expect(createGasBaseline([measurement])).to.be.deep.equal({
+        version: GAS_BASELINE_VERSION,
+        thresholdPercent: DEFAULT_GAS_THRESHOLD_PERCENT,
+        measurements: [measurement],
+      });
+    });
+  });
+
+  describe("'compareGas' function tests", () => {
+    const baseline = createGasBaseline([measurement], 2);
+
+    it("Should report change of every metric", async () => {
+      const comparisons = compareGas(baseline, [{ ...measurement, stake: 203_000, unstake: 81_000 }]);
+
+      expect(comparisons.length).to.be.equal(4);
+      expect(comparisons.find(comparison => comparison.metric === "stake")).to.be.deep.equal({
+        stakes: 10,
+        metric: "stake",
+        baseline: 200_000,
+        current: 203_000,
+        changePercent: 1.5,
+        isRegression: false,
+      });
+      expect(comparisons.find(comparison => comparison.metric === "unstake")?.changePercent).to.be.equal(-10);
+    });
+
+    it("Should report regression beyond the baseline threshold", async () => {
+      const comparisons = compareGas(baseline, [{ ...measurement, unstake: 92_000 }]);
+
+      expect(
+        comparisons.filter(comparison => comparison.isRegression).map(comparison => comparison.metric)
+      ).to.be.deep.equal(["unstake"]);
+    });
+
+    it("Should use the given threshold instead of the baseline one", async () => {
+      const comparisons = compareGas(baseline, [{ ...measurement, unstake: 92_000 }], 5);
+
+      expect(comparisons.some(comparison => comparison.isRegression)).to.be.false;
+    });
+
+    it("Should skip measurements without baseline", async () => {
+      expect(compareGas(baseline, [{ ...measurement, stakes: 500 }])).to.be.empty;
+    });
+
+    it("Should throw for unsupported baseline version", async () => {
+      expect(() => compareGas({ ...baseline, version: 0 }, [measurement])).to.throw(
+        "Unsupported gas baseline version 0"
+      );
+    });
+  });
+
+  describe("'compareBatchGas' function tests", () => {
+    it("Should calculate saving in percent of the single calls", async () => {
+      expect(compareBatchGas("unstakeBatch", 10, 600_000, 800_000)).to.be.deep.equal({
+        operation: "unstakeBatch",
+        items: 10,
+        batch: 600_000,
+        singleCalls: 800_000,
+        savingPercent: 25,
+      });
+      expect(compareBatchGas("addStakingPools", 1, 110_000, 100_000).savingPercent).to.be.equal(-10);
+    });
+  });
+
+  describe("'formatGasChange' function tests", () => {
+    it("Should format change with the sign", async () => {
+      expect(formatGasChange(1.254)).to.be.equal("+1.25%");
+      expect(formatGasChange(0)).to.be.equal("0.00%");
+      expect(formatGasChange(-10)).to.be.equal("-10.00%");
+    });
+  });
+});
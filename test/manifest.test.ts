@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import path from "path";
+import ts from "typescript";
+
+import { EarlyUnstakeMode, Pool, PoolStatus } from "../sdk";
+import {
+  ChainDeployment,
+  createManifest,
+  hashAbi,
+  MANIFEST_VERSION,
+  mergeChainDeployment,
+  toManifestPool,
+  toTypeScriptModule,
+} from "../utilities/manifest";
+
+describe("Manifest", () => {
+  const ABI_V1 = [{ type: "function", name: "stake", inputs: [], outputs: [] }];
+  const ABI_V2 = [...ABI_V1, { type: "function", name: "unstake", inputs: [], outputs: [] }];
+
+  const pool: Pool = {
+    id: 1,
+    token: "0x0000000000000000000000000000000000000001",
+    rewardsAdded: BigNumber.from("1000000000000000000000"),
+    rewardsDistributed: BigNumber.from(0),
+    remainingRewards: BigNumber.from("1000000000000000000000"),
+    minimumToStake: BigNumber.from(100),
+    startTime: new Date(1_700_000_000_000),
+    endTime: new Date(1_702_592_000_000),
+    apr: 0.125,
+    aprBasisPoints: 1250,
+    earlyUnstake: { mode: EarlyUnstakeMode.ProRata, principalFee: 250 },
+    status: PoolStatus.Open,
+  };
+
+  function chainDeployment(chainId: number): Omit<ChainDeployment, "abiHash"> {
+    return {
+      chainId,
+      network: "sepolia",
+      name: "Sepolia",
+      address: "0x0000000000000000000000000000000000000002",
+      deploymentBlock: 100,
+      exportedAtBlock: 200,
+      pools: [],
+    };
+  }
+
+  describe("'toManifestPool' function tests", () => {
+    it("Should serialize amounts as strings and times as unix timestamps", async () => {
+      expect(toManifestPool(pool, { symbol: "SNP", decimals: 18 })).to.be.deep.equal({
+        id: 1,
+        token: pool.token,
+        symbol: "SNP",
+        decimals: 18,
+        rewardsAdded: "1000000000000000000000",
+        rewardsDistributed: "0",
+        minimumToStake: "100",
+        startTime: 1_700_000_000,
+        endTime: 1_702_592_000,
+        apr: 1250,
+        earlyUnstakeMode: EarlyUnstakeMode.ProRata,
+        earlyUnstakeFee: 250,
+        status: PoolStatus.Open,
+      });
+    });
+  });
+
+  describe("'mergeChainDeployment' function tests", () => {
+    it("Should add deployment with its ABI hash", async () => {
+      const manifest = mergeChainDeployment(createManifest("StakingPoolsFixedApr"), chainDeployment(11155111), ABI_V1);
+
+      expect(manifest.version).to.be.equal(MANIFEST_VERSION);
+      expect(manifest.chains[11155111].abiHash).to.be.equal(hashAbi(ABI_V1));
+      expect(manifest.abis).to.be.deep.equal({ [hashAbi(ABI_V1)]: ABI_V1 });
+    });
+
+    it("Should keep other chains and drop unused ABIs on redeploy", async () => {
+      let manifest = createManifest("StakingPoolsFixedApr");
+      manifest = mergeChainDeployment(manifest, chainDeployment(1), ABI_V1);
+      manifest = mergeChainDeployment(manifest, chainDeployment(137), ABI_V1);
+      manifest = mergeChainDeployment(manifest, chainDeployment(137), ABI_V2);
+
+      expect(Object.keys(manifest.chains)).to.be.deep.equal(["1", "137"]);
+      expect(Object.keys(manifest.abis)).to.have.members([hashAbi(ABI_V1), hashAbi(ABI_V2)]);
+
+      manifest = mergeChainDeployment(manifest, chainDeployment(1), ABI_V2);
+
+      expect(manifest.abis).to.be.deep.equal({ [hashAbi(ABI_V2)]: ABI_V2 });
+    });
+
+    it("Should throw for manifest of another version", async () => {
+      const manifest = { ...createManifest("StakingPoolsFixedApr"), version: MANIFEST_VERSION + 1 };
+
+      expect(() => mergeChainDeployment(manifest, chainDeployment(1), ABI_V1)).to.throw(
+        `Manifest version ${MANIFEST_VERSION + 1} isn't supported`
+      );
+    });
+  });
+
+  describe("'toTypeScriptModule' function tests", () => {
+    it("Should generate valid TypeScript module with the manifest", async () => {
+      const manifest = mergeChainDeployment(createManifest("StakingPoolsFixedApr"), chainDeployment(1), ABI_V1);
+      const source = toTypeScriptModule(manifest);
+
+      const { diagnostics } = ts.transpileModule(source, { reportDiagnostics: true });
+
+      expect(diagnostics).to.be.empty;
+      expect(source).to.contain("export const MANIFEST: DeploymentManifest = {");
+      expect(source).to.contain(`"abiHash": "${hashAbi(ABI_V1)}"`);
+    });
+
+    it("Should generate types equal to the manifest interfaces", async () => {
+      const source = toTypeScriptModule(createManifest("StakingPoolsFixedApr"));
+
+      // Virtual files next to the manifest utilities, the check fails to compile when the types differ.
+      const generatedFile = path.resolve(__dirname, "../utilities/generated-manifest.ts");
+      const checkFile = path.resolve(__dirname, "../utilities/generated-manifest-check.ts");
+      const files: { [fileName: string]: string } = {
+        [generatedFile]: source,
+        [checkFile]: [
+          'import * as generated from "./generated-manifest";',
+          'import * as manifest from "./manifest";',
+          "",
+          "type Equals<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;",
+          "",
+          "export const checks: true[] = [",
+          "  {} as Equals<generated.Abi, manifest.Abi>,",
+          "  {} as Equals<generated.ManifestPool, manifest.ManifestPool>,",
+          "  {} as Equals<generated.ChainDeployment, manifest.ChainDeployment>,",
+          "  {} as Equals<generated.DeploymentManifest, manifest.DeploymentManifest>,",
+          "];",
+        ].join("\n"),
+      };
+
+      const options: ts.CompilerOptions = { strict: true, noEmit: true, skipLibCheck: true, esModuleInterop: true };
+      const host = ts.createCompilerHost(options);
+      const { fileExists, readFile, getSourceFile } = host;
+
+      host.fileExists = fileName => fileName in files || fileExists(fileName);
+      host.readFile = fileName => files[fileName] ?? readFile(fileName);
+      host.getSourceFile = (fileName, languageVersion, ...args) =>
+        fileName in files
+          ? ts.createSourceFile(fileName, files[fileName], languageVersion)
+          : getSourceFile(fileName, languageVersion, ...args);
+
+      const program = ts.createProgram([checkFile], options, host);
+      const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .filter(diagnostic => diagnostic.file && diagnostic.file.fileName in files)
+        .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+
+      expect(diagnostics).to.be.empty;
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Wallet } from "ethers";
+
+import {
+  AccountsSource,
+  assertNetworkVariables,
+  buildNetworksConfig,
+  getAccountsSource,
+  getMissingVariables,
+  NetworkRegistry,
+  parsePrivateKeys,
+  resolveAccounts,
+} from "../utilities/networks";
+
+describe("Networks", () => {
+  const PRIVATE_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+  const MNEMONIC = "test test test test test test test test test test test junk";
+
+  const registry: NetworkRegistry = {
+    local: { chainId: 1337, url: () => "http://127.0.0.1:8545", accounts: false },
+    mainnet: { url: env => env.MAINNET_RPC_URL as string, requires: ["MAINNET_RPC_URL"] },
+  };
+
+  describe("'buildNetworksConfig' function tests", () => {
+    it("Should build networks without any variables and without accounts", async () => {
+      const networks = buildNetworksConfig(registry, {});
+
+      expect(networks.local).to.be.deep.equal({ url: "http://127.0.0.1:8545", chainId: 1337 });
+      expect(networks.mainnet).to.be.deep.equal({ url: "" });
+    });
+
+    it("Should build url from the variables", async () => {
+      const networks = buildNetworksConfig(registry, { MAINNET_RPC_URL: "https://rpc.example", MNEMONIC });
+
+      expect(networks.mainnet).to.be.deep.equal({ url: "https://rpc.example" });
+    });
+  });
+
+  describe("'getMissingVariables' function tests", () => {
+    it("Should return missing url variables and accounts", async () => {
+      expect(getMissingVariables(registry.local, {})).to.be.deep.equal([]);
+      expect(getMissingVariables(registry.mainnet, {})).to.be.deep.equal([
+        "MAINNET_RPC_URL",
+        "PRIVATE_KEY, KEYSTORE_PATH or MNEMONIC",
+      ]);
+      expect(
+        getMissingVariables(registry.mainnet, { MAINNET_RPC_URL: "https://rpc.example", MNEMONIC })
+      ).to.be.deep.equal([]);
+    });
+
+    it("Should require password of the keystore", async () => {
+      expect(
+        getMissingVariables(registry.mainnet, { MAINNET_RPC_URL: "https://rpc.example", KEYSTORE_PATH: "key.json" })
+      ).to.be.deep.equal(["KEYSTORE_PASSWORD"]);
+    });
+
+    it("Should throw with names of the missing variables only", async () => {
+      expect(() => assertNetworkVariables("mainnet", registry.mainnet, { MNEMONIC })).to.throw(
+        "Network 'mainnet' requires MAINNET_RPC_URL"
+      );
+    });
+  });
+
+  describe("'resolveAccounts' function tests", () => {
+    it("Should prefer private keys over keystore and mnemonic", async () => {
+      const env = { PRIVATE_KEY, KEYSTORE_PATH: "key.json", MNEMONIC };
+
+      expect(getAccountsSource(env)).to.be.equal(AccountsSource.PrivateKey);
+      expect(resolveAccounts(env)).to.be.deep.equal([PRIVATE_KEY]);
+    });
+
+    it("Should resolve mnemonic and remote accounts", async () => {
+      expect(resolveAccounts({ MNEMONIC })).to.include({ mnemonic: MNEMONIC, initialIndex: 0, count: 20 });
+      expect(resolveAccounts({})).to.be.equal("remote");
+    });
+
+    it("Should decrypt the keystore", async () => {
+      const wallet = new Wallet(PRIVATE_KEY);
+      const path = join(mkdtempSync(join(tmpdir(), "keystore-")), "key.json");
+      writeFileSync(path, await wallet.encrypt("password", { scrypt: { N: 2 } }));
+
+      expect(resolveAccounts({ KEYSTORE_PATH: path, KEYSTORE_PASSWORD: "password" })).to.be.deep.equal([PRIVATE_KEY]);
+      expect(() => resolveAccounts({ KEYSTORE_PATH: path, KEYSTORE_PASSWORD: "wrong" })).to.throw(
+        "check KEYSTORE_PASSWORD"
+      );
+    });
+  });
+
+  describe("'parsePrivateKeys' function tests", () => {
+    it("Should parse comma separated keys with or without prefix", async () => {
+      expect(parsePrivateKeys(`${PRIVATE_KEY}, ${PRIVATE_KEY.slice(2)}`)).to.be.deep.equal([PRIVATE_KEY, PRIVATE_KEY]);
+    });
+
+    it("Should throw without printing the invalid key", async () => {
+      expect(() => parsePrivateKeys(`${PRIVATE_KEY},0x1234`))
+        .to.throw("PRIVATE_KEY #2 isn't 32 bytes hex string")
+        .with.property("message")
+        .that.does.not.contain("1234");
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+
+import {
+  formatAprFromBasisPoints,
+  formatDuration,
+  parseAprToBasisPoints,
+  parseDuration,
+  parseEarlyUnstakeMode,
+  parseFeeToBasisPoints,
+  parsePoolStatuses,
+  parseStakeIds,
+  parseTimestamp,
+} from "../utilities/parsers";
+import { EarlyUnstakeMode, PoolStatus } from "../sdk";
+
+describe("Parsers", () => {
+  describe("'parseDuration' function tests", () => {
+    it("Should parse relative durations", async () => {
+      expect(parseDuration("+30")).to.be.equal(30);
+      expect(parseDuration("+15m")).to.be.equal(900);
+      expect(parseDuration("+2h")).to.be.equal(7_200);
+      expect(parseDuration("+7d")).to.be.equal(604_800);
+      expect(parseDuration("+1w")).to.be.equal(604_800);
+    });
+
+    it("Should return undefined for non relative input", async () => {
+      expect(parseDuration("7d")).to.be.undefined;
+      expect(parseDuration("+7y")).to.be.undefined;
+      expect(parseDuration("2024-01-01")).to.be.undefined;
+    });
+  });
+
+  describe("'parseTimestamp' function tests", () => {
+    it("Should add relative duration to the reference", async () => {
+      expect(parseTimestamp("+1d", 1_000)).to.be.equal(87_400);
+    });
+
+    it("Should parse unix timestamp and ISO date", async () => {
+      expect(parseTimestamp("1700000000", 0)).to.be.equal(1_700_000_000);
+      expect(parseTimestamp("2024-01-01T00:00:00Z", 0)).to.be.equal(1_704_067_200);
+    });
+
+    it("Should throw for invalid time", async () => {
+      expect(() => parseTimestamp("tomorrow", 0)).to.throw("Invalid time");
+    });
+  });
+
+  describe("'parseAprToBasisPoints' function tests", () => {
+    it("Should convert percentage into basis points", async () => {
+      expect(parseAprToBasisPoints("10")).to.be.equal(1_000);
+      expect(parseAprToBasisPoints("10%")).to.be.equal(1_000);
+      expect(parseAprToBasisPoints("12.5%")).to.be.equal(1_250);
+      expect(parseAprToBasisPoints("0.01")).to.be.equal(1);
+    });
+
+    it("Should throw for APR out of the uint16 range or with too many decimals", async () => {
+      expect(() => parseAprToBasisPoints("0")).to.throw("out of range");
+      expect(() => parseAprToBasisPoints("700%")).to.throw("out of range");
+      expect(() => parseAprToBasisPoints("1.005")).to.throw("Invalid APR");
+    });
+
+    it("Should format basis points as percentage", async () => {
+      expect(formatAprFromBasisPoints(1_000)).to.be.equal("10%");
+      expect(formatAprFromBasisPoints(1_250)).to.be.equal("12.5%");
+    });
+  });
+
+  describe("'parseFeeToBasisPoints' function tests", () => {
+    it("Should convert percentage into basis points", async () => {
+      expect(parseFeeToBasisPoints("0")).to.be.equal(0);
+      expect(parseFeeToBasisPoints("2.5%")).to.be.equal(250);
+      expect(parseFeeToBasisPoints("100%")).to.be.equal(10_000);
+    });
+
+    it("Should throw for fee above 100% or with too many decimals", async () => {
+      expect(() => parseFeeToBasisPoints("100.01%")).to.throw("out of range");
+      expect(() => parseFeeToBasisPoints("1.005")).to.throw("Invalid fee");
+    });
+  });
+
+  describe("'parseEarlyUnstakeMode' function tests", () => {
+    it("Should parse early unstake mode names", async () => {
+      expect(parseEarlyUnstakeMode("disabled")).to.be.equal(EarlyUnstakeMode.Disabled);
+      expect(parseEarlyUnstakeMode("pro-rata")).to.be.equal(EarlyUnstakeMode.ProRata);
+      expect(parseEarlyUnstakeMode("Forfeit-All")).to.be.equal(EarlyUnstakeMode.ForfeitAll);
+    });
+
+    it("Should throw for unknown mode", async () => {
+      expect(() => parseEarlyUnstakeMode("partial")).to.throw("Invalid early unstake mode");
+    });
+  });
+
+  describe("'parsePoolStatuses' function tests", () => {
+    it("Should parse comma separated Pool status names", async () => {
+      expect(parsePoolStatuses("pending, Open,finalized")).to.be.deep.equal([
+        PoolStatus.Pending,
+        PoolStatus.Open,
+        PoolStatus.Finalized,
+      ]);
+    });
+
+    it("Should throw for unknown status", async () => {
+      expect(() => parsePoolStatuses("open,active")).to.throw("Invalid Pool status 'active'");
+    });
+  });
+
+  describe("'parseStakeIds' function tests", () => {
+    it("Should parse comma separated Stake ids", async () => {
+      expect(parseStakeIds("1, 2,5")).to.be.deep.equal([1, 2, 5]);
+    });
+
+    it("Should throw for invalid id", async () => {
+      expect(() => parseStakeIds("1,0")).to.throw("Invalid Stake id '0'");
+      expect(() => parseStakeIds("1,a")).to.throw("Invalid Stake id 'a'");
+    });
+
+    it("Should throw for duplicated id", async () => {
+      expect(() => parseStakeIds("1,2,1")).to.throw("Duplicated Stake id 1");
+    });
+  });
+
+  describe("'formatDuration' function tests", () => {
+    it("Should format seconds as a countdown", async () => {
+      expect(formatDuration(0)).to.be.equal("0s");
+      expect(formatDuration(59)).to.be.equal("59s");
+      expect(formatDuration(86_400 + 3_600 + 5)).to.be.equal("1d 1h 5s");
+    });
+  });
+});
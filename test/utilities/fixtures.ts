@@ -0,0 +1,59 @@
+import { ethers } from "hardhat";
+import { utils } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+import { StakingPoolsFixedApr, ERC20FeeMock } from "../../typechain";
+
+export type Fixture<T> = () => Promise<T>;
+
+interface FixtureSnapshot {
+  snapshotId: string;
+  result: unknown;
+}
+
+const snapshots = new Map<Fixture<unknown>, FixtureSnapshot>();
+
+/**
+ * Runs the fixture once and takes 'evm_snapshot' of the chain, every next call reverts the chain to that snapshot
+ * instead of running the fixture again. Fixture must be a named function (not an inline arrow function), because
+ * snapshots are cached by the function reference.
+ */
+export async function loadFixture<T>(fixture: Fixture<T>): Promise<T> {
+  const snapshot = snapshots.get(fixture);
+
+  // Revert fails when the snapshot was dropped by reverting to some earlier snapshot, then the fixture runs again.
+  if (snapshot && (await ethers.provider.send("evm_revert", [snapshot.snapshotId]))) {
+    snapshot.snapshotId = await ethers.provider.send("evm_snapshot", []);
+    return snapshot.result as T;
+  }
+
+  const result = await fixture();
+  snapshots.set(fixture, { snapshotId: await ethers.provider.send("evm_snapshot", []), result });
+  return result;
+}
+
+export interface StakingFixture {
+  deployer: SignerWithAddress;
+  alice: SignerWithAddress;
+  bob: SignerWithAddress;
+  stakingContract: StakingPoolsFixedApr;
+  erc20fee: ERC20FeeMock;
+}
+
+// Deploys the contract and ERC20FeeMock (deployer excluded from fee), alice and bob get 10 000 tokens each.
+export async function deployStakingFixture(): Promise<StakingFixture> {
+  const [deployer, alice, bob] = await ethers.getSigners();
+
+  const stakingContractFactory = await ethers.getContractFactory("StakingPoolsFixedApr");
+  const stakingContract = (await stakingContractFactory.deploy()) as StakingPoolsFixedApr;
+
+  const erc20feeFactory = await ethers.getContractFactory("ERC20FeeMock");
+  const erc20fee = (await erc20feeFactory.deploy(utils.parseUnits("1000000", 18))) as ERC20FeeMock;
+
+  await erc20fee.updateExcludedFromFee(deployer.address, true);
+
+  await erc20fee.transfer(alice.address, utils.parseUnits("10000", 18));
+  await erc20fee.transfer(bob.address, utils.parseUnits("10000", 18));
+
+  return { deployer, alice, bob, stakingContract, erc20fee };
+}
@@ -1,7 +1,11 @@
 import { BigNumber } from "ethers";
 
+import { EarlyUnstakeConfig, EarlyUnstakeMode } from "../../sdk";
+
 export const BASE_TEN = 10;
 export const ADDRESS_ZERO = "0x0000000000000000000000000000000000000000";
+// Early unstake configuration of the Pool which can be unstaked only after its end time.
+export const EARLY_UNSTAKE_DISABLED: EarlyUnstakeConfig = { mode: EarlyUnstakeMode.Disabled, principalFee: 0 };
 
 // Defaults to e18 using amount * 10^18
 export function getBigNumber(amount: number, decimals: number = 18) {
@@ -9,3 +13,6 @@ export function getBigNumber(amount: number, decimals: number = 18) {
 }
 
 export * from "./time";
+export * from "./random";
+export * from "./fixtures";
+export * from "./scenario";
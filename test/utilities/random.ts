@@ -0,0 +1,43 @@
+import { BigNumber } from "ethers";
+
+// Seeded pseudo random generator (mulberry32), so failing runs can be reproduced with the same seed.
+export class Random {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Returns float from [0, 1).
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Returns integer from [min, max].
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  // Returns BigNumber with up to 'maxDigits' decimal digits.
+  bigNumber(maxDigits: number): BigNumber {
+    const digits = this.int(1, maxDigits);
+    let value = "";
+    for (let i = 0; i < digits; i++) {
+      value += this.int(0, 9).toString();
+    }
+    return BigNumber.from(value);
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+}
+
+// Seed from RANDOM_SEED env variable (to reproduce failing run) or a new one.
+export function getSeed(): number {
+  return process.env.RANDOM_SEED ? parseInt(process.env.RANDOM_SEED) : Math.floor(Math.random() * 2 ** 32);
+}
@@ -0,0 +1,197 @@
+import { BigNumber, utils } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+import { EarlyUnstakeConfig, EarlyUnstakeMode } from "../../sdk";
+import { parseAprToBasisPoints, parseDuration } from "../../utilities/parsers";
+import { deployStakingFixture, loadFixture, StakingFixture } from "./fixtures";
+import { getLastBlockTimestamp, setNextBlockTimestampAndAdvanceBlock } from "./time";
+
+// Duration as seconds or string like "30d", "+12h" or "90m".
+export type Duration = number | string;
+// Whole tokens (18 decimals) or exact amount in wei.
+export type Amount = number | BigNumber;
+
+export interface ScenarioPoolOptions {
+  /** Rewards added to the Pool. */
+  rewards: Amount;
+  /** APR as a percentage like "10%" or as contract basis points (100 = 1%). */
+  apr: string | number;
+  duration: Duration;
+  /** Delay of the Pool start time after the last block (defaults to 60 seconds). */
+  start?: Duration;
+  /** Minimum amount to stake (defaults to 0). */
+  minimum?: Amount;
+  /** Early unstake mode and principal fee in basis points (defaults to disabled). */
+  earlyUnstake?: EarlyUnstakeConfig;
+}
+
+export interface ScenarioPool {
+  id: number;
+  startTime: number;
+  endTime: number;
+  apr: number;
+}
+
+export interface ScenarioStake {
+  id: number;
+  user: string;
+  stakingPoolId: number;
+  staked: BigNumber;
+}
+
+export interface ScenarioResult extends StakingFixture {
+  pools: ScenarioPool[];
+  stakes: ScenarioStake[];
+}
+
+type ScenarioStep = (result: ScenarioResult) => Promise<void>;
+
+/**
+ * Fluent builder of the contract state. Steps are recorded and executed in order when the scenario is awaited:
+ *
+ *   const { pools, stakes } = await scenario().pool({ apr: "10%", duration: "30d", rewards: 10_000 })
+ *     .stake(alice, 5_000)
+ *     .after("31d");
+ *
+ * Staking contract is excluded from the ERC20FeeMock fee and every transfer is approved by the scenario.
+ */
+export class Scenario implements PromiseLike<ScenarioResult> {
+  private readonly steps: ScenarioStep[] = [];
+
+  constructor(private readonly fixture?: StakingFixture) {}
+
+  pool(options: ScenarioPoolOptions): this {
+    this.steps.push(async result => {
+      const { stakingContract, erc20fee } = result;
+
+      const rewards = toAmount(options.rewards);
+      const startTime = (await getLastBlockTimestamp()) + toSeconds(options.start ?? 60);
+      const endTime = startTime + toSeconds(options.duration);
+      const apr = typeof options.apr === "string" ? parseAprToBasisPoints(options.apr) : options.apr;
+
+      await erc20fee.updateExcludedFromFee(stakingContract.address, true);
+      await erc20fee.approve(stakingContract.address, rewards);
+      const receipt = await (
+        await stakingContract.addStakingPool(
+          rewards,
+          toAmount(options.minimum ?? 0),
+          erc20fee.address,
+          startTime,
+          endTime,
+          apr,
+          options.earlyUnstake ?? { mode: EarlyUnstakeMode.Disabled, principalFee: 0 }
+        )
+      ).wait();
+      const id = receipt.events?.find(event => event.event === "StakingPoolAdded")?.args?.stakingPoolId.toNumber();
+
+      result.pools.push({ id, startTime, endTime, apr });
+    });
+    return this;
+  }
+
+  /** Stakes given amount in the given Pool (defaults to the last added Pool). */
+  stake(user: SignerWithAddress, amount: Amount, stakingPoolId?: number): this {
+    this.steps.push(async result => {
+      const { stakingContract, erc20fee } = result;
+
+      const staked = toAmount(amount);
+      const poolId = stakingPoolId ?? lastPoolId(result);
+
+      await erc20fee.connect(user).approve(stakingContract.address, staked);
+      const receipt = await (await stakingContract.connect(user).stake(poolId, staked)).wait();
+      const id = receipt.events?.find(event => event.event === "Staked")?.args?.stakeId.toNumber();
+
+      result.stakes.push({ id, user: user.address, stakingPoolId: poolId, staked });
+    });
+    return this;
+  }
+
+  /** Unstakes given Stake (defaults to the last Stake of the user). */
+  unstake(user: SignerWithAddress, stakeId?: number): this {
+    this.steps.push(async result => {
+      const userStakes = result.stakes.filter(userStake => userStake.user === user.address);
+
+      await result.stakingContract.connect(user).unstake(stakeId ?? userStakes[userStakes.length - 1].id);
+    });
+    return this;
+  }
+
+  /** Withdraws unused rewards from the given Pool (defaults to the last added Pool). */
+  withdraw(stakingPoolId?: number): this {
+    this.steps.push(async result => {
+      await result.stakingContract.withdrawUnusedRewards(stakingPoolId ?? lastPoolId(result));
+    });
+    return this;
+  }
+
+  /** Mines the next block at the given timestamp (in seconds). */
+  at(timestamp: number): this {
+    this.steps.push(async () => {
+      await setNextBlockTimestampAndAdvanceBlock(timestamp);
+    });
+    return this;
+  }
+
+  /** Mines the next block after the given duration. */
+  after(duration: Duration): this {
+    this.steps.push(async () => {
+      await setNextBlockTimestampAndAdvanceBlock((await getLastBlockTimestamp()) + toSeconds(duration));
+    });
+    return this;
+  }
+
+  async run(): Promise<ScenarioResult> {
+    const fixture = this.fixture ?? (await loadFixture(deployStakingFixture));
+    // Continuing scenario keeps Pools and Stakes of the previous one, so their defaults still work.
+    const result: ScenarioResult = {
+      ...fixture,
+      pools: isScenarioResult(fixture) ? [...fixture.pools] : [],
+      stakes: isScenarioResult(fixture) ? [...fixture.stakes] : [],
+    };
+
+    for (const step of this.steps) {
+      await step(result);
+    }
+
+    return result;
+  }
+
+  then<TResult1 = ScenarioResult, TResult2 = never>(
+    onfulfilled?: ((value: ScenarioResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.run().then(onfulfilled, onrejected);
+  }
+}
+
+// Starts scenario on top of the given fixture or result of the previous scenario (defaults to the deployStakingFixture).
+export function scenario(fixture?: StakingFixture): Scenario {
+  return new Scenario(fixture);
+}
+
+function isScenarioResult(fixture: StakingFixture): fixture is ScenarioResult {
+  return "pools" in fixture && "stakes" in fixture;
+}
+
+function lastPoolId(result: ScenarioResult): number {
+  if (result.pools.length === 0) {
+    throw new Error("Scenario has no Pool, add one with 'pool()' first");
+  }
+  return result.pools[result.pools.length - 1].id;
+}
+
+function toSeconds(duration: Duration): number {
+  if (typeof duration === "number") {
+    return duration;
+  }
+
+  const seconds = parseDuration(duration.startsWith("+") ? duration : `+${duration}`);
+  if (seconds === undefined) {
+    throw new Error(`Invalid duration '${duration}', use seconds or duration like '30d'`);
+  }
+  return seconds;
+}
+
+function toAmount(amount: Amount): BigNumber {
+  return BigNumber.isBigNumber(amount) ? amount : utils.parseUnits(amount.toString(), 18);
+}
@@ -0,0 +1,247 @@
+import { BigNumber, utils } from "ethers";
+import yaml from "js-yaml";
+
+import { calculateRewards, EarlyUnstakeConfig, Pool } from "../sdk";
+import {
+  formatAprFromBasisPoints,
+  formatTimestamp,
+  parseAprToBasisPoints,
+  parseDuration,
+  parseEarlyUnstakeMode,
+  parseFeeToBasisPoints,
+  parseTimestamp,
+} from "./parsers";
+
+// Pool of the campaign file, amounts in whole tokens, percentages and times in the 'pool:add' task format.
+export interface CampaignPoolInput {
+  name?: string;
+  token?: string;
+  apr?: string;
+  // ISO date or unix timestamp, relative start would create a new Pool on every apply.
+  start?: string;
+  // ISO date, unix timestamp or duration from the start time (e.g. +30d).
+  end?: string;
+  // Rewards budget, calculated from 'expectedTvl' when missing.
+  rewards?: string;
+  expectedTvl?: string;
+  minimum?: string;
+  earlyUnstake?: string;
+  earlyUnstakeFee?: string;
+}
+
+export interface CampaignFile {
+  // Values used by every Pool which doesn't set them.
+  defaults?: CampaignPoolInput;
+  pools: CampaignPoolInput[];
+}
+
+export interface CampaignPool {
+  name: string;
+  token: string;
+  rewards: BigNumber;
+  minimumToStake: BigNumber;
+  startTime: number;
+  endTime: number;
+  apr: number;
+  earlyUnstake: EarlyUnstakeConfig;
+  // Rewards needed when 'expectedTvl' is staked for the whole Pool duration.
+  budget?: BigNumber;
+}
+
+export enum CampaignAction {
+  Create = "create",
+  Exists = "exists",
+  Conflict = "conflict",
+}
+
+export interface CampaignPlanItem {
+  pool: CampaignPool;
+  action: CampaignAction;
+  // On-chain Pool with the same token and start time.
+  existingPoolId?: number;
+  // Fields of the on-chain Pool which differ from the file (only for 'conflict').
+  differences: string[];
+  // Reasons why the Pool would be rejected by the contract (only for 'create').
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Parses YAML or JSON campaign file (JSON is valid YAML). All values are read as strings, so unquoted addresses
+ * aren't converted to numbers and dates stay in UTC.
+ */
+export function parseCampaignFile(content: string): CampaignFile {
+  const file = yaml.load(content, { schema: yaml.FAILSAFE_SCHEMA }) as CampaignFile | undefined;
+
+  if (!file || !Array.isArray(file.pools)) {
+    throw new Error("Campaign file must contain 'pools' list");
+  }
+
+  return file;
+}
+
+/**
+ * Rewards needed when 'tvl' is staked for the whole Pool duration (same truncation as the contract, so the budget
+ * is never lower than the rewards reserved by the Stakes).
+ */
+export function calculateRewardsBudget(tvl: BigNumber, apr: number, startTime: number, endTime: number): BigNumber {
+  return calculateRewards(tvl, startTime, endTime, apr);
+}
+
+/**
+ * Resolves Pools of the campaign file with the defaults applied into contract values. 'decimals' are decimals
+ * of the Pool tokens by the checksum address.
+ */
+export function resolveCampaignPools(file: CampaignFile, decimals: { [token: string]: number }): CampaignPool[] {
+  return file.pools.map((input, index) => {
+    const values: CampaignPoolInput = { ...file.defaults, ...input };
+    const name = values.name ?? `#${index + 1}`;
+
+    try {
+      return resolveCampaignPool(name, values, decimals);
+    } catch (e) {
+      throw new Error(`Pool ${name}: ${(e as Error).message}`);
+    }
+  });
+}
+
+function resolveCampaignPool(
+  name: string,
+  values: CampaignPoolInput,
+  decimals: { [token: string]: number }
+): CampaignPool {
+  const { token: tokenAddress, apr: aprInput, start, end } = values;
+  if (tokenAddress === undefined || aprInput === undefined || start === undefined || end === undefined) {
+    throw new Error("'token', 'apr', 'start' and 'end' must be set");
+  }
+
+  if (values.rewards === undefined && values.expectedTvl === undefined) {
+    throw new Error("Either 'rewards' or 'expectedTvl' must be set");
+  }
+
+  if (parseDuration(start) !== undefined) {
+    throw new Error("'start' must be ISO date or unix timestamp");
+  }
+
+  const token = utils.getAddress(tokenAddress);
+  const tokenDecimals = decimals[token];
+  if (tokenDecimals === undefined) {
+    throw new Error(`Decimals of the token ${token} are unknown`);
+  }
+
+  const apr = parseAprToBasisPoints(aprInput);
+  const startTime = parseTimestamp(start, 0);
+  const endTime = parseTimestamp(end, startTime);
+
+  const budget =
+    values.expectedTvl !== undefined && startTime < endTime
+      ? calculateRewardsBudget(utils.parseUnits(values.expectedTvl, tokenDecimals), apr, startTime, endTime)
+      : undefined;
+
+  return {
+    name,
+    token,
+    rewards:
+      values.rewards !== undefined ? utils.parseUnits(values.rewards, tokenDecimals) : budget ?? BigNumber.from(0),
+    minimumToStake: utils.parseUnits(values.minimum ?? "0", tokenDecimals),
+    startTime,
+    endTime,
+    apr,
+    earlyUnstake: {
+      mode: parseEarlyUnstakeMode(values.earlyUnstake ?? "disabled"),
+      principalFee: parseFeeToBasisPoints(values.earlyUnstakeFee ?? "0"),
+    },
+    budget,
+  };
+}
+
+/**
+ * Mirrors contract '_validateStakingPoolData' at the given timestamp (in seconds) and returns the reasons
+ * of the revert.
+ */
+export function validateCampaignPool(pool: CampaignPool, timestamp: number): string[] {
+  const errors: string[] = [];
+
+  if (pool.rewards.eq(0)) {
+    errors.push("rewards amount is zero");
+  }
+
+  if (pool.startTime < timestamp) {
+    errors.push("start time must be in the future");
+  }
+
+  if (pool.startTime >= pool.endTime) {
+    errors.push("start time must be before end time");
+  }
+
+  return errors;
+}
+
+/**
+ * Diffs Pools of the campaign against the on-chain Pools. Pools are matched by token and start time (preferring the same
+ * APR), not by end time, which 'pool:extend' moves - missing Pools are created, matched Pools with other parameters
+ * are reported as conflicts (the contract can't update them). Rewards aren't compared, because on-chain rewards grow
+ * with early unstake fees.
+ */
+export function planCampaign(pools: CampaignPool[], existing: Pool[], timestamp: number): CampaignPlanItem[] {
+  return pools.map(pool => {
+    const warnings: string[] = [];
+    if (pool.budget && pool.rewards.lt(pool.budget)) {
+      warnings.push("rewards are lower than the budget of the expected TVL");
+    }
+
+    const candidates = existing.filter(
+      stakingPool => stakingPool.token === pool.token && toTimestamp(stakingPool.startTime) === pool.startTime
+    );
+    const match = candidates.find(stakingPool => stakingPool.aprBasisPoints === pool.apr) ?? candidates[0];
+
+    if (!match) {
+      return {
+        pool,
+        action: CampaignAction.Create,
+        differences: [],
+        errors: validateCampaignPool(pool, timestamp),
+        warnings,
+      };
+    }
+
+    const differences = getDifferences(pool, match);
+
+    return {
+      pool,
+      action: differences.length > 0 ? CampaignAction.Conflict : CampaignAction.Exists,
+      existingPoolId: match.id,
+      differences,
+      errors: [],
+      warnings,
+    };
+  });
+}
+
+function getDifferences(pool: CampaignPool, stakingPool: Pool): string[] {
+  const differences: string[] = [];
+
+  if (pool.endTime !== toTimestamp(stakingPool.endTime)) {
+    differences.push(`end ${formatTimestamp(toTimestamp(stakingPool.endTime))} -> ${formatTimestamp(pool.endTime)}`);
+  }
+  if (pool.apr !== stakingPool.aprBasisPoints) {
+    differences.push(
+      `apr ${formatAprFromBasisPoints(stakingPool.aprBasisPoints)} -> ${formatAprFromBasisPoints(pool.apr)}`
+    );
+  }
+  if (!pool.minimumToStake.eq(stakingPool.minimumToStake)) {
+    differences.push(`minimum ${stakingPool.minimumToStake.toString()} -> ${pool.minimumToStake.toString()}`);
+  }
+  if (
+    pool.earlyUnstake.mode !== stakingPool.earlyUnstake.mode ||
+    pool.earlyUnstake.principalFee !== stakingPool.earlyUnstake.principalFee
+  ) {
+    differences.push("early unstake");
+  }
+
+  return differences;
+}
+
+function toTimestamp(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
@@ -0,0 +1,167 @@
+import { NetworkRegistry } from "./networks";
+
+export interface ChainMetadata {
+  chainId: number;
+  name: string;
+  // Hardhat network name ('--network').
+  network: string;
+  // Environment variable with the RPC url, undefined for local chains.
+  rpcEnv?: string;
+  // Public RPC url used when the environment variable isn't set.
+  defaultRpcUrl?: string;
+  // Block explorer url, undefined for local chains.
+  explorer?: string;
+  nativeSymbol: string;
+  testnet: boolean;
+}
+
+export const CHAINS: ChainMetadata[] = [
+  {
+    chainId: 1,
+    name: "Ethereum",
+    network: "mainnet",
+    rpcEnv: "MAINNET_RPC_URL",
+    explorer: "https://etherscan.io",
+    nativeSymbol: "ETH",
+    testnet: false,
+  },
+  {
+    chainId: 11155111,
+    name: "Sepolia",
+    network: "sepolia",
+    rpcEnv: "SEPOLIA_RPC_URL",
+    defaultRpcUrl: "https://ethereum-sepolia-rpc.publicnode.com",
+    explorer: "https://sepolia.etherscan.io",
+    nativeSymbol: "ETH",
+    testnet: true,
+  },
+  {
+    chainId: 17000,
+    name: "Holesky",
+    network: "holesky",
+    rpcEnv: "HOLESKY_RPC_URL",
+    defaultRpcUrl: "https://ethereum-holesky-rpc.publicnode.com",
+    explorer: "https://holesky.etherscan.io",
+    nativeSymbol: "ETH",
+    testnet: true,
+  },
+  {
+    chainId: 137,
+    name: "Polygon",
+    network: "polygon",
+    rpcEnv: "POLYGON_RPC_URL",
+    defaultRpcUrl: "https://polygon-rpc.com",
+    explorer: "https://polygonscan.com",
+    nativeSymbol: "POL",
+    testnet: false,
+  },
+  {
+    chainId: 80002,
+    name: "Amoy",
+    network: "amoy",
+    rpcEnv: "AMOY_RPC_URL",
+    defaultRpcUrl: "https://rpc-amoy.polygon.technology",
+    explorer: "https://amoy.polygonscan.com",
+    nativeSymbol: "POL",
+    testnet: true,
+  },
+  {
+    chainId: 56,
+    name: "BSC",
+    network: "bsc",
+    rpcEnv: "BSC_RPC_URL",
+    defaultRpcUrl: "https://bsc-dataseed.binance.org",
+    explorer: "https://bscscan.com",
+    nativeSymbol: "BNB",
+    testnet: false,
+  },
+  {
+    chainId: 97,
+    name: "BSCTestnet",
+    network: "bscTestnet",
+    rpcEnv: "BSC_TESTNET_RPC_URL",
+    defaultRpcUrl: "https://data-seed-prebsc-1-s1.binance.org:8545",
+    explorer: "https://testnet.bscscan.com",
+    nativeSymbol: "tBNB",
+    testnet: true,
+  },
+  {
+    chainId: 8453,
+    name: "Base",
+    network: "base",
+    rpcEnv: "BASE_RPC_URL",
+    defaultRpcUrl: "https://mainnet.base.org",
+    explorer: "https://basescan.org",
+    nativeSymbol: "ETH",
+    testnet: false,
+  },
+  {
+    chainId: 84532,
+    name: "Base Sepolia",
+    network: "baseSepolia",
+    rpcEnv: "BASE_SEPOLIA_RPC_URL",
+    defaultRpcUrl: "https://sepolia.base.org",
+    explorer: "https://sepolia.basescan.org",
+    nativeSymbol: "ETH",
+    testnet: true,
+  },
+  {
+    chainId: 42161,
+    name: "Arbitrum One",
+    network: "arbitrum",
+    rpcEnv: "ARBITRUM_RPC_URL",
+    defaultRpcUrl: "https://arb1.arbitrum.io/rpc",
+    explorer: "https://arbiscan.io",
+    nativeSymbol: "ETH",
+    testnet: false,
+  },
+  {
+    chainId: 421614,
+    name: "Arbitrum Sepolia",
+    network: "arbitrumSepolia",
+    rpcEnv: "ARBITRUM_SEPOLIA_RPC_URL",
+    defaultRpcUrl: "https://sepolia-rollup.arbitrum.io/rpc",
+    explorer: "https://sepolia.arbiscan.io",
+    nativeSymbol: "ETH",
+    testnet: true,
+  },
+  // Local chains - unit tests (hardhat) and coverage (localhost).
+  { chainId: 31337, name: "Hardhat", network: "hardhat", nativeSymbol: "ETH", testnet: true },
+  { chainId: 1337, name: "Localhost", network: "localhost", nativeSymbol: "ETH", testnet: true },
+];
+
+export function getChain(chainId: number): ChainMetadata | undefined {
+  return CHAINS.find(chain => chain.chainId === chainId);
+}
+
+export function getChainByNetwork(network: string): ChainMetadata | undefined {
+  return CHAINS.find(chain => chain.network === network);
+}
+
+// Name of the chain, unknown chain ids are reported as "Unknown (<chainId>)".
+export function chainName(chainId: number): string {
+  return getChain(chainId)?.name ?? `Unknown (${chainId})`;
+}
+
+/**
+ * Network definitions of the remote chains - RPC url is read from the chain 'rpcEnv' variable (required only for
+ * chains without public RPC).
+ */
+export function toNetworkRegistry(chains: ChainMetadata[]): NetworkRegistry {
+  const registry: NetworkRegistry = {};
+
+  for (const chain of chains) {
+    if (!chain.rpcEnv) {
+      continue;
+    }
+
+    const rpcEnv = chain.rpcEnv;
+    registry[chain.network] = {
+      chainId: chain.chainId,
+      url: env => env[rpcEnv] || (chain.defaultRpcUrl as string),
+      requires: chain.defaultRpcUrl ? [] : [rpcEnv],
+    };
+  }
+
+  return registry;
+}
@@ -0,0 +1,111 @@
+/** Version of the gas baseline format, bumped on every breaking change of the JSON. */
+export const GAS_BASELINE_VERSION = 1;
+
+/** Regression threshold used when the baseline doesn't configure one. */
+export const DEFAULT_GAS_THRESHOLD_PERCENT = 2;
+
+export const GAS_METRICS = ["addStakingPool", "stake", "unstake", "getAllUserStakes"] as const;
+
+export type GasMetric = (typeof GAS_METRICS)[number];
+
+/** Gas used with the given number of user Stakes. */
+export interface GasMeasurement {
+  /** Number of user Stakes including the measured 'stake'. */
+  stakes: number;
+  addStakingPool: number;
+  stake: number;
+  /** Unstake of the last user Stake, which is the worst case of the stake ids scan. */
+  unstake: number;
+  /** Estimated gas of the view call. */
+  getAllUserStakes: number;
+}
+
+export type BatchOperation = "addStakingPools" | "unstakeBatch";
+
+/** Gas of the batch call compared with the single calls doing the same in a loop. */
+export interface BatchGasComparison {
+  operation: BatchOperation;
+  /** Number of Pools or Stakes in the batch. */
+  items: number;
+  batch: number;
+  /** Sum of gas used by the single calls. */
+  singleCalls: number;
+  /** Saved gas in percent of the single calls, negative when the batch is more expensive. */
+  savingPercent: number;
+}
+
+export interface GasBaseline {
+  version: number;
+  /** Maximum allowed gas increase in percent. */
+  thresholdPercent: number;
+  measurements: GasMeasurement[];
+}
+
+export interface GasComparison {
+  stakes: number;
+  metric: GasMetric;
+  baseline: number;
+  current: number;
+  /** Gas change in percent of the baseline, positive when the current gas is higher. */
+  changePercent: number;
+  isRegression: boolean;
+}
+
+export function createGasBaseline(
+  measurements: GasMeasurement[],
+  thresholdPercent: number = DEFAULT_GAS_THRESHOLD_PERCENT
+): GasBaseline {
+  return { version: GAS_BASELINE_VERSION, thresholdPercent, measurements };
+}
+
+/**
+ * Compares current measurements with the baseline ones of the same number of Stakes. Measurements without
+ * baseline are skipped, so new numbers of Stakes don't fail until the baseline is updated.
+ */
+export function compareGas(
+  baseline: GasBaseline,
+  measurements: GasMeasurement[],
+  thresholdPercent: number = baseline.thresholdPercent
+): GasComparison[] {
+  if (baseline.version !== GAS_BASELINE_VERSION) {
+    throw new Error(`Unsupported gas baseline version ${baseline.version}, expected ${GAS_BASELINE_VERSION}`);
+  }
+
+  const comparisons: GasComparison[] = [];
+
+  for (const measurement of measurements) {
+    const baselineMeasurement = baseline.measurements.find(m => m.stakes === measurement.stakes);
+    if (!baselineMeasurement) {
+      continue;
+    }
+
+    for (const metric of GAS_METRICS) {
+      const changePercent = ((measurement[metric] - baselineMeasurement[metric]) / baselineMeasurement[metric]) * 100;
+
+      comparisons.push({
+        stakes: measurement.stakes,
+        metric,
+        baseline: baselineMeasurement[metric],
+        current: measurement[metric],
+        changePercent,
+        isRegression: changePercent > thresholdPercent,
+      });
+    }
+  }
+
+  return comparisons;
+}
+
+export function compareBatchGas(
+  operation: BatchOperation,
+  items: number,
+  batch: number,
+  singleCalls: number
+): BatchGasComparison {
+  return { operation, items, batch, singleCalls, savingPercent: ((singleCalls - batch) / singleCalls) * 100 };
+}
+
+// Formats the gas change with the sign, e.g. "+1.25%".
+export function formatGasChange(changePercent: number): string {
+  return `${changePercent > 0 ? "+" : ""}${changePercent.toFixed(2)}%`;
+}
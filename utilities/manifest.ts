@@ -0,0 +1,162 @@
+import { utils } from "ethers";
+
+import { Pool } from "../sdk";
+
+/**
+ * Version of the manifest format, bumped on every breaking change of the JSON.
+ * - 2: Pool 'status' values Full, Ended and Finalized replaced WithoutRewards and Closed.
+ */
+export const MANIFEST_VERSION = 2;
+
+export type Abi = unknown[];
+
+export interface ManifestPool {
+  id: number;
+  token: string;
+  symbol: string;
+  decimals: number;
+  rewardsAdded: string;
+  rewardsDistributed: string;
+  minimumToStake: string;
+  startTime: number;
+  endTime: number;
+  /** APR in contract basis points (100 = 1%). */
+  apr: number;
+  earlyUnstakeMode: number;
+  earlyUnstakeFee: number;
+  status: number;
+}
+
+export interface ChainDeployment {
+  chainId: number;
+  network: string;
+  name: string;
+  address: string;
+  deploymentBlock: number;
+  transactionHash?: string;
+  /** Key of the contract ABI in the manifest 'abis'. */
+  abiHash: string;
+  /** Block at which the pools were read. */
+  exportedAtBlock: number;
+  pools: ManifestPool[];
+}
+
+export interface DeploymentManifest {
+  version: number;
+  contractName: string;
+  /** Deployments by chain id. */
+  chains: { [chainId: string]: ChainDeployment };
+  /** ABIs by their hash, shared by the deployments with the same ABI. */
+  abis: { [abiHash: string]: Abi };
+}
+
+// Copy of the interfaces above for the generated module, which is imported outside of this repository. Kept equal
+// to them by the manifest test.
+const MANIFEST_TYPES = `export type Abi = unknown[];
+
+export interface ManifestPool {
+  id: number;
+  token: string;
+  symbol: string;
+  decimals: number;
+  rewardsAdded: string;
+  rewardsDistributed: string;
+  minimumToStake: string;
+  startTime: number;
+  endTime: number;
+  apr: number;
+  earlyUnstakeMode: number;
+  earlyUnstakeFee: number;
+  status: number;
+}
+
+export interface ChainDeployment {
+  chainId: number;
+  network: string;
+  name: string;
+  address: string;
+  deploymentBlock: number;
+  transactionHash?: string;
+  abiHash: string;
+  exportedAtBlock: number;
+  pools: ManifestPool[];
+}
+
+export interface DeploymentManifest {
+  version: number;
+  contractName: string;
+  chains: { [chainId: string]: ChainDeployment };
+  abis: { [abiHash: string]: Abi };
+}`;
+
+// Keccak256 of the ABI JSON, changes with every change of the contract interface.
+export function hashAbi(abi: Abi): string {
+  return utils.id(JSON.stringify(abi));
+}
+
+export function toManifestPool(pool: Pool, token: { symbol: string; decimals: number }): ManifestPool {
+  return {
+    id: pool.id,
+    token: pool.token,
+    symbol: token.symbol,
+    decimals: token.decimals,
+    rewardsAdded: pool.rewardsAdded.toString(),
+    rewardsDistributed: pool.rewardsDistributed.toString(),
+    minimumToStake: pool.minimumToStake.toString(),
+    startTime: Math.floor(pool.startTime.getTime() / 1000),
+    endTime: Math.floor(pool.endTime.getTime() / 1000),
+    apr: pool.aprBasisPoints,
+    earlyUnstakeMode: pool.earlyUnstake.mode,
+    earlyUnstakeFee: pool.earlyUnstake.principalFee,
+    status: pool.status,
+  };
+}
+
+export function createManifest(contractName: string): DeploymentManifest {
+  return { version: MANIFEST_VERSION, contractName, chains: {}, abis: {} };
+}
+
+/**
+ * Returns the manifest with deployment of the chain added or replaced, deployments of other chains are kept.
+ * ABIs which are no longer used by any deployment are removed.
+ */
+export function mergeChainDeployment(
+  manifest: DeploymentManifest,
+  deployment: Omit<ChainDeployment, "abiHash">,
+  abi: Abi
+): DeploymentManifest {
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`Manifest version ${manifest.version} isn't supported (expected ${MANIFEST_VERSION})`);
+  }
+
+  const abiHash = hashAbi(abi);
+  const chains: DeploymentManifest["chains"] = { ...manifest.chains, [deployment.chainId]: { ...deployment, abiHash } };
+  const abis: DeploymentManifest["abis"] = {};
+
+  for (const chain of Object.values(chains)) {
+    abis[chain.abiHash] = chain.abiHash === abiHash ? abi : manifest.abis[chain.abiHash];
+  }
+
+  return { ...manifest, chains, abis };
+}
+
+/** Generates TypeScript module with the manifest types and the manifest as a typed constant. */
+export function toTypeScriptModule(manifest: DeploymentManifest): string {
+  return [
+    "// Generated by 'hardhat export:manifest', do not edit.",
+    "",
+    MANIFEST_TYPES,
+    "",
+    `export const MANIFEST: DeploymentManifest = ${JSON.stringify(manifest, null, 2)};`,
+    "",
+    "export function getChainDeployment(chainId: number): ChainDeployment | undefined {",
+    "  return MANIFEST.chains[chainId];",
+    "}",
+    "",
+    "export function getAbi(chainId: number): Abi | undefined {",
+    "  const deployment = getChainDeployment(chainId);",
+    "  return deployment && MANIFEST.abis[deployment.abiHash];",
+    "}",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,141 @@
+import { readFileSync } from "fs";
+import { utils, Wallet } from "ethers";
+import { HttpNetworkAccountsConfig, HttpNetworkUserConfig, NetworksUserConfig } from "hardhat/types";
+
+// Environment variables (only their names are printed, never the values).
+export type NetworkEnv = { [name: string]: string | undefined };
+
+export enum AccountsSource {
+  PrivateKey = "PRIVATE_KEY",
+  Keystore = "KEYSTORE_PATH",
+  Mnemonic = "MNEMONIC",
+}
+
+export interface NetworkDefinition {
+  chainId?: number;
+  // RPC url, called only when all 'requires' variables are set.
+  url: (env: NetworkEnv) => string;
+  // Environment variables needed by the RPC url.
+  requires?: string[];
+  // Whether the network signs transactions with accounts from the environment (defaults to true).
+  accounts?: boolean;
+}
+
+export type NetworkRegistry = { [name: string]: NetworkDefinition };
+
+// Block of the mainnet fork (FORK_BLOCK_NUMBER overrides it). Hardhat caches RPC responses of a fork pinned to the block
+// in 'cache/hardhat-network-fork', so fork tests are deterministic and run again without the RPC.
+export const FORK_BLOCK_NUMBER = 19_000_000;
+
+export const ACCOUNTS_VARIABLES = `${AccountsSource.PrivateKey}, ${AccountsSource.Keystore} or ${AccountsSource.Mnemonic}`;
+
+/**
+ * Returns where accounts are loaded from - comma separated private keys (PRIVATE_KEY), encrypted JSON keystore
+ * (KEYSTORE_PATH with KEYSTORE_PASSWORD) or mnemonic (MNEMONIC), in this order of precedence.
+ */
+export function getAccountsSource(env: NetworkEnv): AccountsSource | undefined {
+  return [AccountsSource.PrivateKey, AccountsSource.Keystore, AccountsSource.Mnemonic].find(source => !!env[source]);
+}
+
+// Returns names of the environment variables which the network needs, but are not set.
+export function getMissingVariables(definition: NetworkDefinition, env: NetworkEnv): string[] {
+  const missing = (definition.requires ?? []).filter(name => !env[name]);
+
+  if (definition.accounts !== false) {
+    const source = getAccountsSource(env);
+
+    if (source === undefined) {
+      missing.push(ACCOUNTS_VARIABLES);
+    } else if (source === AccountsSource.Keystore && !env.KEYSTORE_PASSWORD) {
+      missing.push("KEYSTORE_PASSWORD");
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Builds Hardhat networks without accounts and without throwing for missing variables (url of such network
+ * is left empty). Accounts are resolved with 'resolveAccounts' only for the selected network.
+ */
+export function buildNetworksConfig(registry: NetworkRegistry, env: NetworkEnv): NetworksUserConfig {
+  const networks: NetworksUserConfig = {};
+
+  for (const [name, definition] of Object.entries(registry)) {
+    const hasVariables = (definition.requires ?? []).every(variable => !!env[variable]);
+
+    const network: HttpNetworkUserConfig = { url: hasVariables ? definition.url(env) : "" };
+    if (definition.chainId !== undefined) {
+      network.chainId = definition.chainId;
+    }
+
+    networks[name] = network;
+  }
+
+  return networks;
+}
+
+/**
+ * Throws error listing the missing variables of the selected network. Error message contains only names
+ * of the variables.
+ */
+export function assertNetworkVariables(name: string, definition: NetworkDefinition, env: NetworkEnv): void {
+  const missing = getMissingVariables(definition, env);
+
+  if (missing.length > 0) {
+    throw new Error(`Network '${name}' requires ${missing.join(", ")} to be set in the environment or .env file`);
+  }
+}
+
+/** Resolves accounts of the selected network from the environment (decrypts the keystore). */
+export function resolveAccounts(env: NetworkEnv): HttpNetworkAccountsConfig {
+  switch (getAccountsSource(env)) {
+    case AccountsSource.PrivateKey:
+      return parsePrivateKeys(env.PRIVATE_KEY as string);
+    case AccountsSource.Keystore:
+      return [loadKeystore(env.KEYSTORE_PATH as string, env.KEYSTORE_PASSWORD ?? "")];
+    case AccountsSource.Mnemonic:
+      return {
+        mnemonic: env.MNEMONIC as string,
+        initialIndex: 0,
+        count: 20,
+        path: "m/44'/60'/0'/0",
+        passphrase: "",
+      };
+    default:
+      return "remote";
+  }
+}
+
+// Parses comma separated private keys (with or without 0x prefix).
+export function parsePrivateKeys(input: string): string[] {
+  return input
+    .split(",")
+    .map(privateKey => privateKey.trim())
+    .filter(privateKey => privateKey.length > 0)
+    .map((privateKey, index) => {
+      const prefixed = privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`;
+
+      if (!utils.isHexString(prefixed, 32)) {
+        throw new Error(`${AccountsSource.PrivateKey} #${index + 1} isn't 32 bytes hex string`);
+      }
+
+      return prefixed;
+    });
+}
+
+// Decrypts JSON keystore (e.g. created with 'geth account new' or 'cast wallet new') and returns its private key.
+export function loadKeystore(path: string, password: string): string {
+  let json: string;
+  try {
+    json = readFileSync(path, "utf8");
+  } catch (e) {
+    throw new Error(`Cannot read keystore file '${path}'`);
+  }
+
+  try {
+    return Wallet.fromEncryptedJsonSync(json, password).privateKey;
+  } catch (e) {
+    throw new Error(`Cannot decrypt keystore file '${path}', check KEYSTORE_PASSWORD`);
+  }
+}
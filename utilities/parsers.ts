@@ -0,0 +1,184 @@
+import { BigNumber, utils } from "ethers";
+
+import { EarlyUnstakeMode, PoolStatus } from "../sdk/types";
+
+const DURATION_UNITS: { [unit: string]: number } = {
+  s: 1,
+  m: 60,
+  h: 3_600,
+  d: 86_400,
+  w: 604_800,
+};
+
+// Maximum APR which fits into the contract 'uint16 apr' field.
+export const MAX_APR_BASIS_POINTS = 65_535;
+// Maximum early unstake fee accepted by the contract (100%).
+export const MAX_FEE_BASIS_POINTS = 10_000;
+
+const EARLY_UNSTAKE_MODES: { [name: string]: EarlyUnstakeMode } = {
+  disabled: EarlyUnstakeMode.Disabled,
+  "pro-rata": EarlyUnstakeMode.ProRata,
+  "forfeit-all": EarlyUnstakeMode.ForfeitAll,
+};
+
+const POOL_STATUSES: { [name: string]: PoolStatus } = {
+  pending: PoolStatus.Pending,
+  open: PoolStatus.Open,
+  full: PoolStatus.Full,
+  ended: PoolStatus.Ended,
+  finalized: PoolStatus.Finalized,
+};
+
+/**
+ * Parses relative duration like "+7d", "+12h", "+90m" or "+30" (seconds) into seconds.
+ * Returns undefined when given input isn't a relative duration.
+ */
+export function parseDuration(input: string): number | undefined {
+  const match = /^\+(\d+)([smhdw]?)$/.exec(input.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  return parseInt(match[1]) * DURATION_UNITS[match[2] || "s"];
+}
+
+/**
+ * Parses time given as a relative duration ("+7d" - counted from 'reference'), unix timestamp in seconds
+ * or ISO date ("2024-01-01T00:00:00Z") into unix timestamp in seconds.
+ */
+export function parseTimestamp(input: string, reference: number): number {
+  const duration = parseDuration(input);
+  if (duration !== undefined) {
+    return reference + duration;
+  }
+
+  if (/^\d+$/.test(input.trim())) {
+    return parseInt(input);
+  }
+
+  const milliseconds = Date.parse(input);
+  if (isNaN(milliseconds)) {
+    throw new Error(`Invalid time '${input}', use ISO date, unix timestamp or relative duration like '+7d'`);
+  }
+
+  return Math.floor(milliseconds / 1000);
+}
+
+/**
+ * Converts APR given as a percentage ("10", "10%" or "12.5%") into contract basis points (100 = 1%).
+ */
+export function parseAprToBasisPoints(input: string): number {
+  const percentage = input.trim().replace(/%$/, "");
+
+  let basisPoints: BigNumber;
+  try {
+    basisPoints = utils.parseUnits(percentage, 2);
+  } catch (e) {
+    throw new Error(`Invalid APR '${input}', use percentage with up to 2 decimals like '12.5%'`);
+  }
+
+  if (basisPoints.lte(0) || basisPoints.gt(MAX_APR_BASIS_POINTS)) {
+    throw new Error(`APR '${input}' is out of range (0.01% - 655.35%)`);
+  }
+
+  return basisPoints.toNumber();
+}
+
+/**
+ * Converts fee given as a percentage ("0", "5" or "2.5%") into contract basis points (100 = 1%).
+ */
+export function parseFeeToBasisPoints(input: string): number {
+  const percentage = input.trim().replace(/%$/, "");
+
+  let basisPoints: BigNumber;
+  try {
+    basisPoints = utils.parseUnits(percentage, 2);
+  } catch (e) {
+    throw new Error(`Invalid fee '${input}', use percentage with up to 2 decimals like '2.5%'`);
+  }
+
+  if (basisPoints.lt(0) || basisPoints.gt(MAX_FEE_BASIS_POINTS)) {
+    throw new Error(`Fee '${input}' is out of range (0% - 100%)`);
+  }
+
+  return basisPoints.toNumber();
+}
+
+/**
+ * Parses early unstake mode name ("disabled", "pro-rata" or "forfeit-all") into the contract enum value.
+ */
+export function parseEarlyUnstakeMode(input: string): EarlyUnstakeMode {
+  const mode = EARLY_UNSTAKE_MODES[input.trim().toLowerCase()];
+  if (mode === undefined) {
+    throw new Error(`Invalid early unstake mode '${input}', use ${Object.keys(EARLY_UNSTAKE_MODES).join(", ")}`);
+  }
+
+  return mode;
+}
+
+/**
+ * Parses comma separated Pool status names ("pending", "open", "full", "ended" or "finalized") into the contract enum
+ * values.
+ */
+export function parsePoolStatuses(input: string): PoolStatus[] {
+  return input.split(",").map(name => {
+    const status = POOL_STATUSES[name.trim().toLowerCase()];
+    if (status === undefined) {
+      throw new Error(`Invalid Pool status '${name}', use ${Object.keys(POOL_STATUSES).join(", ")}`);
+    }
+
+    return status;
+  });
+}
+
+/**
+ * Parses comma separated Stake ids (e.g. "1, 2,5"), duplicated ids are rejected because the contract reverts
+ * the whole batch for them.
+ */
+export function parseStakeIds(input: string): number[] {
+  const ids = input.split(",").map(value => {
+    const id = Number(value.trim());
+    if (!Number.isInteger(id) || id < 1) {
+      throw new Error(`Invalid Stake id '${value}', use positive integers like "1,2,5"`);
+    }
+
+    return id;
+  });
+
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`Duplicated Stake id ${duplicate}`);
+  }
+
+  return ids;
+}
+
+// Formats contract basis points (100 = 1%) as a percentage.
+export function formatAprFromBasisPoints(apr: number): string {
+  return `${utils.formatUnits(apr, 2).replace(/\.0$/, "")}%`;
+}
+
+// Formats unix timestamp in seconds as ISO date.
+export function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+// Formats amount of seconds as a countdown like "2d 4h 13m 5s".
+export function formatDuration(seconds: number): string {
+  if (seconds <= 0) {
+    return "0s";
+  }
+
+  const parts: string[] = [];
+  let remaining = seconds;
+  for (const unit of ["d", "h", "m", "s"]) {
+    const value = Math.floor(remaining / DURATION_UNITS[unit]);
+    remaining -= value * DURATION_UNITS[unit];
+
+    if (value > 0) {
+      parts.push(`${value}${unit}`);
+    }
+  }
+
+  return parts.join(" ");
+}
@@ -30,21 +30,7 @@ export function displayResult(name: string, result: DeployResult): void {
   }
 }
 
-export const chainName = (chainId: number): string => {
-  switch (chainId) {
-    case 1:
-      return "Mainnet";
-    case 4:
-      return "Rinkeby";
-    case 56:
-      return "BSC";
-    case 97:
-      return "BSCTestnet";
-    case 137:
-      return "Polygon";
-    case 80001:
-      return "Mumbai";
-    default:
-      return "Rinkeby";
-  }
-};
+// 31337 is unit testing, 1337 is for coverage
+export const isTestEnvironment = (chainId: number): boolean => chainId === 31337 || chainId === 1337;
+
+export { chainName } from "./chains";